@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import {
+    CampaignSave, MAX_STARS, NEW_SAVE, STAGES, Stage, decodeSave, encodeSave, getSkin, objectiveText, stageOpen, totalStars,
+    unlockedSkins, validateSave
+} from '../engine/campaign';
+import { POWERUPS } from '../engine/powerups';
+import { PowerupIcon } from './PowerupIcon';
+
+// --- Storage ---
+// One save slot. It's checked on load, so a damaged or hand-edited one starts the
+// campaign over rather than breaking the menu.
+
+const STORAGE_KEY = 'snake_vs_pacman_campaign';
+
+export const loadCampaign = (): CampaignSave => {
+    try {
+        return validateSave(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+    } catch {
+        return NEW_SAVE;
+    }
+};
+
+export const saveCampaign = (save: CampaignSave) => localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+
+export const starText = (stars: number) => '★'.repeat(stars) + '☆'.repeat(MAX_STARS - stars);
+
+interface CampaignProps {
+    save: CampaignSave;
+    onChange: (save: CampaignSave) => void;
+    onPlay: (stage: Stage) => void;
+    onBack: () => void;
+}
+
+export const Campaign: React.FC<CampaignProps> = ({ save, onChange, onPlay, onBack }) => {
+    const [shareText, setShareText] = useState('');
+    const [shareError, setShareError] = useState('');
+    const btnClass = "font-pixel text-[10px] text-white py-2 px-4 rounded";
+    const cellClass = "font-pixel text-[8px] py-1 px-2 rounded border border-gray-600";
+    const skins = unlockedSkins(save);
+
+    const exportSave = () => {
+        const text = encodeSave(save);
+        setShareText(text);
+        setShareError('');
+        navigator.clipboard?.writeText(text).catch(() => {});
+    };
+
+    const importSave = () => {
+        try {
+            onChange(decodeSave(shareText));
+            setShareError('');
+        } catch (e) {
+            setShareError((e as Error).message.toUpperCase());
+        }
+    };
+
+    const reward = (stage: Stage) => {
+        const { skin, powerup } = stage.unlocks ?? {};
+        if (powerup) return <span title={POWERUPS[powerup].name}><PowerupIcon type={powerup} size={12} /></span>;
+        if (skin) return <span style={{ color: getSkin(skin)?.body }}>{getSkin(skin)?.name}</span>;
+        return null;
+    };
+
+    return (
+        <div className="w-full max-w-lg">
+            <h1 className="font-pixel text-xl text-[#ffec27] mb-2">CAMPAIGN</h1>
+            <p className="font-pixel text-[8px] text-gray-500 mb-4">{totalStars(save)}/{STAGES.length * MAX_STARS} STARS</p>
+
+            <div className="flex flex-col gap-2 mb-6">
+                {STAGES.map((stage, i) => {
+                    const open = stageOpen(save, i);
+                    const record = save.stages[stage.id];
+                    return (
+                        <button
+                            key={stage.id}
+                            disabled={!open}
+                            onClick={() => onPlay(stage)}
+                            className={`flex items-center gap-3 p-2 rounded border text-left ${open ? 'border-gray-600 hover:border-[#29adff]' : 'border-gray-800 opacity-40'}`}
+                        >
+                            <span className="font-pixel text-[10px] text-gray-500 w-6">{i + 1}</span>
+                            <span className="flex-1">
+                                <span className="block font-pixel text-[10px] text-white">{open ? stage.name : '🔒 LOCKED'}</span>
+                                <span className="block font-pixel text-[8px] text-gray-500 mt-1">
+                                    {objectiveText(stage.objective)} · {stage.level.name}
+                                </span>
+                            </span>
+                            <span className="font-pixel text-[8px]">{reward(stage)}</span>
+                            <span className="font-pixel text-[10px] text-[#ffec27] w-12 text-right">{starText(record?.stars ?? 0)}</span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            <h2 className="font-pixel text-[10px] text-[#ffec27] mb-3">SKIN</h2>
+            <div className="flex flex-wrap justify-center gap-2 mb-6">
+                <button
+                    onClick={() => onChange({ ...save, skin: null })}
+                    className={`${cellClass} ${save.skin === null ? 'text-[#63c74d] border-[#63c74d]' : 'text-gray-500'}`}
+                >
+                    CLASSIC
+                </button>
+                {skins.map(skin => (
+                    <button
+                        key={skin.id}
+                        onClick={() => onChange({ ...save, skin: skin.id })}
+                        className={`${cellClass} ${save.skin === skin.id ? 'border-[#63c74d]' : ''}`}
+                        style={{ color: skin.body }}
+                    >
+                        {skin.name}
+                    </button>
+                ))}
+                {skins.length === 0 && <span className="font-pixel text-[8px] text-gray-500 self-center">CLEAR STAGES TO UNLOCK MORE</span>}
+            </div>
+
+            <h2 className="font-pixel text-[10px] text-[#ffec27] mb-3">SAVE</h2>
+            <div className="flex gap-2 justify-center mb-2">
+                <input
+                    value={shareText}
+                    onChange={e => setShareText(e.target.value)}
+                    placeholder="PASTE A SAVE"
+                    className="flex-1 bg-black border border-gray-600 rounded px-2 font-pixel text-[8px] text-white"
+                />
+                <button onClick={exportSave} className={`${cellClass} text-white hover:border-[#29adff]`}>EXPORT</button>
+                <button onClick={importSave} className={`${cellClass} text-white hover:border-[#29adff]`}>IMPORT</button>
+            </div>
+            {shareError && <p className="font-pixel text-[8px] text-[#ff004d] mb-2">{shareError}</p>}
+
+            <div className="flex gap-4 justify-center mt-6">
+                <button onClick={onBack} className={`${btnClass} bg-gray-700 hover:bg-gray-600`}>
+                    BACK
+                </button>
+            </div>
+        </div>
+    );
+};
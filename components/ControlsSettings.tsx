@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { PlayerId } from '../types';
+import {
+    ACTIONS, Action, Bindings, DEFAULT_BINDINGS, assignPad, buttonLabel, connectedPads,
+    keyLabel, pressedButton, rebindButton, rebindKey
+} from '../input/controls';
+import { DEFAULT_TOUCH, DPAD_LAYOUTS, SWIPE_DISTANCES, TouchSettings } from '../input/touch';
+
+interface ControlsSettingsProps {
+    bindings: Bindings;
+    colors: string[];
+    touch: TouchSettings;
+    onChange: (bindings: Bindings) => void;
+    onTouchChange: (touch: TouchSettings) => void;
+    onBack: () => void;
+}
+
+// What the screen is waiting for: the next key press, or the next button on the player's pad.
+type Listening = { player: PlayerId; action: Action; kind: 'key' | 'button' } | null;
+
+const ARROWS: Record<Action, string> = { up: '↑', down: '↓', left: '←', right: '→' };
+
+export const ControlsSettings: React.FC<ControlsSettingsProps> = ({ bindings, colors, touch, onChange, onTouchChange, onBack }) => {
+    const [listening, setListening] = useState<Listening>(null);
+    const [keyError, setKeyError] = useState('');
+    const btnClass = "font-pixel text-[10px] text-white py-2 px-4 rounded";
+    const cellClass = "font-pixel text-[8px] w-10 py-1 rounded border";
+
+    // Escape cancels; any other key becomes the new binding, unless it's kept for pause.
+    useEffect(() => {
+        if (listening?.kind !== 'key') return;
+        const onKey = (e: KeyboardEvent) => {
+            e.preventDefault();
+            const key = e.key.toLowerCase();
+            try {
+                if (key !== 'escape') onChange(rebindKey(bindings, listening.player, listening.action, key));
+                setKeyError('');
+            } catch (err) {
+                setKeyError((err as Error).message.toUpperCase());
+            }
+            setListening(null);
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    }, [listening, bindings, onChange]);
+
+    // Pads have no events, so watch the player's pad until a button goes down.
+    useEffect(() => {
+        if (listening?.kind !== 'button') return;
+        const slot = bindings[listening.player - 1].pad;
+        let frame = 0;
+        const poll = () => {
+            const pad = slot === null ? null : connectedPads()[slot];
+            const button = pad ? pressedButton(pad) : null;
+            if (button !== null) {
+                onChange(rebindButton(bindings, listening.player, listening.action, button));
+                setListening(null);
+                return;
+            }
+            frame = requestAnimationFrame(poll);
+        };
+        frame = requestAnimationFrame(poll);
+        return () => cancelAnimationFrame(frame);
+    }, [listening, bindings, onChange]);
+
+    const cyclePad = (player: PlayerId) => {
+        const current = bindings[player - 1].pad;
+        const next = current === null ? 0 : current === 3 ? null : current + 1;
+        onChange(assignPad(bindings, player, next));
+    };
+
+    const cycle = <T,>(options: readonly T[], current: T) => options[(options.indexOf(current) + 1) % options.length];
+
+    const isListening = (player: PlayerId, action: Action, kind: 'key' | 'button') =>
+        listening?.player === player && listening.action === action && listening.kind === kind;
+
+    const cell = (player: PlayerId, action: Action, kind: 'key' | 'button', label: string) => (
+        <button
+            key={`${kind}-${action}`}
+            onClick={() => setListening({ player, action, kind })}
+            disabled={kind === 'button' && bindings[player - 1].pad === null}
+            className={`${cellClass} ${isListening(player, action, kind)
+                ? 'border-[#ffec27] text-[#ffec27] animate-pulse'
+                : 'border-gray-600 text-white hover:border-[#29adff]'} disabled:opacity-30`}
+        >
+            {isListening(player, action, kind) ? '...' : label}
+        </button>
+    );
+
+    return (
+        <div className="w-full max-w-md">
+            <h1 className="font-pixel text-xl text-[#ffec27] mb-6">CONTROLS</h1>
+
+            <div className="flex justify-end gap-1 mb-2 pr-14 font-pixel text-[8px] text-gray-500">
+                {ACTIONS.map(a => <span key={a} className="w-10 text-center">{ARROWS[a]}</span>)}
+            </div>
+            <ul className="space-y-3 mb-6">
+                {bindings.map((b, i) => {
+                    const player = (i + 1) as PlayerId;
+                    const connected = b.pad !== null && !!connectedPads()[b.pad];
+                    return (
+                        <li key={player} className="flex items-center gap-2">
+                            <span className="font-pixel text-[10px] w-8 text-left" style={{ color: colors[i] }}>P{player}</span>
+                            <div className="flex flex-col gap-1 flex-1 items-end">
+                                <div className="flex gap-1">
+                                    {ACTIONS.map(a => cell(player, a, 'key', keyLabel(b.keys[a])))}
+                                </div>
+                                <div className="flex gap-1">
+                                    {ACTIONS.map(a => cell(player, a, 'button', buttonLabel(b.buttons[a])))}
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => cyclePad(player)}
+                                className={`${cellClass} w-12 border-gray-600 ${connected ? 'text-[#63c74d]' : 'text-gray-500'}`}
+                            >
+                                {b.pad === null ? 'NO PAD' : `PAD ${b.pad + 1}`}
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {keyError && <p className="font-pixel text-[8px] text-[#ff004d] mb-2">{keyError}</p>}
+            <p className="font-pixel text-[8px] text-gray-500 mb-6 leading-relaxed">
+                CLICK A SLOT, THEN PRESS A KEY OR PAD BUTTON. ESC CANCELS.<br/>
+                THE LEFT STICK ALWAYS STEERS.
+            </p>
+
+            <h2 className="font-pixel text-[10px] text-[#ffec27] mb-3">TOUCH</h2>
+            <div className="flex gap-2 justify-center mb-3">
+                <button
+                    onClick={() => onTouchChange({ ...touch, swipeDistance: cycle(SWIPE_DISTANCES, touch.swipeDistance) })}
+                    className={`${cellClass} w-auto px-2 border-gray-600 text-white`}
+                >
+                    SWIPE: {['SHORT', 'MEDIUM', 'LONG'][SWIPE_DISTANCES.indexOf(touch.swipeDistance)]}
+                </button>
+                <button
+                    onClick={() => onTouchChange({ ...touch, dpad: cycle(DPAD_LAYOUTS, touch.dpad) })}
+                    className={`${cellClass} w-auto px-2 border-gray-600 text-white`}
+                >
+                    D-PAD: {touch.dpad.toUpperCase()}
+                </button>
+                <button
+                    onClick={() => onTouchChange({ ...touch, haptics: !touch.haptics })}
+                    className={`${cellClass} w-auto px-2 border-gray-600 text-white`}
+                >
+                    BUZZ: {touch.haptics ? 'ON' : 'OFF'}
+                </button>
+            </div>
+            <p className="font-pixel text-[8px] text-gray-500 mb-6 leading-relaxed">
+                SWIPE ON THE BOARD TO STEER.<br/>
+                TWO PLAYERS ON ONE SCREEN TAKE A HALF EACH.
+            </p>
+
+            <div className="flex gap-4 justify-center">
+                <button onClick={onBack} className={`${btnClass} bg-gray-700 hover:bg-gray-600`}>
+                    BACK
+                </button>
+                <button onClick={() => { onChange(structuredClone(DEFAULT_BINDINGS)); onTouchChange({ ...DEFAULT_TOUCH }); }} className={`${btnClass} bg-[#aa0033] hover:bg-[#cc0044]`}>
+                    RESET
+                </button>
+            </div>
+        </div>
+    );
+};
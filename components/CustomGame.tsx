@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { GameConfig, GameMode, PowerupType, ScoreValues, WinCondition } from '../types';
+import { MAX_FOOD, MAX_POWERUPS, MIN_SNAKE_INTERVAL } from '../engine/constants';
+import {
+    DEFAULT_CONFIG, MAX_ACCELERATION, MAX_POINTS, MAX_TARGET_SCORE, MAX_TIME_LIMIT, MIN_TARGET_SCORE, MIN_TIME_LIMIT,
+    PRESETS, decodeConfig, encodeConfig, presetOf, validateConfig
+} from '../engine/config';
+import { WAVES } from '../engine/enemies';
+import { POWERUPS } from '../engine/powerups';
+import { PowerupIcon } from './PowerupIcon';
+
+// --- Storage ---
+// The last custom config is kept in localStorage and checked on load, so a hand-edited
+// or outdated entry falls back to the classic rules.
+
+const STORAGE_KEY = 'snake_vs_pacman_config';
+
+export const loadCustomConfig = (): GameConfig => {
+    try {
+        return validateConfig(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+    } catch {
+        return DEFAULT_CONFIG;
+    }
+};
+
+export const saveCustomConfig = (config: GameConfig) => localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+
+// --- Options ---
+
+const BOARD_SIZES = [[16, 12], [20, 14], [24, 16], [30, 20], [40, 28], [50, 34], [60, 40]];
+const INTERVAL_STEP = 10;
+const SLOWEST_START = 200;
+const TIME_STEP = 30000;
+const TARGET_STEP = 5;
+
+const WIN_LABELS: Record<WinCondition, string> = {
+    [WinCondition.LAST_STANDING]: 'LAST SNAKE',
+    [WinCondition.TIMED]: 'TIMED',
+    [WinCondition.FIRST_TO]: 'FIRST TO'
+};
+
+const POINT_LABELS: Record<keyof ScoreValues, string> = { food: 'FOOD', powerup: 'POWER', pacman: 'PACMAN', ghost: 'GHOST' };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface CustomGameProps {
+    config: GameConfig;
+    players: number;
+    onChange: (config: GameConfig) => void;
+    onPlay: (mode: GameMode) => void;
+    onBack: () => void;
+}
+
+export const CustomGame: React.FC<CustomGameProps> = ({ config, players, onChange, onPlay, onBack }) => {
+    const [shareText, setShareText] = useState('');
+    const [shareError, setShareError] = useState('');
+    const btnClass = "font-pixel text-[10px] text-white py-2 px-4 rounded";
+    const cellClass = "font-pixel text-[8px] py-1 px-2 rounded border border-gray-600";
+    const rowClass = "flex items-center gap-2 mb-3 font-pixel text-[10px] text-white";
+    const arrowClass = "text-[#29adff] hover:text-white";
+
+    const preset = presetOf(config);
+
+    const cyclePreset = (delta: number) => {
+        const i = preset ? PRESETS.indexOf(preset) : -1;
+        onChange(PRESETS[(i + delta + PRESETS.length) % PRESETS.length].config);
+    };
+
+    const cycleBoard = (delta: number) => {
+        const i = BOARD_SIZES.findIndex(([cols, rows]) => cols === config.board.cols && rows === config.board.rows);
+        const [cols, rows] = BOARD_SIZES[(Math.max(0, i) + delta + BOARD_SIZES.length) % BOARD_SIZES.length];
+        onChange({ ...config, board: { ...config.board, cols, rows } });
+    };
+
+    // The floor can't sit above the start, so moving one drags the other along
+    const stepStart = (delta: number) => {
+        const startInterval = clamp(config.startInterval + delta * INTERVAL_STEP, MIN_SNAKE_INTERVAL, SLOWEST_START);
+        onChange({ ...config, startInterval, minInterval: Math.min(config.minInterval, startInterval) });
+    };
+
+    const stepFloor = (delta: number) => {
+        const minInterval = clamp(config.minInterval + delta * INTERVAL_STEP, MIN_SNAKE_INTERVAL, SLOWEST_START);
+        onChange({ ...config, minInterval, startInterval: Math.max(config.startInterval, minInterval) });
+    };
+
+    const stepPoints = (key: keyof ScoreValues, delta: number) =>
+        onChange({ ...config, points: { ...config.points, [key]: clamp(config.points[key] + delta, 0, MAX_POINTS) } });
+
+    const cycleWin = () => {
+        const options = Object.values(WinCondition);
+        onChange({ ...config, win: options[(options.indexOf(config.win) + 1) % options.length] });
+    };
+
+    const stepGoal = (delta: number) => {
+        if (config.win === WinCondition.TIMED) {
+            onChange({ ...config, timeLimit: clamp(config.timeLimit + delta * TIME_STEP, MIN_TIME_LIMIT, MAX_TIME_LIMIT) });
+        } else if (config.win === WinCondition.FIRST_TO) {
+            onChange({ ...config, targetScore: clamp(config.targetScore + delta * TARGET_STEP, MIN_TARGET_SCORE, MAX_TARGET_SCORE) });
+        }
+    };
+
+    const togglePowerup = (type: PowerupType) => {
+        const on = config.powerups.includes(type);
+        // Kept in registry order, so the same choices always make the same config
+        const powerups = Object.values(PowerupType).filter(t => t === type ? !on : config.powerups.includes(t));
+        onChange({ ...config, powerups });
+    };
+
+    const stepPickups = (key: 'food' | 'powerups', delta: number) => {
+        const [min, max] = key === 'food' ? [1, MAX_FOOD] : [0, MAX_POWERUPS];
+        onChange({ ...config, pickups: { ...config.pickups, [key]: clamp(config.pickups[key] + delta, min, max) } });
+    };
+
+    const copyShare = () => {
+        const text = encodeConfig(config);
+        setShareText(text);
+        setShareError('');
+        navigator.clipboard?.writeText(text).catch(() => {});
+    };
+
+    const loadShare = () => {
+        try {
+            onChange(decodeConfig(shareText));
+            setShareError('');
+        } catch (e) {
+            setShareError((e as Error).message.toUpperCase());
+        }
+    };
+
+    const stepper = (label: string, value: string, onStep: (delta: number) => void, color = 'text-[#ffec27]') => (
+        <>
+            <button onClick={() => onStep(-1)} className={arrowClass}>◀</button>
+            <span className={`w-20 ${color}`}>{label ? `${value} ${label}` : value}</span>
+            <button onClick={() => onStep(1)} className={arrowClass}>▶</button>
+        </>
+    );
+
+    const goal = config.win === WinCondition.TIMED ? `${config.timeLimit / 1000}S`
+        : config.win === WinCondition.FIRST_TO ? `${config.targetScore} PTS` : null;
+
+    return (
+        <div className="w-full max-w-lg">
+            <h1 className="font-pixel text-xl text-[#ffec27] mb-6">CUSTOM GAME</h1>
+
+            <div className={rowClass}>
+                <span className="w-20 text-left text-gray-500">PRESET:</span>
+                {stepper('', preset?.name ?? 'CUSTOM', cyclePreset)}
+            </div>
+
+            <div className={rowClass}>
+                <span className="w-20 text-left text-gray-500">BOARD:</span>
+                {stepper('', `${config.board.cols}X${config.board.rows}`, cycleBoard, 'text-[#29adff]')}
+                <button
+                    onClick={() => onChange({ ...config, board: { ...config.board, wrap: !config.board.wrap } })}
+                    className={`${cellClass} ${config.board.wrap ? 'text-[#63c74d]' : 'text-gray-500'}`}
+                >
+                    WRAP: {config.board.wrap ? 'ON' : 'OFF'}
+                </button>
+            </div>
+
+            <div className={rowClass}>
+                <span className="w-20 text-left text-gray-500">START:</span>
+                {stepper('MS', String(config.startInterval), stepStart)}
+                <span className="text-[8px] text-gray-500">PER MOVE</span>
+            </div>
+
+            <div className={rowClass}>
+                <span className="w-20 text-left text-gray-500">TOP SPEED:</span>
+                {stepper('MS', String(config.minInterval), stepFloor, 'text-[#ffa300]')}
+            </div>
+
+            <div className={rowClass}>
+                <span className="w-20 text-left text-gray-500">SPEED UP:</span>
+                {stepper('MS', String(config.acceleration),
+                    delta => onChange({ ...config, acceleration: clamp(config.acceleration + delta, 0, MAX_ACCELERATION) }))}
+                <span className="text-[8px] text-gray-500">PER FOOD</span>
+            </div>
+
+            <div className={rowClass}>
+                <span className="w-20 text-left text-gray-500">WIN:</span>
+                <button onClick={cycleWin} className="w-24 text-[#ffec27] hover:text-white">{WIN_LABELS[config.win]}</button>
+                {goal && stepper('', goal, stepGoal, 'text-[#29adff]')}
+            </div>
+
+            <div className={rowClass}>
+                <span className="w-20 text-left text-gray-500">PICKUPS:</span>
+                {stepper('FOOD', String(config.pickups.food), delta => stepPickups('food', delta), 'text-[#ff77a8]')}
+                {stepper('POWER', String(config.pickups.powerups), delta => stepPickups('powerups', delta), 'text-[#ffcc00]')}
+            </div>
+
+            <div className={rowClass}>
+                <span className="w-20 text-left text-gray-500">ENEMIES:</span>
+                {stepper('', config.waves > 0 ? `${config.waves} MAX` : 'NONE',
+                    delta => onChange({ ...config, waves: clamp(config.waves + delta, 0, WAVES.length) }), 'text-[#ffec27]')}
+                <span className="text-[8px] text-gray-500">1 PLAYER</span>
+            </div>
+
+            <h2 className="font-pixel text-[10px] text-[#ffec27] mt-5 mb-3">POINTS</h2>
+            <div className="grid grid-cols-2 gap-x-4 mb-2">
+                {(Object.keys(POINT_LABELS) as (keyof ScoreValues)[]).map(key => (
+                    <div key={key} className={rowClass}>
+                        <span className="w-14 text-left text-[8px] text-gray-500">{POINT_LABELS[key]}</span>
+                        {stepper('', `+${config.points[key]}`, delta => stepPoints(key, delta))}
+                    </div>
+                ))}
+            </div>
+
+            <h2 className="font-pixel text-[10px] text-[#ffec27] mb-3">POWERUPS</h2>
+            <div className="flex flex-wrap justify-center gap-2 mb-6">
+                {Object.values(POWERUPS).map(def => {
+                    const on = config.powerups.includes(def.type);
+                    return (
+                        <button
+                            key={def.type}
+                            onClick={() => togglePowerup(def.type)}
+                            title={def.name}
+                            className={`p-1 rounded border ${on ? 'border-[#63c74d]' : 'border-gray-700 opacity-30'}`}
+                        >
+                            <PowerupIcon type={def.type} size={20} />
+                        </button>
+                    );
+                })}
+            </div>
+
+            <h2 className="font-pixel text-[10px] text-[#ffec27] mb-3">SHARE</h2>
+            <div className="flex gap-2 justify-center mb-2">
+                <input
+                    value={shareText}
+                    onChange={e => setShareText(e.target.value)}
+                    placeholder="PASTE A CONFIG"
+                    className="flex-1 bg-black border border-gray-600 rounded px-2 font-pixel text-[8px] text-white"
+                />
+                <button onClick={copyShare} className={`${cellClass} text-white hover:border-[#29adff]`}>COPY</button>
+                <button onClick={loadShare} className={`${cellClass} text-white hover:border-[#29adff]`}>LOAD</button>
+            </div>
+            {shareError && <p className="font-pixel text-[8px] text-[#ff004d] mb-2">{shareError}</p>}
+
+            <div className="flex gap-4 justify-center mt-6">
+                <button onClick={onBack} className={`${btnClass} bg-gray-700 hover:bg-gray-600`}>
+                    BACK
+                </button>
+                <button onClick={() => onChange(DEFAULT_CONFIG)} className={`${btnClass} bg-[#aa0033] hover:bg-[#cc0044]`}>
+                    RESET
+                </button>
+                <button onClick={() => onPlay(GameMode.PVC)} className={`${btnClass} bg-[#008800] hover:bg-[#00aa00]`}>
+                    1 PLAYER
+                </button>
+                <button onClick={() => onPlay(GameMode.PVP)} className={`${btnClass} bg-[#0055aa] hover:bg-[#0066cc]`}>
+                    {players} PLAYERS
+                </button>
+            </div>
+        </div>
+    );
+};
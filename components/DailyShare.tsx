@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { DailyResult, compareDailyResults, formatDailyResult, parseDailyResult } from '../engine/daily';
+
+interface DailyShareProps {
+    result: DailyResult;
+}
+
+// The end of a daily run: your result to copy out, and a box to paste someone else's into.
+export const DailyShare: React.FC<DailyShareProps> = ({ result }) => {
+    const [theirs, setTheirs] = useState('');
+    const [verdict, setVerdict] = useState('');
+    const [copied, setCopied] = useState(false);
+    const cellClass = "font-pixel text-[8px] py-1 px-2 rounded border border-gray-600 text-white hover:border-[#29adff]";
+    const text = formatDailyResult(result);
+
+    const copy = () => {
+        navigator.clipboard?.writeText(text).then(() => setCopied(true), () => {});
+    };
+
+    const compare = () => {
+        try {
+            const other = parseDailyResult(theirs);
+            if (other.day !== result.day) {
+                setVerdict(`THAT RUN WAS ON ${other.day}`);
+                return;
+            }
+            const diff = compareDailyResults(result, other);
+            const by = result.score !== other.score ? `${Math.abs(result.score - other.score)} PTS` : 'TIME';
+            setVerdict(diff > 0 ? `YOU WIN BY ${by}!` : diff < 0 ? `THEY WIN BY ${by}!` : 'DEAD EVEN!');
+        } catch (e) {
+            setVerdict((e as Error).message.toUpperCase());
+        }
+    };
+
+    return (
+        <div className="w-80 mx-auto mb-2">
+            <p className="font-pixel text-[8px] text-[#ffec27] mb-2 leading-relaxed select-all">{text}</p>
+            <div className="flex gap-2 justify-center mb-3">
+                <button onClick={copy} className={cellClass}>{copied ? 'COPIED!' : '📋 COPY RESULT'}</button>
+            </div>
+            <div className="flex gap-2 justify-center">
+                <input
+                    value={theirs}
+                    onChange={e => setTheirs(e.target.value)}
+                    placeholder="PASTE A FRIEND'S RESULT"
+                    className="flex-1 bg-black border border-gray-600 rounded px-2 font-pixel text-[8px] text-white"
+                />
+                <button onClick={compare} className={cellClass}>VS</button>
+            </div>
+            {verdict && <p className="font-pixel text-[8px] text-[#29adff] mt-2">{verdict}</p>}
+        </div>
+    );
+};
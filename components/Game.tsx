@@ -1,7 +1,61 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GameMode, Point, Particle, SnowFlake, HighScore, Powerup, PowerupType } from '../types';
+import {
+    BotLevel, Difficulty, Enemy, EnemyKind, GameMode, GameState, GameEvent, Level, Point, Particle, SnowFlake,
+    GameConfig, HighScore, PartySettings, PlayerId, PlayerInput, Powerup, PowerupType, ScoreBreakdown, ScorePopup,
+    ScoreSource, Toast, WinCondition
+} from '../types';
 import { Joystick } from './Joystick';
 import { BANNER_SRC } from '../assets';
+import {
+    COLS, ROWS, FREEZE_DURATION, MAX_PLAYERS, MAX_CATCH_UP_TICKS,
+    MAX_FOOD, MAX_POWERUPS, POWERUP_LIFETIME, POWERUP_WARNING
+} from '../engine/constants';
+import {
+    createGame, update as updateGame, step as stepGame, acceptedTurns, isActive, isAlive,
+    ranking, winner, tickProgress, hasEffect, snakeInterval, objectiveProgress, Standing, UpdateResult
+} from '../engine/engine';
+import { randomSeed } from '../engine/rng';
+import { LEVELS, parseLevel, isWall } from '../engine/levels';
+import { DIFFICULTY_SETTINGS } from '../engine/ai';
+import { POWERUPS } from '../engine/powerups';
+import { ConfigOverrides, configArena } from '../engine/config';
+import { MODES, SOLO_MODES } from '../engine/modes';
+import { DailyResult, dailyKey, dailyResult, dailySeed } from '../engine/daily';
+import {
+    CampaignSave, STAGES, Stage, Unlock, cleared, getSkin, objectiveText, recordStage, stageRules, stageStars
+} from '../engine/campaign';
+import { chooseBotTurn } from '../engine/bot';
+import {
+    Recording, createRecording, recordInput, finishRecording,
+    indexInputs, startReplay, serializeRecording, parseRecording
+} from '../engine/replay';
+import { Lockstep, advance, canAdvance, createLockstep, receiveInput } from '../engine/lockstep';
+import { LobbyInfo, ServerMessage } from '../net/protocol';
+import { RelayConnection, connectRelay, defaultRelayUrl } from '../net/client';
+import { loadLeaderboardUrl, saveLeaderboardUrl, sendScore } from '../net/leaderboard';
+import {
+    ACTIONS, Bindings, RESERVED_KEYS, connectedPads, keyLabel, keyTurns, loadBindings, padDirection, saveBindings
+} from '../input/controls';
+import {
+    TouchSettings, loadTouchSettings, saveTouchSettings, swipeDirection, touchPlayer, vibrate
+} from '../input/touch';
+import { ReplayControls } from './ReplayControls';
+import { NetLobby } from './NetLobby';
+import { ControlsSettings } from './ControlsSettings';
+import { CustomGame, loadCustomConfig, saveCustomConfig } from './CustomGame';
+import { DailyShare } from './DailyShare';
+import { Campaign, loadCampaign, saveCampaign, starText } from './Campaign';
+import {
+    BoardId, MAX_HIGH_SCORES, SCORE_MODES, addScore, boardKey, boardOf, importLeaderboard, isStandardBoard, loadReplay, loadScores,
+    newScore, runStats, saveScores, serializeLeaderboard, standardBoard, storeReplay
+} from '../storage/scores';
+import { PvpOutcome, PvpRecord, loadPvpRecord, recordPvpMatch, savePvpRecord } from '../storage/pvp';
+import { Leaderboard } from './Leaderboard';
+import { PowerupIcon } from './PowerupIcon';
+import { PointsBreakdown } from './PointsBreakdown';
+import { Trophies } from './Trophies';
+import { AchievementDef, newTracker, trackAchievements } from '../engine/achievements';
+import { loadAchievements, saveAchievements } from '../storage/achievements';
 
 // Try to load the local banner.png first.
 // If it fails (404/wrong path), the onError handler in the img tag will swap it to the SVG fallback.
@@ -9,87 +63,220 @@ const LOCAL_BANNER_PATH = './banner.png';
 
 // --- Constants ---
 const CELL_SIZE = 20;
-const CANVAS_WIDTH = 600;
-const CANVAS_HEIGHT = 400;
-const COLS = CANVAS_WIDTH / CELL_SIZE;
-const ROWS = CANVAS_HEIGHT / CELL_SIZE;
-const MAX_HIGH_SCORES = 10;
-const FREEZE_DURATION = 150;
-const SPEED_BOOST_DURATION = 200;
-const GHOST_DURATION = 200;
+const CANVAS_WIDTH = COLS * CELL_SIZE;
+const CANVAS_HEIGHT = ROWS * CELL_SIZE;
+const PING_INTERVAL = 1000;
+// A frame longer than this (a stalled tab, a debugger pause) is treated as this long
+const MAX_FRAME_TIME = 100;
+const COUNTDOWN_TIME = 3000;
+const TOAST_FRAMES = 180; // about three seconds
+
+// How to set up a match; anything left out is the menu's pick or the classic game.
+type MatchOptions = {
+    cpu?: boolean; seed?: number; level?: Level; difficulty?: Difficulty;
+    party?: Partial<PartySettings>; config?: ConfigOverrides;
+};
+
+type Finger = { identifier: number; clientX: number; clientY: number };
+const fingers = (touches: ArrayLike<Finger>): Finger[] => Array.from(touches);
+
+type HudScores = { players: number[]; alive: boolean[]; lengths: number[]; pacman: number; objective: number };
+
+const hudScores = (s: GameState): HudScores => ({
+    players: s.snakes.map(snake => snake.score),
+    alive: s.snakes.map(isAlive),
+    lengths: s.snakes.map(snake => snake.body.length),
+    pacman: s.pacmanScore,
+    objective: objectiveProgress(s)
+});
+
+// What the HUD shows in each single-snake mode, left to right. PVP lists every snake instead.
+type HudItem = 'score' | 'pacman' | 'enemies' | 'length' | 'clock' | 'survived' | 'best' | 'objective';
+
+const HUD_LAYOUTS: Record<GameMode, HudItem[]> = {
+    [GameMode.PVC]: ['score', 'pacman', 'enemies', 'best'],
+    [GameMode.PVP]: [],
+    [GameMode.CLASSIC]: ['score', 'length', 'best'],
+    [GameMode.TIME_ATTACK]: ['score', 'clock', 'best'],
+    [GameMode.SURVIVAL]: ['score', 'survived', 'best'],
+    [GameMode.ZEN]: ['length', 'score', 'survived'],
+    [GameMode.DAILY]: ['score', 'pacman', 'enemies', 'best'],
+    [GameMode.CAMPAIGN]: ['objective', 'score', 'enemies']
+};
+
+const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// --- High Scores ---
+// What the standard PVC board shows before anyone has set a score
+const DEFAULT_SCORES: HighScore[] = [
+    { name: 'PAC', score: 100, date: null, stats: null, replay: null },
+    { name: 'SNK', score: 50, date: null, stats: null, replay: null },
+    { name: 'ELF', score: 25, date: null, stats: null, replay: null }
+];
+
+// Each living player's running powerups, with whole seconds left on each.
+type HudEffect = { type: PowerupType; seconds: number };
+
+const hudEffects = (s: GameState): HudEffect[][] => s.snakes.map(snake => !isAlive(snake) ? [] :
+    (Object.entries(snake.effects) as [PowerupType, number][]).map(([type, moves]) => ({
+        type,
+        seconds: Math.ceil(moves * snakeInterval(s, snake) / 1000)
+    }))
+);
+
+// Whole seconds left on a timed match's clock, or null when there is no clock.
+const clockOf = (s: GameState) =>
+    s.config.win === WinCondition.TIMED ? Math.max(0, Math.ceil((s.config.timeLimit - s.elapsed) / 1000)) : null;
+
+// Where to draw something `t` of the way from its last cell to its current one. Anything that
+// jumped (wrapped, respawned, shrank) is drawn where it is now.
+const lerpCell = (from: Point | undefined, to: Point, t: number): Point => {
+    if (!from || Math.abs(to.x - from.x) + Math.abs(to.y - from.y) !== 1) return to;
+    return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+};
 
 // --- Retro Palette ---
 const COLORS = {
     bg: '#050510',
-    p1: '#63c74d', // PICO-8 Green
-    p1Head: '#b87333', // Copper Color
-    p1Highlight: '#b4eeb4',
-    p2: '#ff004d', // PICO-8 Red/Pink
-    p2Head: '#ff77a8', // Brighter Pink
-    p2Highlight: '#ff99aa',
+    // By player: P1 green with a copper head, P2 pink, P3 blue, P4 orange
+    players: [
+        { name: 'GREEN', body: '#63c74d', head: '#b87333', highlight: '#b4eeb4' },
+        { name: 'PINK', body: '#ff004d', head: '#ff77a8', highlight: '#ff99aa' },
+        { name: 'BLUE', body: '#29adff', head: '#1d2b53', highlight: '#c2e9ff' },
+        { name: 'ORANGE', body: '#ffa300', head: '#ab5236', highlight: '#ffe0a8' }
+    ],
     pacman: '#ffec27', // PICO-8 Yellow
+    frozenPacman: '#29adff',
+    frozenGhost: '#2121ff',
+    enemies: {
+        'PACMAN': '#ffec27',
+        'MS PACMAN': '#ffa300',
+        'JR PACMAN': '#ffccaa',
+        'BLINKY': '#ff004d',
+        'PINKY': '#ffb8ff',
+        'INKY': '#00ffff',
+        'CLYDE': '#ffb852'
+    } as Record<string, string>,
     food: '#ff77a8', // Peach/Pink
     snow: '#c2c3c7', // Light Gray
     text: '#29adff',
     wall: '#5f574f',
+    // Score popups for the bonuses; plain points take the scorer's color
+    bonuses: {
+        [ScoreSource.COMBO]: '#ffec27',
+        [ScoreSource.NEAR_MISS]: '#ff77a8',
+        [ScoreSource.QUICK_KILL]: '#29adff'
+    } as Partial<Record<ScoreSource, string>>,
     grid: '#1d1d2b',
     eyeWhite: '#ffffff',
-    eyePupil: '#000000',
-    powerups: {
-        [PowerupType.FREEZE]: '#29adff', // Cyan
-        [PowerupType.SPEED]: '#ffcc00',  // Gold
-        [PowerupType.SLOW]: '#83769c',   // Purple
-        [PowerupType.GHOST]: '#ffffff',  // White
-        [PowerupType.SHRINK]: '#ff77a8'  // Pink
-    }
+    eyePupil: '#000000'
 };
 
 const Game: React.FC = () => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     
     // --- React State for UI ---
-    const [gameState, setGameState] = useState<'intro' | 'menu' | 'playing' | 'gameover' | 'leaderboard'>('intro');
+    const [gameState, setGameState] = useState<'intro' | 'menu' | 'playing' | 'gameover' | 'leaderboard' | 'replay' | 'lobby' | 'controls' | 'custom' | 'campaign' | 'trophies' | 'paused' | 'countdown'>('intro');
     const [mode, setMode] = useState<GameMode>(GameMode.PVC);
-    const [scores, setScores] = useState({ p1: 0, p2: 0, pacman: 0 });
+    const [level, setLevel] = useState<Level>(LEVELS[0]);
+    const [customLevel, setCustomLevel] = useState<Level | null>(null);
+    const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.NORMAL);
+    const [botLevel, setBotLevel] = useState<BotLevel>(BotLevel.NORMAL);
+    const [vsCpu, setVsCpu] = useState(false);
+    const [partyPlayers, setPartyPlayers] = useState(2);
+    const [winCondition, setWinCondition] = useState<WinCondition>(WinCondition.LAST_STANDING);
+    const [foodCount, setFoodCount] = useState(1);
+    const [powerupCount, setPowerupCount] = useState(1);
+    const [customConfig, setCustomConfig] = useState<GameConfig>(loadCustomConfig);
+    const [campaign, setCampaign] = useState<CampaignSave>(loadCampaign);
+    const [bindings, setBindings] = useState<Bindings>(loadBindings);
+    const [touch, setTouch] = useState<TouchSettings>(loadTouchSettings);
+
+    // --- Online State ---
+    const [relayUrl, setRelayUrl] = useState<string>(defaultRelayUrl);
+    const [lobby, setLobby] = useState<LobbyInfo | null>(null);
+    const [latency, setLatency] = useState<number | null>(null);
+    const [netError, setNetError] = useState<string>('');
+    const [netWaiting, setNetWaiting] = useState(false);
+    const [scores, setScores] = useState<HudScores>({ players: [0], alive: [true], lengths: [1], pacman: 0, objective: 0 });
+    const [timeLeft, setTimeLeft] = useState<number | null>(null);
+    const [survived, setSurvived] = useState(0); // whole seconds of the match so far
+    const [effects, setEffects] = useState<HudEffect[][]>([]);
+    const [results, setResults] = useState<Standing[]>([]);
+    const [dailyRun, setDailyRun] = useState<DailyResult | null>(null);
+    // How the last campaign stage went, and what clearing it for the first time unlocked
+    const [stageRun, setStageRun] = useState<{ stage: Stage; stars: number; unlocked?: Unlock } | null>(null);
+    const [breakdown, setBreakdown] = useState<{ player: PlayerId; points: ScoreBreakdown }[]>([]);
+    const [trophiesWon, setTrophiesWon] = useState<AchievementDef[]>([]); // unlocked during the last match
+    const [enemies, setEnemies] = useState<Enemy[]>([]);
     const [gameOverReason, setGameOverReason] = useState<string>('');
     const [isMuted, setIsMuted] = useState(false);
+    const [countdown, setCountdown] = useState(0);
 
     // --- Leaderboard State ---
     const [highScores, setHighScores] = useState<HighScore[]>([]);
+    const [scoreBoard, setScoreBoard] = useState<BoardId>(() => standardBoard(GameMode.PVC)); // whose high scores are loaded
     const [playerName, setPlayerName] = useState<string>('AAA');
     const [isNewHighScore, setIsNewHighScore] = useState(false);
     const [showInput, setShowInput] = useState(false);
+    const [pvp, setPvp] = useState<PvpRecord>(loadPvpRecord);
+    const [leaderboardUrl, setLeaderboardUrl] = useState<string>(loadLeaderboardUrl);
+    const [onlineNotice, setOnlineNotice] = useState('');
+    const [pvpNames, setPvpNames] = useState<{ player: PlayerId; name: string }[]>([]); // players whose result can be recorded
+
+    // --- Replay State ---
+    const [lastRecording, setLastRecording] = useState<Recording | null>(null);
+    const [replayPaused, setReplayPaused] = useState(false);
+    const [replaySpeed, setReplaySpeed] = useState(1);
+    const [replayTick, setReplayTick] = useState(0);
+    const [importError, setImportError] = useState<string>('');
+    const replayFileInput = useRef<HTMLInputElement>(null);
+    const mapFileInput = useRef<HTMLInputElement>(null);
 
     // --- Game Logic State ---
     const frameId = useRef<number>(0);
     const lastTime = useRef<number>(0);
-    const moveTimer = useRef<number>(0);
-    const moveInterval = useRef<number>(120); 
-    const baseMoveInterval = useRef<number>(120);
-    const pacmanMoveTick = useRef<number>(0); 
     const blinkTick = useRef<number>(0);
     const isBlinking = useRef<boolean>(false);
-    
-    // Powerup Effects
-    const speedBoostTimer = useRef<number>(0);
-    const ghostTimer = useRef<number>(0);
-    
-    // Entities
-    const snake1 = useRef<Point[]>([]);
-    const dir1 = useRef<Point>({ x: 0, y: -1 });
-    const nextDir1 = useRef<Point>({ x: 0, y: -1 });
-    
-    const snake2 = useRef<Point[]>([]);
-    const dir2 = useRef<Point>({ x: 0, y: -1 });
-    const nextDir2 = useRef<Point>({ x: 0, y: -1 });
-    
-    const food = useRef<Point>({ x: 0, y: 0 });
-    const powerup = useRef<Powerup | null>(null);
-    const pacman = useRef<Point | null>(null);
-    const pacmanFrozen = useRef<number>(0);
-    
+    const countdownLeft = useRef<number>(0);
+    // How the current match was started, so RESTART can start another like it
+    const lastMatch = useRef<{ mode: GameMode; options: MatchOptions }>({ mode: GameMode.PVC, options: {} });
+    // The day of the daily challenge being played, fixed when it starts
+    const dailyDay = useRef<string>('');
+    // The campaign stage being played
+    const campaignStage = useRef<Stage | null>(null);
+
+    // Simulation (owned by the engine; the component only feeds input and renders)
+    const game = useRef<GameState>(createGame(GameMode.PVC, 0));
+    // The state one tick back and how far the clock is towards the next tick, so the board
+    // can be drawn between grid steps
+    const previous = useRef<GameState | null>(null);
+    const progress = useRef<number>(0);
+    const pendingInput = useRef<PlayerInput>({});
+    // Last direction each player's pad was held in; holding a direction only steers once
+    const padHeld = useRef<(Point | null)[]>([]);
+    // Fingers on the canvas, by touch id: where the current swipe started and whose snake it steers
+    const swipes = useRef(new Map<number, { x: number; y: number; player: PlayerId }>());
+    // Whether P1 started left of P2, so a split screen gives each the half their snake is on
+    const p1Left = useRef(false);
+    const recording = useRef<Recording>(createRecording(0, GameMode.PVC));
+    // CPU snake driving P2 (null when a human has the WASD keys)
+    const cpu = useRef<{ level: BotLevel; tick: number } | null>(null);
+    // Achievements saved so far, and what this match has counted towards them
+    const trophies = useRef(loadAchievements());
+    const trophyTracker = useRef(newTracker(0));
+    // Relay connection and, during an online match, the lockstep session for our snake
+    const net = useRef<{ relay: RelayConnection; player: PlayerId; lockstep: Lockstep | null; timer: number } | null>(null);
+
+    // Playback (refs mirror the replay UI state for the animation loop)
+    const replay = useRef<{
+        recording: Recording; inputs: Map<number, PlayerInput>; timer: number; paused: boolean; speed: number
+    } | null>(null);
+
     // Visuals
     const particles = useRef<Particle[]>([]);
+    const popups = useRef<ScorePopup[]>([]);
+    const toasts = useRef<Toast[]>([]);
     const snowflakes = useRef<SnowFlake[]>([]);
     const flashFrame = useRef<number>(0);
     const shakeFrame = useRef<number>(0);
@@ -164,40 +351,80 @@ const Game: React.FC = () => {
 
     // --- Leaderboard Logic ---
     useEffect(() => {
-        const stored = localStorage.getItem('snake_vs_pacman_scores');
-        if (stored) {
-            setHighScores(JSON.parse(stored));
-        } else {
-            // Defaults
-            setHighScores([
-                { name: 'PAC', score: 100, date: new Date().toLocaleDateString() },
-                { name: 'SNK', score: 50, date: new Date().toLocaleDateString() },
-                { name: 'ELF', score: 25, date: new Date().toLocaleDateString() },
-            ]);
-        }
-    }, []);
+        setImportError('');
+        const stored = loadScores(scoreBoard);
+        setHighScores(stored ?? (scoreBoard.mode === GameMode.PVC && isStandardBoard(scoreBoard) ? DEFAULT_SCORES : []));
+    }, [boardKey(scoreBoard)]);
 
+    // The run's replay is kept with its entry, so it can be watched from the board.
     const saveScore = (name: string, score: number) => {
-        const newEntry: HighScore = { name, score, date: new Date().toLocaleDateString() };
-        const updated = [...highScores, newEntry]
-            .sort((a, b) => b.score - a.score)
-            .slice(0, MAX_HIGH_SCORES);
-        
+        const replayId = lastRecording ? storeReplay(serializeRecording(lastRecording)) : null;
+        const updated = addScore(highScores, newScore(name, score, runStats(game.current), replayId));
         setHighScores(updated);
-        localStorage.setItem('snake_vs_pacman_scores', JSON.stringify(updated));
+        saveScores(scoreBoard, updated, highScores);
+    };
+
+    // The shared board gets the run's seed and inputs, and plays it again before ranking it.
+    const sendScoreOnline = (name: string, score: number, rec: Recording) => {
+        setOnlineNotice('SENDING RUN...');
+        sendScore(leaderboardUrl, { name, score, replay: serializeRecording(rec) })
+            .then(res => setOnlineNotice(res.rank ? `ONLINE RANK #${res.rank}` : 'SENT, BUT OFF THE ONLINE BOARD'))
+            .catch((err: Error) => setOnlineNotice(err.message));
+    };
+
+    const changeLeaderboardUrl = (url: string) => {
+        setLeaderboardUrl(url);
+        saveLeaderboardUrl(url.trim());
     };
 
     const downloadScores = () => {
-        const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(highScores, null, 2));
+        const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(serializeLeaderboard(scoreBoard, highScores, 2));
         const downloadAnchorNode = document.createElement('a');
         downloadAnchorNode.setAttribute("href", dataStr);
-        downloadAnchorNode.setAttribute("download", "snake_vs_pacman_scores.json");
+        downloadAnchorNode.setAttribute("download", `${boardKey(scoreBoard)}.json`);
         document.body.appendChild(downloadAnchorNode);
         downloadAnchorNode.click();
         downloadAnchorNode.remove();
         playSound('powerup');
     };
 
+    // Takes a DOWNLOAD file into the board on show; scores already there aren't doubled up.
+    const importScores = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        file.text().then(text => {
+            const updated = importLeaderboard(scoreBoard, highScores, text);
+            setHighScores(updated);
+            saveScores(scoreBoard, updated, highScores);
+            setImportError('');
+            playSound('powerup');
+        }).catch((err: Error) => setImportError(err.message));
+    };
+
+    const watchScoreReplay = (id: string) => {
+        try {
+            const rec = parseRecording(loadReplay(id) ?? '');
+            setLastRecording(rec);
+            watchReplay(rec);
+        } catch (err) {
+            setImportError((err as Error).message);
+        }
+    };
+
+    // --- PVP Record ---
+    // Each human in the match puts a name to their result; the CPU and the other side of an
+    // online match aren't recorded.
+    const savePvpResult = () => {
+        const won = winner(game.current);
+        const outcome = (player: PlayerId): PvpOutcome => won === null ? 'draw' : won === player ? 'win' : 'loss';
+        const updated = recordPvpMatch(pvp, pvpNames.filter(p => p.name).map(p => ({ name: p.name, outcome: outcome(p.player) })));
+        setPvp(updated);
+        savePvpRecord(updated);
+        setPvpNames([]);
+        playSound('powerup');
+    };
+
     // --- Helpers ---
     const spawnParticles = (x: number, y: number, color: string, count: number = 8) => {
         for (let i = 0; i < count; i++) {
@@ -213,139 +440,370 @@ const Game: React.FC = () => {
         }
     };
 
-    const triggerShake = (amount: number) => {
-        shakeFrame.current = amount;
-    };
-
-    const wrap = (val: number, max: number) => {
-        if (val < 0) return max - 1;
-        if (val >= max) return 0;
-        return val;
+    // Popups made on the same cell in the same tick stack up rather than overlap.
+    const spawnPopup = (at: Point, text: string, color: string) => {
+        const x = at.x * CELL_SIZE + CELL_SIZE / 2;
+        const stacked = popups.current.filter(p => p.life === 1 && p.x === x).length;
+        popups.current.push({ x, y: at.y * CELL_SIZE - stacked * 10, text, color, life: 1 });
     };
 
-    const placeItem = (exclude: Point[]): Point => {
-        let p: Point;
-        let valid = false;
-        while (!valid) {
-            p = {
-                x: Math.floor(Math.random() * COLS),
-                y: Math.floor(Math.random() * ROWS)
-            };
-            valid = true;
-            for (const s of exclude) if (s.x === p.x && s.y === p.y) valid = false;
-        }
-        return p!;
+    const unlockTrophies = (won: AchievementDef[]) => {
+        toasts.current.push(...won.map(def => ({ icon: def.icon, title: def.name, life: 1 })));
+        setTrophiesWon(prev => [...prev, ...won]);
+        saveAchievements(trophies.current);
+        playSound('powerup');
     };
 
-    const placePowerup = (exclude: Point[]): Powerup => {
-        const p = placeItem(exclude);
-        const types = Object.values(PowerupType);
-        const type = types[Math.floor(Math.random() * types.length)];
-        return { ...p, type };
+    const triggerShake = (amount: number) => {
+        shakeFrame.current = amount;
     };
 
     // --- Game Logic ---
 
-    const resetGame = (newMode: GameMode) => {
+    const resetGame = (newMode: GameMode, options: MatchOptions = {}) => {
+        const withCpu = options.cpu ?? false;
+        const seed = options.seed ?? randomSeed();
+        const matchLevel = options.level ?? (MODES[newMode].arena ? undefined : level);
+        const matchDifficulty = options.difficulty ?? difficulty;
+        const party = options.party ?? {};
+        const rules = options.config ?? {};
+        lastMatch.current = { mode: newMode, options };
         initAudio();
         setMode(newMode);
+        setVsCpu(withCpu);
         setGameState('playing');
         setGameOverReason('');
         setShowInput(false);
         setIsNewHighScore(false);
+        setPvpNames([]);
+        setOnlineNotice('');
         
         // Reset Stats
-        setScores(prev => ({ ...prev, p1: 0, p2: 0, pacman: 0 }));
-        moveInterval.current = 120; 
-        baseMoveInterval.current = 120;
-        pacmanMoveTick.current = 0;
-        pacmanFrozen.current = 0;
-        speedBoostTimer.current = 0;
-        ghostTimer.current = 0;
+        setResults([]);
+        setDailyRun(null);
+        setStageRun(null);
+        setBreakdown([]);
+        setTrophiesWon([]);
         flashFrame.current = 0;
         shakeFrame.current = 0;
         particles.current = [];
+        popups.current = [];
+        toasts.current = [];
         blinkTick.current = 0;
         isBlinking.current = false;
 
-        // P1 Setup
-        const startX = newMode === GameMode.PVP ? Math.floor(COLS * 0.75) : Math.floor(COLS / 2);
-        snake1.current = [{ x: startX, y: Math.floor(ROWS / 2) }];
-        dir1.current = { x: 0, y: -1 };
-        nextDir1.current = { x: 0, y: -1 };
-
-        // P2 Setup
-        if (newMode === GameMode.PVP) {
-            snake2.current = [{ x: Math.floor(COLS * 0.25), y: Math.floor(ROWS / 2) }];
-            dir2.current = { x: 0, y: -1 };
-            nextDir2.current = { x: 0, y: -1 };
-            pacman.current = null;
-        } else {
-            snake2.current = [];
-            let px, py;
-            do {
-                px = Math.floor(Math.random() * COLS);
-                py = Math.floor(Math.random() * ROWS);
-            } while (Math.abs(px - startX) < 5);
-            pacman.current = { x: px, y: py };
-        }
+        game.current = createGame(newMode, seed, matchLevel, matchDifficulty, party, rules);
+        trophyTracker.current = newTracker(game.current.snakes.length);
+        const [p1, p2] = game.current.snakes;
+        p1Left.current = !!p2 && p1.body[0].x < p2.body[0].x;
+        if (SCORE_MODES.includes(newMode)) setScoreBoard(boardOf(game.current));
+        previous.current = null;
+        progress.current = 0;
+        setScores(hudScores(game.current));
+        showTimers(game.current);
+        setEnemies(game.current.enemies);
+        pendingInput.current = {};
+        recording.current = createRecording(seed, newMode, matchLevel, matchDifficulty, party, rules);
+        cpu.current = withCpu ? { level: botLevel, tick: -1 } : null;
+        if (net.current) net.current.lockstep = null;
+    };
+
+    // --- Pause ---
+    // Online matches can't pause: the other side's simulation would run on without us.
+    const pauseGame = () => {
+        if ((gameState !== 'playing' && gameState !== 'countdown') || net.current?.lockstep) return;
+        pendingInput.current = {};
+        swipes.current.clear();
+        setGameState('paused');
+    };
+
+    // Play picks up again after a 3-2-1, so nobody has to react the instant the overlay closes.
+    const resumeGame = () => {
+        playSound('select');
+        countdownLeft.current = COUNTDOWN_TIME;
+        setCountdown(Math.ceil(COUNTDOWN_TIME / 1000));
+        setGameState('countdown');
+    };
+
+    const tickCountdown = (dt: number) => {
+        countdownLeft.current -= dt;
+        if (countdownLeft.current <= 0) setGameState('playing');
+        else setCountdown(Math.ceil(countdownLeft.current / 1000));
+    };
+
+    // A new seed each time, except that the daily challenge is the same board all day
+    const restartGame = () => {
+        const { mode: lastMode, options } = lastMatch.current;
+        resetGame(lastMode, { ...options, seed: lastMode === GameMode.DAILY ? options.seed : undefined });
+    };
+
+    const startDaily = () => {
+        dailyDay.current = dailyKey(new Date());
+        resetGame(GameMode.DAILY, { seed: dailySeed(dailyDay.current), difficulty: Difficulty.NORMAL });
+    };
+
+    // Queue a turn for the next frame. Mirrors the engine's turn buffer so a press it would
+    // reject never reaches it, and a full buffer simply ignores further presses.
+    const steer = (player: PlayerId, dir: Point) => {
+        const snake = game.current.snakes[player - 1];
+        if (!snake) return;
+        const pending = pendingInput.current[player] ?? [];
+        const [turn] = acceptedTurns({ ...snake, queue: [...snake.queue, ...pending] }, [dir]);
+        if (turn) pendingInput.current[player] = [...pending, turn];
+    };
+
+    // A human may steer any snake in the match except the one the CPU drives.
+    const humanSteers = (player: PlayerId) => player <= game.current.players && !(player === 2 && cpu.current);
+
+    // Each player's bound pad steers their snake; online, every pad steers our own.
+    const pollGamepads = () => {
+        const pads = connectedPads();
+        bindings.forEach((b, i) => {
+            const pad = b.pad === null ? null : pads[b.pad];
+            const dir = pad ? padDirection(pad, b) : null;
+            const held = padHeld.current[i];
+            padHeld.current[i] = dir;
+            if (!dir || (held && held.x === dir.x && held.y === dir.y)) return;
+            const player = net.current?.lockstep ? net.current.player : (i + 1) as PlayerId;
+            if (net.current?.lockstep || humanSteers(player)) steer(player, dir);
+        });
+    };
+
+    const changeBindings = (next: Bindings) => {
+        setBindings(next);
+        saveBindings(next);
+    };
+
+    const changeTouch = (next: TouchSettings) => {
+        setTouch(next);
+        saveTouchSettings(next);
+    };
+
+    const changeCustomConfig = (next: GameConfig) => {
+        setCustomConfig(next);
+        saveCustomConfig(next);
+    };
+
+    const changeCampaign = (next: CampaignSave) => {
+        setCampaign(next);
+        saveCampaign(next);
+    };
 
-        // Place Food
-        const allSegments = [...snake1.current, ...(pacman.current ? [pacman.current] : [])];
-        if (snake2.current.length) allSegments.push(...snake2.current);
-        food.current = placeItem(allSegments);
-        powerup.current = null; 
+    // A stage brings its own map, Pacman and rules, with the powerups unlocked so far.
+    const playStage = (stage: Stage) => {
+        campaignStage.current = stage;
+        resetGame(GameMode.CAMPAIGN, { level: stage.level, difficulty: stage.difficulty, config: stageRules(stage, campaign) });
     };
 
-    const checkCollision = (head: Point, body: Point[]) => {
-        for (const part of body) {
-            if (head.x === part.x && head.y === part.y) return true;
+    // Custom matches are played on the config's own arena, whatever map the menu has picked.
+    const playCustomGame = (newMode: GameMode) => {
+        const party = newMode === GameMode.PVP ? { players: partyPlayers } : {};
+        resetGame(newMode, { level: configArena(customConfig), party, config: customConfig });
+    };
+
+    // --- Touch ---
+    // Swipes anywhere on the board steer. With two humans on one screen, the canvas splits
+    // down the middle and each finger steers the snake that started on its half.
+    const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
+        if (gameState !== 'playing') return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const split = !net.current?.lockstep && humanSteers(2);
+        for (const t of fingers(e.changedTouches)) {
+            const player = net.current?.lockstep ? net.current.player : touchPlayer(t.clientX, rect.left, rect.width, split, p1Left.current);
+            swipes.current.set(t.identifier, { x: t.clientX, y: t.clientY, player });
+        }
+    };
+
+    const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
+        for (const t of fingers(e.changedTouches)) {
+            const swipe = swipes.current.get(t.identifier);
+            const dir = swipe && swipeDirection(t.clientX - swipe.x, t.clientY - swipe.y, touch.swipeDistance);
+            if (!swipe || !dir) continue;
+            steer(swipe.player, dir);
+            swipe.x = t.clientX;
+            swipe.y = t.clientY;
         }
-        return false;
+    };
+
+    const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
+        for (const t of fingers(e.changedTouches)) swipes.current.delete(t.identifier);
+    };
+
+    // Only the snakes someone is holding the phone for buzz, and never during a replay.
+    const buzz = (player: PlayerId, pattern: number | number[]) => {
+        if (!touch.haptics || gameState !== 'playing') return;
+        const mine = net.current?.lockstep ? net.current.player === player : humanSteers(player);
+        if (mine) vibrate(pattern);
     };
 
     const handleInput = useCallback((e: KeyboardEvent) => {
+        const k = e.key.toLowerCase();
         if (gameState === 'intro') {
              // Any key skips intro
              setGameState('menu');
+        } else if (RESERVED_KEYS.includes(k)) {
+            if (gameState === 'paused') resumeGame();
+            else pauseGame();
         } else if (gameState === 'playing') {
-            const k = e.key.toLowerCase();
-            // P1
-            if (k === 'arrowup' && dir1.current.y === 0) nextDir1.current = { x: 0, y: -1 };
-            if (k === 'arrowdown' && dir1.current.y === 0) nextDir1.current = { x: 0, y: 1 };
-            if (k === 'arrowleft' && dir1.current.x === 0) nextDir1.current = { x: -1, y: 0 };
-            if (k === 'arrowright' && dir1.current.x === 0) nextDir1.current = { x: 1, y: 0 };
-            // P2
-            if (mode === GameMode.PVP) {
-                if (k === 'w' && dir2.current.y === 0) nextDir2.current = { x: 0, y: -1 };
-                if (k === 's' && dir2.current.y === 0) nextDir2.current = { x: 0, y: 1 };
-                if (k === 'a' && dir2.current.x === 0) nextDir2.current = { x: -1, y: 0 };
-                if (k === 'd' && dir2.current.x === 0) nextDir2.current = { x: 1, y: 0 };
+            // Online, every player's keys steer our own snake
+            const online = net.current?.lockstep ? net.current.player : null;
+            for (const { player, dir } of keyTurns(bindings, e.key)) {
+                if (online) steer(online, dir);
+                else if (humanSteers(player)) steer(player, dir);
             }
         }
-    }, [gameState, mode]);
+    }, [gameState, mode, bindings]);
 
     useEffect(() => {
         window.addEventListener('keydown', handleInput);
         return () => window.removeEventListener('keydown', handleInput);
     }, [handleInput]);
 
-    // --- Main Game Loop ---
-    const update = (dt: number) => {
-        moveTimer.current += dt;
+    // Leaving the tab or window pauses, so nobody comes back to a snake that died without them.
+    useEffect(() => {
+        const onVisibility = () => { if (document.hidden) pauseGame(); };
+        document.addEventListener('visibilitychange', onVisibility);
+        window.addEventListener('blur', pauseGame);
+        return () => {
+            document.removeEventListener('visibilitychange', onVisibility);
+            window.removeEventListener('blur', pauseGame);
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [gameState]);
 
-        // Handle Powerup Timers
-        if (speedBoostTimer.current > 0) {
-            speedBoostTimer.current--;
-            if (speedBoostTimer.current === 0) {
-                moveInterval.current = baseMoveInterval.current;
+    // --- Engine Events -> Sound & Effects ---
+    // P1 wears the skin picked in the campaign whenever they play alone.
+    const snakePalette = (player: PlayerId) => {
+        const skin = player === 1 && !MODES[game.current.mode].party ? getSkin(campaign.skin) : undefined;
+        return skin ?? COLORS.players[player - 1];
+    };
+    const playerColor = (player: PlayerId) => snakePalette(player).body;
+
+    // A player's running powerups after their score, e.g. S4 G2
+    const effectBadges = (i: number) => (effects[i] ?? []).map(e => (
+        <span key={e.type} className="ml-1 text-[8px]" style={{ color: POWERUPS[e.type].color }}>
+            <PowerupIcon type={e.type} />{e.seconds}
+        </span>
+    ));
+
+    const playerLabel = (player: PlayerId) => {
+        if (vsCpu && player === 2) return 'CPU';
+        if (net.current?.lockstep || lobby) return net.current?.player === player ? 'YOU' : 'THEM';
+        return `P${player}`;
+    };
+    const enemyColor = (name: string) => COLORS.enemies[name] ?? COLORS.pacman;
+
+    const hudItem = (item: HudItem) => {
+        switch (item) {
+            case 'score':
+                return <div key={item} className="text-[#63c74d]">SCORE: {scores.players[0]}{effectBadges(0)}</div>;
+            case 'pacman':
+                return <div key={item} className="text-[#ffec27]">PACMAN: {scores.pacman}</div>;
+            case 'enemies':
+                return (
+                    <div key={item} className="flex gap-1" title={enemies.map(e => e.name).join(', ')}>
+                        {enemies.map(e => (
+                            <span
+                                key={e.id}
+                                className={`inline-block w-2 h-2 ${e.kind === EnemyKind.GHOST ? 'rounded-t' : 'rounded-full'} ${isActive(e) ? '' : 'opacity-25'}`}
+                                style={{ backgroundColor: enemyColor(e.name) }}
+                            />
+                        ))}
+                    </div>
+                );
+            case 'length':
+                return <div key={item} className="text-[#ff77a8]">LENGTH: {scores.lengths[0]}</div>;
+            case 'clock':
+                return timeLeft !== null && (
+                    <div key={item} className={timeLeft <= 10 ? 'text-[#ff004d] animate-pulse' : 'text-[#ffec27]'}>
+                        ⏱ {formatClock(timeLeft)}
+                    </div>
+                );
+            case 'survived':
+                return <div key={item} className="text-[#ffec27]">⏱ {formatClock(survived)}</div>;
+            case 'best':
+                return highScores.length > 0 && <div key={item} className="text-[#29adff]">HI: {highScores[0].score}</div>;
+            case 'objective': {
+                const objective = game.current.config.objective;
+                return objective && (
+                    <div key={item} className="text-[#ff77a8]" title={objectiveText(objective)}>
+                        GOAL: {Math.min(scores.objective, objective.target)}/{objective.target}
+                    </div>
+                );
             }
         }
-        
-        if (ghostTimer.current > 0) {
-            ghostTimer.current--;
+    };
+
+    const handleEvent = (e: GameEvent) => {
+        switch (e.type) {
+            case 'wrapped':
+            {
+                const { cols, rows } = game.current;
+                if (e.x < 0) { spawnParticles(0, e.y, playerColor(e.by), 3); spawnParticles(cols-1, e.y, playerColor(e.by), 3); }
+                else if (e.x >= cols) { spawnParticles(cols-1, e.y, playerColor(e.by), 3); spawnParticles(0, e.y, playerColor(e.by), 3); }
+                if (e.y < 0) { spawnParticles(e.x, 0, playerColor(e.by), 3); spawnParticles(e.x, rows-1, playerColor(e.by), 3); }
+                else if (e.y >= rows) { spawnParticles(e.x, rows-1, playerColor(e.by), 3); spawnParticles(e.x, 0, playerColor(e.by), 3); }
+                break;
+            }
+            case 'ateFood':
+                if (e.by === 'pacman') {
+                    playSound('pacman');
+                } else {
+                    playSound('eat');
+                    spawnParticles(e.at.x, e.at.y, playerColor(e.by));
+                    triggerShake(3);
+                    buzz(e.by, 20);
+                }
+                break;
+            case 'shielded':
+                spawnParticles(e.at.x, e.at.y, POWERUPS[PowerupType.SHIELD].color, 10);
+                triggerShake(6);
+                buzz(e.player, 60);
+                break;
+            case 'died':
+                buzz(e.player, [80, 40, 120]);
+                break;
+            case 'ateEnemy':
+                playSound('eat');
+                spawnParticles(e.at.x, e.at.y, enemyColor(e.name), 12);
+                triggerShake(e.kind === EnemyKind.GHOST ? 8 : 5);
+                break;
+            case 'enemySpawned':
+                playSound('pacman');
+                spawnParticles(e.at.x, e.at.y, enemyColor(e.name), 6);
+                break;
+            case 'caught':
+                playSound('pacman');
+                spawnParticles(e.at.x, e.at.y, enemyColor(e.name), 10);
+                break;
+            case 'powerupExpired':
+                spawnParticles(e.at.x, e.at.y, POWERUPS[e.powerup].color, 4);
+                break;
+            case 'obstacle':
+                spawnParticles(e.at.x, e.at.y, COLORS.wall, 6);
+                triggerShake(2);
+                break;
+            case 'scored': {
+                const label = e.source === ScoreSource.COMBO ? 'COMBO '
+                    : e.source === ScoreSource.NEAR_MISS ? 'CLOSE! '
+                    : e.source === ScoreSource.QUICK_KILL ? 'QUICK! ' : '';
+                spawnPopup(e.at, `${label}+${e.points}`, COLORS.bonuses[e.source] ?? playerColor(e.by));
+                break;
+            }
+            case 'pickedPowerup':
+                if (e.by === 'pacman') {
+                    spawnParticles(e.at.x, e.at.y, COLORS.pacman);
+                } else {
+                    playSound('powerup');
+                    flashFrame.current = 10;
+                    triggerShake(10);
+                }
+                break;
         }
+    };
 
+    // --- Main Game Loop ---
+    const update = (dt: number) => {
         // Blink Logic
         blinkTick.current += dt;
         if (isBlinking.current) {
@@ -361,274 +819,439 @@ const Game: React.FC = () => {
             }
         }
 
-        if (moveTimer.current > moveInterval.current) {
-            moveTimer.current = 0;
-            
-            dir1.current = nextDir1.current;
-            if (mode === GameMode.PVP) dir2.current = nextDir2.current;
+        pollGamepads();
+        if (net.current?.lockstep) {
+            updateOnline(dt);
+            return;
+        }
 
-            let p1Dead = false;
-            let p2Dead = false;
+        // The CPU picks its turn once per move, through the same path as a key press
+        if (cpu.current && cpu.current.tick !== game.current.tick) {
+            cpu.current.tick = game.current.tick;
+            const dir = chooseBotTurn(game.current, 2, cpu.current.level);
+            if (dir) steer(2, dir);
+        }
 
-            const increaseSpeed = () => {
-                baseMoveInterval.current = Math.max(60, baseMoveInterval.current - 1);
-                if (speedBoostTimer.current === 0) {
-                    moveInterval.current = baseMoveInterval.current;
-                }
-            };
+        recordInput(recording.current, game.current, pendingInput.current);
+        const { state, events } = updateGame(game.current, pendingInput.current, dt);
+        advanceTo(state);
+        progress.current = tickProgress(state);
+        pendingInput.current = {};
+        resolveFrame(state, events);
+    };
 
-            const detectWrap = (rawX: number, rawY: number, color: string) => {
-                if (rawX < 0) { spawnParticles(0, rawY, color, 3); spawnParticles(COLS-1, rawY, color, 3); }
-                else if (rawX >= COLS) { spawnParticles(COLS-1, rawY, color, 3); spawnParticles(0, rawY, color, 3); }
-                if (rawY < 0) { spawnParticles(rawX, 0, color, 3); spawnParticles(rawX, ROWS-1, color, 3); }
-                else if (rawY >= ROWS) { spawnParticles(rawX, ROWS-1, color, 3); spawnParticles(rawX, 0, color, 3); }
-            };
+    // Keeps the state from one tick back for drawing in between. After a multi-tick catch-up
+    // or the last tick of a match there is nothing to slide from, so the board just snaps.
+    const advanceTo = (state: GameState) => {
+        const before = game.current;
+        if (state.tick !== before.tick) previous.current = state.tick === before.tick + 1 && !state.over ? before : null;
+        game.current = state;
+    };
 
-            // --- Move P1 ---
-            const nextX1 = snake1.current[0].x + dir1.current.x;
-            const nextY1 = snake1.current[0].y + dir1.current.y;
-            detectWrap(nextX1, nextY1, COLORS.p1);
+    // The clock and powerup timers tick without any event, so they refresh every frame.
+    // Effects only re-render when a second has actually ticked over.
+    const showTimers = (state: GameState) => {
+        setTimeLeft(clockOf(state));
+        setSurvived(Math.floor(state.elapsed / 1000));
+        const next = hudEffects(state);
+        setEffects(prev => JSON.stringify(prev) === JSON.stringify(next) ? prev : next);
+    };
 
-            const head1 = { x: wrap(nextX1, COLS), y: wrap(nextY1, ROWS) };
-            
-            if (ghostTimer.current === 0) {
-                if (checkCollision(head1, snake1.current)) p1Dead = true;
-                if (checkCollision(head1, snake2.current)) p1Dead = true;
-            }
+    // Effects, HUD and game over for whatever the last frame simulated.
+    const resolveFrame = (state: GameState, events: GameEvent[]) => {
+        showTimers(state);
+        const tracked = trackAchievements(trophies.current, trophyTracker.current, state, events, humanPlayers(state));
+        trophies.current = tracked.progress;
+        if (tracked.unlocked.length > 0) unlockTrophies(tracked.unlocked);
+        if (events.length === 0) return; // the tick a match ends always has its 'matchOver'
+
+        events.forEach(handleEvent);
+        setScores(hudScores(state));
+        setEnemies(state.enemies);
+        if (state.over) finishMatch(state, events);
+    };
 
-            // Handle Pacman Interaction (Eat or Die)
-            let eatenPacman = false;
-            if (mode === GameMode.PVC && pacman.current && head1.x === pacman.current.x && head1.y === pacman.current.y) {
-                if (pacmanFrozen.current > 0) {
-                    // Eat Pacman
-                    setScores(s => ({ ...s, p1: s.p1 + 5 }));
-                    playSound('eat'); 
-                    spawnParticles(head1.x, head1.y, COLORS.pacman, 12);
-                    triggerShake(5);
-                    eatenPacman = true;
-                    
-                    // Respawn Pacman
-                    const exclude = [...snake1.current, food.current];
-                    if (powerup.current) exclude.push(powerup.current);
-                    pacman.current = placeItem(exclude);
-                    
-                    pacmanFrozen.current = 0; // End freeze
-                } else {
-                    p1Dead = true;
-                }
-            }
+    // The players at this screen: ours online, P1 against the CPU, otherwise everyone.
+    const humanPlayers = (state: GameState): PlayerId[] => {
+        const online = net.current?.lockstep ? net.current.player : null;
+        return online ? [online] : cpu.current ? [1] : state.snakes.map((_, i) => (i + 1) as PlayerId);
+    };
 
-            if (!p1Dead) {
-                snake1.current.unshift(head1);
-                
-                if (head1.x === food.current.x && head1.y === food.current.y) {
-                    setScores(s => ({ ...s, p1: s.p1 + 1 }));
-                    playSound('eat');
-                    spawnParticles(head1.x, head1.y, COLORS.p1);
-                    triggerShake(3);
-                    increaseSpeed();
-                    const excludeFood = [...snake1.current, ...snake2.current];
-                    if (powerup.current) excludeFood.push(powerup.current);
-                    food.current = placeItem(excludeFood);
-                    
-                    if (!powerup.current && Math.random() < 0.2) {
-                        powerup.current = placePowerup([...snake1.current, ...snake2.current, food.current]);
-                    }
-                } 
-                else if (powerup.current && head1.x === powerup.current.x && head1.y === powerup.current.y) {
-                    setScores(s => ({ ...s, p1: s.p1 + 5 }));
-                    playSound('powerup');
-                    
-                    switch (powerup.current.type) {
-                        case PowerupType.FREEZE:
-                            pacmanFrozen.current = FREEZE_DURATION;
-                            break;
-                        case PowerupType.SPEED:
-                            speedBoostTimer.current = SPEED_BOOST_DURATION;
-                            moveInterval.current = Math.max(30, baseMoveInterval.current / 2);
-                            break;
-                        case PowerupType.SLOW:
-                            speedBoostTimer.current = SPEED_BOOST_DURATION;
-                            moveInterval.current = Math.min(300, baseMoveInterval.current * 1.5);
-                            break;
-                        case PowerupType.GHOST:
-                            ghostTimer.current = GHOST_DURATION;
-                            break;
-                        case PowerupType.SHRINK:
-                            if (snake1.current.length > 3) {
-                                snake1.current = snake1.current.slice(0, Math.max(3, Math.floor(snake1.current.length / 2)));
-                            }
-                            break;
-                    }
-
-                    powerup.current = null;
-                    flashFrame.current = 10;
-                    triggerShake(10);
-                } 
-                else if (!eatenPacman) {
-                    snake1.current.pop();
-                }
-            }
+    // --- Resolve Game Over ---
+    const finishMatch = (state: GameState, events: GameEvent[]) => {
+        finishRecording(recording.current, state);
+        setLastRecording(recording.current);
+        saveAchievements(trophies.current); // keep how close this match came
 
-            // --- Move P2 ---
-            if (mode === GameMode.PVP) {
-                const nextX2 = snake2.current[0].x + dir2.current.x;
-                const nextY2 = snake2.current[0].y + dir2.current.y;
-                detectWrap(nextX2, nextY2, COLORS.p2);
+        const online = net.current?.lockstep ? net.current.player : null;
+        let killer: string | undefined;
+        events.forEach(e => { if (e.type === 'died' && e.killer) killer = e.killer; });
 
-                const head2 = { x: wrap(nextX2, COLS), y: wrap(nextY2, ROWS) };
-                
-                if (ghostTimer.current === 0) {
-                    if (checkCollision(head2, snake2.current)) p2Dead = true;
-                    if (checkCollision(head2, snake1.current)) p2Dead = true;
-                    if (head1.x === head2.x && head1.y === head2.y) { p1Dead = true; p2Dead = true; }
-                }
+        playSound('die');
+        triggerShake(20);
+        setGameState('gameover');
+        
+        let reason = killer ? `CAUGHT BY ${killer}!` : "GAME OVER";
+        const winningScore = state.snakes[0].score;
+        
+        if (state.mode === GameMode.PVP) {
+            const won = winner(state);
+            setResults(ranking(state));
+            if (won === null) reason = "DRAW!";
+            else if (cpu.current) reason = won === 2 ? "CPU WINS!" : "YOU WIN!";
+            else if (online) reason = won === online ? "YOU WIN!" : "YOU LOSE!";
+            else reason = `${COLORS.players[won - 1].name} WINS!`;
+            setPvpNames(humanPlayers(state).map(player => ({ player, name: `P${player}` })));
+        } else if (isAlive(state.snakes[0])) {
+            reason = MODES[state.mode].deathless ? "RUN OVER"
+                : state.config.objective ? "STAGE CLEAR!"
+                : state.config.win === WinCondition.TIMED ? "TIME UP!" : "TARGET REACHED!";
+        }
+        setGameOverReason(reason);
+        setBreakdown(state.snakes.map((snake, i) => ({ player: (i + 1) as PlayerId, points: snake.points })));
+        if (state.mode === GameMode.DAILY) setDailyRun(dailyResult(dailyDay.current, state));
+
+        // Campaign stages earn stars rather than a place on a leaderboard
+        const stage = campaignStage.current;
+        if (state.mode === GameMode.CAMPAIGN && stage) {
+            const stars = stageStars(stage, state);
+            setStageRun({ stage, stars, unlocked: stars > 0 && !cleared(campaign, stage) ? stage.unlocks : undefined });
+            changeCampaign(recordStage(campaign, stage, stars, winningScore));
+        }
 
-                if (!p2Dead) {
-                    snake2.current.unshift(head2);
-                    if (head2.x === food.current.x && head2.y === food.current.y) {
-                        setScores(s => ({ ...s, p2: s.p2 + 1 }));
-                        playSound('eat');
-                        spawnParticles(head2.x, head2.y, COLORS.p2);
-                        triggerShake(3);
-                        increaseSpeed();
-                        const excludeFood = [...snake1.current, ...snake2.current];
-                        if (powerup.current) excludeFood.push(powerup.current);
-                        food.current = placeItem(excludeFood);
-                    } 
-                    else if (powerup.current && head2.x === powerup.current.x && head2.y === powerup.current.y) {
-                         setScores(s => ({ ...s, p2: s.p2 + 5 }));
-                         playSound('powerup');
-                         
-                         switch (powerup.current.type) {
-                            case PowerupType.FREEZE:
-                                pacmanFrozen.current = FREEZE_DURATION;
-                                break;
-                            case PowerupType.SPEED:
-                                speedBoostTimer.current = SPEED_BOOST_DURATION;
-                                moveInterval.current = Math.max(30, baseMoveInterval.current / 2);
-                                break;
-                            case PowerupType.SLOW:
-                                speedBoostTimer.current = SPEED_BOOST_DURATION;
-                                moveInterval.current = Math.min(300, baseMoveInterval.current * 1.5);
-                                break;
-                            case PowerupType.GHOST:
-                                ghostTimer.current = GHOST_DURATION;
-                                break;
-                            case PowerupType.SHRINK:
-                                if (snake2.current.length > 3) {
-                                    snake2.current = snake2.current.slice(0, Math.max(3, Math.floor(snake2.current.length / 2)));
-                                }
-                                break;
-                        }
-
-                         powerup.current = null;
-                         flashFrame.current = 10;
-                         triggerShake(10);
-                    }
-                    else {
-                        snake2.current.pop();
-                    }
-                }
+        // Single-snake runs go on their board, and to the shared server if there is one
+        if (SCORE_MODES.includes(state.mode)) {
+            const lowestHigh = highScores.length < MAX_HIGH_SCORES ? 0 : highScores[highScores.length - 1].score;
+            const record = winningScore > lowestHigh;
+            if (record || leaderboardUrl) {
+                setIsNewHighScore(record);
+                setShowInput(true);
+                setPlayerName('AAA');
             }
+        }
+    };
 
-            // --- AI ---
-            if (mode === GameMode.PVC && pacman.current) {
-                if (pacmanFrozen.current > 0) {
-                    pacmanFrozen.current--;
-                } else {
-                    pacmanMoveTick.current++;
-                    if (pacmanMoveTick.current % 2 === 0) {
-                        let dx = food.current.x - pacman.current.x;
-                        let dy = food.current.y - pacman.current.y;
-
-                        if (Math.abs(dx) > COLS / 2) dx = dx > 0 ? dx - COLS : dx + COLS;
-                        if (Math.abs(dy) > ROWS / 2) dy = dy > 0 ? dy - ROWS : dy + ROWS;
-                        
-                        let pDirX = 0;
-                        let pDirY = 0;
-
-                        if (Math.abs(dx) > Math.abs(dy)) pDirX = dx > 0 ? 1 : -1;
-                        else pDirY = dy > 0 ? 1 : -1;
-                        
-                        // Try primary direction
-                        let targetX = wrap(pacman.current.x + pDirX, COLS);
-                        let targetY = wrap(pacman.current.y + pDirY, ROWS);
-
-                        // If blocked, try secondary axis
-                        if (checkCollision({x: targetX, y: targetY}, snake1.current)) {
-                            pDirX = 0; pDirY = 0;
-                             if (Math.abs(dx) > Math.abs(dy)) {
-                                 // Was X, try Y
-                                 if (dy !== 0) pDirY = dy > 0 ? 1 : -1;
-                                 else pDirY = Math.random() > 0.5 ? 1 : -1;
-                             } else {
-                                 // Was Y, try X
-                                 if (dx !== 0) pDirX = dx > 0 ? 1 : -1;
-                                 else pDirX = Math.random() > 0.5 ? 1 : -1;
-                             }
-                             targetX = wrap(pacman.current.x + pDirX, COLS);
-                             targetY = wrap(pacman.current.y + pDirY, ROWS);
-                        }
-                        
-                        // Move if not blocked
-                        if (!checkCollision({x: targetX, y: targetY}, snake1.current)) {
-                            pacman.current.x = targetX;
-                            pacman.current.y = targetY;
-                        }
-
-                        if (pacman.current.x === food.current.x && pacman.current.y === food.current.y) {
-                            setScores(s => ({ ...s, pacman: s.pacman + 1 }));
-                            playSound('pacman');
-                            food.current = placeItem([...snake1.current]);
-                        }
-                        
-                        // Check if ran into Snake (Normal death)
-                        if (pacman.current.x === snake1.current[0].x && pacman.current.y === snake1.current[0].y) {
-                            p1Dead = true;
-                        }
-
-                        if (powerup.current && pacman.current.x === powerup.current.x && pacman.current.y === powerup.current.y) {
-                            powerup.current = null; 
-                            spawnParticles(pacman.current.x, pacman.current.y, COLORS.pacman);
-                        }
-                    }
-                }
-            }
+    // ZEN never ends by itself, so the player ends the run from the pause menu.
+    const endRun = () => {
+        game.current = { ...game.current, over: true };
+        finishMatch(game.current, []);
+    };
 
-            // --- Resolve Game Over ---
-            if (p1Dead || p2Dead) {
-                playSound('die');
-                triggerShake(20);
-                setGameState('gameover');
-                
-                let reason = "GAME OVER";
-                let winningScore = scores.p1;
-                
-                if (mode === GameMode.PVP) {
-                    if (p1Dead && p2Dead) { reason = "DRAW!"; winningScore = Math.max(scores.p1, scores.p2); }
-                    else if (p1Dead) { reason = "PINK WINS!"; winningScore = scores.p2; }
-                    else { reason = "GREEN WINS!"; winningScore = scores.p1; }
-                } else {
-                    winningScore = scores.p1;
-                }
-                setGameOverReason(reason);
-
-                // Check High Score (Only for PvC currently, or PvP if we want to track winner)
-                // Let's track P1 score for PvC mainly as it's the "Run" score
-                if (mode === GameMode.PVC) {
-                    const lowestHigh = highScores.length < MAX_HIGH_SCORES ? 0 : highScores[highScores.length - 1].score;
-                    if (winningScore > lowestHigh) {
-                        setIsNewHighScore(true);
-                        setShowInput(true);
-                        setPlayerName('AAA');
-                    }
-                }
-            }
+    // --- Online ---
+    // Lockstep: a tick only runs once both players' turns for it have arrived (see engine/lockstep.ts).
+    const updateOnline = (dt: number) => {
+        const n = net.current!;
+        const ls = n.lockstep!;
+        // The engine's fixed timestep, but at most one tick a frame: each tick has to wait for
+        // the peer's turns, and a backlog built up while waiting plays out over the next frames.
+        const interval = game.current.moveInterval;
+        n.timer = Math.min(n.timer + dt, interval * MAX_CATCH_UP_TICKS);
+        progress.current = Math.min(1, n.timer / interval);
+        if (n.timer < interval) return;
+        if (!canAdvance(ls, game.current)) {
+            setNetWaiting(true);
+            return;
+        }
+        setNetWaiting(false);
+        n.timer -= interval;
+
+        const { result, input, outgoing } = advance(ls, game.current, pendingInput.current[n.player]);
+        recordInput(recording.current, game.current, input);
+        advanceTo(result.state);
+        progress.current = Math.min(1, n.timer / result.state.moveInterval);
+        pendingInput.current = {};
+        n.relay.send({ type: 'input', ...outgoing });
+
+        resolveFrame(result.state, result.events);
+        if (result.state.over) n.lockstep = null;
+        else if (ls.desyncTick !== null) endOnlineMatch(`DESYNC AT TICK ${ls.desyncTick}`);
+    };
+
+    // Stops an online match the engine didn't end itself.
+    const endOnlineMatch = (reason: string) => {
+        if (net.current) net.current.lockstep = null;
+        finishRecording(recording.current, game.current);
+        setLastRecording(recording.current);
+        setNetWaiting(false);
+        setGameOverReason(reason);
+        playSound('die');
+        setGameState('gameover');
+    };
+
+    const handleNetMessage = (msg: ServerMessage) => {
+        const n = net.current;
+        if (!n) return;
+        switch (msg.type) {
+            case 'lobby':
+                n.player = msg.player;
+                setLobby(msg);
+                setNetError('');
+                break;
+            case 'start':
+                // Both sides must build the same match: the relay's seed, the host's level and
+                // NORMAL with the classic rules, whatever either menu has picked
+                resetGame(GameMode.PVP, {
+                    seed: msg.seed,
+                    level: parseLevel(msg.level.map.join('\n'), msg.level.name, msg.level.id),
+                    difficulty: Difficulty.NORMAL
+                });
+                n.lockstep = createLockstep(n.player);
+                n.timer = 0;
+                break;
+            case 'input':
+                if (!n.lockstep) break;
+                receiveInput(n.lockstep, msg);
+                if (n.lockstep.desyncTick !== null) endOnlineMatch(`DESYNC AT TICK ${n.lockstep.desyncTick}`);
+                break;
+            case 'ping':
+                n.relay.send({ type: 'pong', t: msg.t });
+                break;
+            case 'pong':
+                setLatency(Math.round(performance.now() - msg.t));
+                break;
+            case 'left':
+                if (n.lockstep) endOnlineMatch('OPPONENT LEFT');
+                else setNetError('OPPONENT LEFT');
+                setLobby(null);
+                setLatency(null);
+                break;
+            case 'error':
+                setNetError(msg.message.toUpperCase());
+                break;
         }
     };
 
+    const handleRelayClosed = (reason: string) => {
+        if (net.current?.lockstep) endOnlineMatch('CONNECTION LOST');
+        net.current = null;
+        setLobby(null);
+        setLatency(null);
+        setNetError(reason.toUpperCase());
+    };
+
+    // The socket outlives many renders; route its callbacks to the latest handlers.
+    const netCallbacks = useRef({ message: handleNetMessage, closed: handleRelayClosed });
+    netCallbacks.current = { message: handleNetMessage, closed: handleRelayClosed };
+
+    const openRelay = () => {
+        if (net.current) return net.current.relay;
+        const relay = connectRelay(
+            relayUrl,
+            msg => netCallbacks.current.message(msg),
+            reason => netCallbacks.current.closed(reason)
+        );
+        net.current = { relay, player: 1, lockstep: null, timer: 0 };
+        return relay;
+    };
+
+    const openLobby = () => {
+        playSound('select');
+        setNetError('');
+        setGameState('lobby');
+    };
+
+    const createLobby = () => {
+        initAudio();
+        setNetError('');
+        openRelay().send({ type: 'create', level });
+    };
+
+    const joinLobby = (code: string) => {
+        initAudio();
+        setNetError('');
+        openRelay().send({ type: 'join', code });
+    };
+
+    const setReady = (ready: boolean) => {
+        playSound('select');
+        net.current?.relay.send({ type: 'ready', ready });
+    };
+
+    const leaveOnline = () => {
+        net.current?.relay.close();
+        net.current = null;
+        setLobby(null);
+        setLatency(null);
+        setNetError('');
+        setGameState('menu');
+    };
+
+    useEffect(() => {
+        if (!lobby) return;
+        const id = setInterval(() => net.current?.relay.send({ type: 'ping', t: performance.now() }), PING_INTERVAL);
+        return () => clearInterval(id);
+    }, [lobby]);
+
+    // --- Replay ---
+    const watchReplay = (rec: Recording) => {
+        initAudio();
+        replay.current = { recording: rec, inputs: indexInputs(rec), timer: 0, paused: false, speed: replaySpeed };
+        game.current = startReplay(rec);
+        previous.current = null;
+        progress.current = 0;
+        cpu.current = null;
+        setVsCpu(false);
+        pendingInput.current = {};
+        particles.current = [];
+        popups.current = [];
+        flashFrame.current = 0;
+        shakeFrame.current = 0;
+        setMode(rec.mode);
+        setScores(hudScores(game.current));
+        showTimers(game.current);
+        setEnemies(game.current.enemies);
+        setReplayPaused(false);
+        setReplayTick(0);
+        setImportError('');
+        setGameState('replay');
+    };
+
+    const applyReplayResult = ({ state, events }: UpdateResult) => {
+        const prevTick = game.current.tick;
+        advanceTo(state);
+        if (state.tick !== prevTick) setReplayTick(state.tick);
+        showTimers(state);
+        if (events.length > 0) {
+            events.forEach(handleEvent);
+            setScores(hudScores(state));
+            setEnemies(state.enemies);
+        }
+        // Playback stops at the end, so this only runs on the tick the match ended
+        if (state.over) {
+            playSound('die');
+            triggerShake(20);
+        }
+    };
+
+    const replayFinished = () => {
+        const r = replay.current;
+        return !r || game.current.over || game.current.tick >= r.recording.ticks;
+    };
+
+    // Playback keeps its own clock and steps one tick at a time, so every tick gets exactly
+    // the turns recorded for it. Faster playback just runs the clock faster.
+    const updateReplay = (dt: number) => {
+        const r = replay.current;
+        if (!r || r.paused) return;
+        r.timer += dt * r.speed;
+        for (let i = 0; i < MAX_CATCH_UP_TICKS * r.speed && r.timer >= game.current.moveInterval && !replayFinished(); i++) {
+            r.timer -= game.current.moveInterval;
+            applyReplayResult(stepGame(game.current, r.inputs.get(game.current.tick)));
+        }
+        r.timer %= game.current.moveInterval;
+        progress.current = replayFinished() ? 1 : r.timer / game.current.moveInterval;
+    };
+
+    const stepReplay = () => {
+        const r = replay.current;
+        if (!r || replayFinished()) return;
+        r.timer = 0;
+        applyReplayResult(stepGame(game.current, r.inputs.get(game.current.tick)));
+        progress.current = 1;
+    };
+
+    const toggleReplayPause = () => {
+        if (!replay.current) return;
+        replay.current.paused = !replay.current.paused;
+        setReplayPaused(replay.current.paused);
+    };
+
+    const changeReplaySpeed = (speed: number) => {
+        if (replay.current) replay.current.speed = speed;
+        setReplaySpeed(speed);
+    };
+
+    const exitReplay = () => {
+        replay.current = null;
+        playSound('select');
+        setGameState('menu');
+    };
+
+    const downloadReplay = () => {
+        if (!lastRecording) return;
+        const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(serializeRecording(lastRecording));
+        const downloadAnchorNode = document.createElement('a');
+        downloadAnchorNode.setAttribute("href", dataStr);
+        downloadAnchorNode.setAttribute("download", `snake_vs_pacman_replay_${lastRecording.mode}.json`);
+        document.body.appendChild(downloadAnchorNode);
+        downloadAnchorNode.click();
+        downloadAnchorNode.remove();
+        playSound('powerup');
+    };
+
+    const importReplay = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        file.text().then(text => {
+            const rec = parseRecording(text);
+            setLastRecording(rec);
+            watchReplay(rec);
+        }).catch((err: Error) => setImportError(err.message));
+    };
+
+    // --- Levels ---
+    const levelChoices = customLevel ? [...LEVELS, customLevel] : LEVELS;
+
+    const cycleLevel = (delta: number) => {
+        const i = levelChoices.findIndex(l => l.id === level.id);
+        setLevel(levelChoices[(i + delta + levelChoices.length) % levelChoices.length]);
+        playSound('select');
+    };
+
+    const cycleBotLevel = (delta: number) => {
+        const options = Object.values(BotLevel);
+        const i = options.indexOf(botLevel);
+        setBotLevel(options[(i + delta + options.length) % options.length]);
+        playSound('select');
+    };
+
+    const cyclePartyPlayers = (delta: number) => {
+        setPartyPlayers(n => 2 + (n - 2 + delta + MAX_PLAYERS - 1) % (MAX_PLAYERS - 1));
+        playSound('select');
+    };
+
+    const cycleFoodCount = (delta: number) => {
+        setFoodCount(n => 1 + (n - 1 + delta + MAX_FOOD) % MAX_FOOD);
+        playSound('select');
+    };
+
+    // 0 switches powerups off
+    const cyclePowerupCount = (delta: number) => {
+        setPowerupCount(n => (n + delta + MAX_POWERUPS + 1) % (MAX_POWERUPS + 1));
+        playSound('select');
+    };
+
+    const cycleWinCondition = () => {
+        setWinCondition(w => w === WinCondition.LAST_STANDING ? WinCondition.TIMED : WinCondition.LAST_STANDING);
+        playSound('select');
+    };
+
+    const cycleDifficulty = (delta: number) => {
+        const options = Object.values(Difficulty);
+        const i = options.indexOf(difficulty);
+        setDifficulty(options[(i + delta + options.length) % options.length]);
+        playSound('select');
+    };
+
+    const importMap = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        file.text().then(text => {
+            const name = file.name.replace(/\.[^.]*$/, '').toUpperCase().slice(0, 12);
+            const loaded = parseLevel(text, name);
+            setCustomLevel(loaded);
+            setLevel(loaded);
+            setImportError('');
+        }).catch((err: Error) => setImportError(err.message));
+    };
+
     const draw = (ctx: CanvasRenderingContext2D) => {
+        const s = game.current;
+        const width = s.cols * CELL_SIZE;
+        const height = s.rows * CELL_SIZE;
+
         // --- Screen Shake Transform ---
         ctx.save();
         if (shakeFrame.current > 0) {
@@ -640,30 +1263,44 @@ const Game: React.FC = () => {
         }
 
         ctx.fillStyle = COLORS.bg;
-        ctx.fillRect(-10, -10, CANVAS_WIDTH + 20, CANVAS_HEIGHT + 20); 
+        ctx.fillRect(-10, -10, width + 20, height + 20); 
 
         // Grid
         ctx.strokeStyle = COLORS.grid;
         ctx.lineWidth = 1;
         ctx.beginPath();
-        for(let x=0; x<=CANVAS_WIDTH; x+=CELL_SIZE) { ctx.moveTo(x,0); ctx.lineTo(x,CANVAS_HEIGHT); }
-        for(let y=0; y<=CANVAS_HEIGHT; y+=CELL_SIZE) { ctx.moveTo(0,y); ctx.lineTo(CANVAS_WIDTH,y); }
+        for(let x=0; x<=width; x+=CELL_SIZE) { ctx.moveTo(x,0); ctx.lineTo(x,height); }
+        for(let y=0; y<=height; y+=CELL_SIZE) { ctx.moveTo(0,y); ctx.lineTo(width,y); }
         ctx.stroke();
 
+        // Walls
+        for (let y = 0; y < s.rows; y++) {
+            for (let x = 0; x < s.cols; x++) {
+                if (!isWall(s.level, { x, y })) continue;
+                const wx = x * CELL_SIZE;
+                const wy = y * CELL_SIZE;
+                ctx.fillStyle = COLORS.wall;
+                ctx.fillRect(wx, wy, CELL_SIZE, CELL_SIZE);
+                ctx.fillStyle = '#000';
+                ctx.fillRect(wx, wy + CELL_SIZE / 2 - 1, CELL_SIZE, 2);
+                ctx.fillRect(wx + (y % 2 === 0 ? CELL_SIZE / 2 : 4), wy, 2, CELL_SIZE / 2);
+            }
+        }
+
         // Snowflakes
         ctx.fillStyle = COLORS.snow;
         snowflakes.current.forEach(f => {
             f.y += f.speed;
             f.x += Math.sin(f.y * 0.05 + f.swayOffset) * 0.5;
-            if (f.y > CANVAS_HEIGHT) f.y = 0;
-            if (f.x > CANVAS_WIDTH) f.x = 0;
-            if (f.x < 0) f.x = CANVAS_WIDTH;
+            if (f.y > height) f.y = 0;
+            if (f.x > width) f.x = 0;
+            if (f.x < 0) f.x = width;
             ctx.fillRect(Math.floor(f.x), Math.floor(f.y), Math.floor(f.size), Math.floor(f.size));
         });
 
         const drawSnakeBlock = (x: number, y: number, color: string, highlight: string, headColor: string, isHead: boolean, direction?: Point) => {
-            const px = x * CELL_SIZE;
-            const py = y * CELL_SIZE;
+            const px = Math.round(x * CELL_SIZE);
+            const py = Math.round(y * CELL_SIZE);
             ctx.fillStyle = '#000'; ctx.fillRect(px, py, CELL_SIZE, CELL_SIZE);
             
             // Use Head Color if head
@@ -714,61 +1351,95 @@ const Game: React.FC = () => {
             }
         };
 
-        const fx = food.current.x * CELL_SIZE;
-        const fy = food.current.y * CELL_SIZE;
         const pulse = Math.floor(Math.sin(Date.now()/150) * 2);
-        ctx.fillStyle = COLORS.food;
-        ctx.fillRect(fx + 4 - pulse/2, fy + 6 - pulse/2, 12 + pulse, 10 + pulse);
-        ctx.fillStyle = '#44ee44';
-        ctx.fillRect(fx + 8, fy + 2, 4, 4);
-
-        if (powerup.current) {
-            const px = powerup.current.x * CELL_SIZE;
-            const py = powerup.current.y * CELL_SIZE;
-            const floatY = Math.floor(Math.sin(Date.now() / 150) * 3);
-            
-            ctx.fillStyle = COLORS.powerups[powerup.current.type];
+        s.food.forEach((f: Point) => {
+            const fx = f.x * CELL_SIZE;
+            const fy = f.y * CELL_SIZE;
+            ctx.fillStyle = COLORS.food;
+            ctx.fillRect(fx + 4 - pulse/2, fy + 6 - pulse/2, 12 + pulse, 10 + pulse);
+            ctx.fillStyle = '#44ee44';
+            ctx.fillRect(fx + 8, fy + 2, 4, 4);
+        });
+
+        const floatY = Math.floor(Math.sin(Date.now() / 150) * 3);
+        const blinkOff = Math.floor(Date.now() / 120) % 2 === 0;
+        s.powerups.forEach((p: Powerup) => {
+            // About to vanish: it blinks
+            if (p.life <= POWERUP_WARNING && blinkOff) return;
+            const px = p.x * CELL_SIZE;
+            const py = p.y * CELL_SIZE;
+
+            const { color, icon } = POWERUPS[p.type];
+            ctx.fillStyle = color;
             ctx.fillRect(px + 2, py + 2 + floatY, 16, 16);
-            
-            ctx.fillStyle = '#fff';
-            ctx.font = '10px "Press Start 2P"';
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-            
-            let icon = '?';
-            switch (powerup.current.type) {
-                case PowerupType.FREEZE: icon = 'F'; break;
-                case PowerupType.SPEED: icon = 'S'; break;
-                case PowerupType.SLOW: icon = 'L'; break;
-                case PowerupType.GHOST: icon = 'G'; break;
-                case PowerupType.SHRINK: icon = 'M'; break;
-            }
-            ctx.fillText(icon, px + 10, py + 10 + floatY);
-        }
 
-        if (ghostTimer.current > 0) ctx.globalAlpha = 0.5;
-        snake1.current.forEach((p, i) => drawSnakeBlock(p.x, p.y, COLORS.p1, COLORS.p1Highlight, COLORS.p1Head, i===0, dir1.current));
-        if (mode === GameMode.PVP) {
-            snake2.current.forEach((p, i) => drawSnakeBlock(p.x, p.y, COLORS.p2, COLORS.p2Highlight, COLORS.p2Head, i===0, dir2.current));
-        }
+            // The sprite is punched out of the block in 2px pixels
+            ctx.fillStyle = COLORS.bg;
+            icon.forEach((row, y) => [...row].forEach((pixel, x) => {
+                if (pixel === '#') ctx.fillRect(px + 5 + x * 2, py + 5 + y * 2 + floatY, 2, 2);
+            }));
+
+            // Time left, as a bar that shrinks underneath
+            ctx.fillStyle = color;
+            ctx.fillRect(px + 2, py + CELL_SIZE - 1, Math.ceil(16 * p.life / POWERUP_LIFETIME), 1);
+        });
+
+        // Moving things slide from where they were a tick ago towards where they are now
+        const before = previous.current;
+        const t = progress.current;
+
+        // Knocked-out snakes stay on the board as faded wrecks while the rest play on
+        s.snakes.forEach((snake, n) => {
+            const palette = snakePalette((n + 1) as PlayerId);
+            ctx.globalAlpha = !isAlive(snake) ? 0.25 : hasEffect(snake, PowerupType.GHOST) ? 0.5 : 1.0;
+            // Tail first, so the head stays on top of a snake still coiled up after a TELEPORT
+            for (let i = snake.body.length - 1; i >= 0; i--) {
+                const at = lerpCell(before?.snakes[n]?.body[i], snake.body[i], t);
+                drawSnakeBlock(at.x, at.y, palette.body, palette.highlight, palette.head, i===0, snake.dir);
+                if (i === 0 && isAlive(snake) && hasEffect(snake, PowerupType.SHIELD)) {
+                    ctx.strokeStyle = POWERUPS[PowerupType.SHIELD].color;
+                    ctx.lineWidth = 2;
+                    ctx.strokeRect(Math.round(at.x * CELL_SIZE) + 1, Math.round(at.y * CELL_SIZE) + 1, CELL_SIZE - 2, CELL_SIZE - 2);
+                }
+            }
+        });
         ctx.globalAlpha = 1.0;
 
-        if (pacman.current) {
-            const px = pacman.current.x * CELL_SIZE;
-            const py = pacman.current.y * CELL_SIZE;
-            ctx.fillStyle = pacmanFrozen.current > 0 ? '#29adff' : COLORS.pacman;
-            if (pacmanFrozen.current > 0) {
+        s.enemies.filter(isActive).forEach(e => {
+            const was = before?.enemies.find(b => b.id === e.id);
+            const at = lerpCell(was && isActive(was) ? was : undefined, e, t);
+            const px = Math.round(at.x * CELL_SIZE);
+            const py = Math.round(at.y * CELL_SIZE);
+            if (e.kind === EnemyKind.GHOST) {
+                 // Dome, body and a ragged hem
+                 ctx.fillStyle = e.frozen > 0 ? COLORS.frozenGhost : enemyColor(e.name);
+                 ctx.fillRect(px + 4, py + 1, 12, 4);
+                 ctx.fillRect(px + 2, py + 3, 16, 13);
+                 ctx.fillRect(px + 2, py + 16, 4, 3);
+                 ctx.fillRect(px + 8, py + 16, 4, 3);
+                 ctx.fillRect(px + 14, py + 16, 4, 3);
+                 ctx.fillStyle = COLORS.eyeWhite;
+                 ctx.fillRect(px + 4, py + 6, 5, 5);
+                 ctx.fillRect(px + 11, py + 6, 5, 5);
+                 if (e.frozen === 0) {
+                      ctx.fillStyle = COLORS.eyePupil;
+                      ctx.fillRect(px + 6, py + 8, 2, 2);
+                      ctx.fillRect(px + 13, py + 8, 2, 2);
+                 }
+            } else if (e.frozen > 0) {
+                 ctx.fillStyle = COLORS.frozenPacman;
                  ctx.fillRect(px + 4, py + 2, 12, 16);
                  ctx.fillRect(px + 2, py + 18, 4, 2);
                  ctx.fillRect(px + 14, py + 18, 4, 2);
             } else {
+                 ctx.fillStyle = enemyColor(e.name);
                  ctx.fillRect(px + 4, py, 12, 20); 
                  ctx.fillRect(px, py + 4, 20, 12);
                  ctx.fillRect(px + 2, py + 2, 16, 16);
                  ctx.fillStyle = 'black';
                  ctx.fillRect(px + 10, py + 4, 4, 4);
             }
-        }
+        });
 
         particles.current.forEach(p => {
             p.x += p.vx;
@@ -782,19 +1453,56 @@ const Game: React.FC = () => {
             }
         });
         particles.current = particles.current.filter(p => p.life > 0);
+
+        ctx.font = '8px "Press Start 2P", monospace';
+        ctx.textAlign = 'center';
+        popups.current.forEach(p => {
+            p.y -= 0.5;
+            p.life -= 0.02;
+            if (p.life > 0) {
+                ctx.globalAlpha = p.life;
+                ctx.fillStyle = 'black';
+                ctx.fillText(p.text, p.x + 1, p.y + 1);
+                ctx.fillStyle = p.color;
+                ctx.fillText(p.text, p.x, p.y);
+                ctx.globalAlpha = 1.0;
+            }
+        });
+        popups.current = popups.current.filter(p => p.life > 0);
+        ctx.textAlign = 'start';
+
+        // Achievement toasts, one at a time, below the freeze timer
+        const toast = toasts.current[0];
+        if (toast) {
+            toast.life -= 1 / TOAST_FRAMES;
+            ctx.globalAlpha = Math.min(1, toast.life * 5);
+            ctx.fillStyle = '#1d1d2b';
+            ctx.fillRect(width / 2 - 110, 22, 220, 34);
+            ctx.strokeStyle = '#ffec27';
+            ctx.strokeRect(width / 2 - 110, 22, 220, 34);
+            ctx.textAlign = 'center';
+            ctx.fillStyle = '#ffec27';
+            ctx.fillText('ACHIEVEMENT UNLOCKED', width / 2, 35);
+            ctx.fillStyle = 'white';
+            ctx.fillText(`${toast.icon} ${toast.title}`, width / 2, 49);
+            ctx.textAlign = 'start';
+            ctx.globalAlpha = 1.0;
+            if (toast.life <= 0) toasts.current.shift();
+        }
         
         // Timer Bar (Foreground)
-        if (pacmanFrozen.current > 0) {
-            const barWidth = (pacmanFrozen.current / FREEZE_DURATION) * (CANVAS_WIDTH - 40);
+        const frozen = Math.max(0, ...s.enemies.map(e => e.frozen));
+        if (frozen > 0) {
+            const barWidth = (frozen / FREEZE_DURATION) * (width - 40);
             ctx.fillStyle = '#29adff';
             ctx.fillRect(20, 10, barWidth, 6);
             ctx.strokeStyle = '#fff';
-            ctx.strokeRect(20, 10, CANVAS_WIDTH - 40, 6);
+            ctx.strokeRect(20, 10, width - 40, 6);
         }
 
         if (flashFrame.current > 0) {
             ctx.fillStyle = `rgba(255,255,255,${flashFrame.current * 0.1})`;
-            ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+            ctx.fillRect(0, 0, width, height);
             flashFrame.current--;
         }
 
@@ -820,9 +1528,13 @@ const Game: React.FC = () => {
         ctx.imageSmoothingEnabled = false;
 
         const loop = (time: number) => {
+            const dt = Math.min(time - lastTime.current, MAX_FRAME_TIME);
             if (gameState === 'playing') {
-                const dt = time - lastTime.current;
                 update(dt);
+            } else if (gameState === 'replay') {
+                updateReplay(dt);
+            } else if (gameState === 'countdown') {
+                tickCountdown(dt);
             }
             draw(ctx);
             lastTime.current = time;
@@ -834,8 +1546,9 @@ const Game: React.FC = () => {
     }, [gameState]);
 
     const handleJoystick = (dx: number, dy: number) => {
-        if (dx !== 0 && dir1.current.x === 0) nextDir1.current = { x: dx, y: 0 };
-        if (dy !== 0 && dir1.current.y === 0) nextDir1.current = { x: 0, y: dy };
+        const player = net.current?.lockstep ? net.current.player : 1;
+        if (dx !== 0) steer(player, { x: dx, y: 0 });
+        if (dy !== 0) steer(player, { x: 0, y: dy });
     };
 
     const handleNameInput = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -843,7 +1556,8 @@ const Game: React.FC = () => {
     };
 
     const submitScore = () => {
-        saveScore(playerName, scores.p1);
+        if (isNewHighScore) saveScore(playerName, scores.players[0]);
+        if (leaderboardUrl && lastRecording) sendScoreOnline(playerName, scores.players[0], lastRecording);
         setShowInput(false);
         setIsNewHighScore(false);
         setGameState('leaderboard');
@@ -866,37 +1580,69 @@ const Game: React.FC = () => {
             {/* HUD */}
             {gameState !== 'intro' && (
                 <div className="w-full max-w-[600px] flex justify-between items-center bg-black/80 border-2 border-[#aeeaff] p-3 rounded font-pixel text-[10px] sm:text-xs text-white shadow-[0_0_10px_rgba(41,173,255,0.3)]">
-                    {mode === GameMode.PVC ? (
-                        <>
-                            <div className="text-[#63c74d]">SCORE: {scores.p1}</div>
-                            <div className="text-[#ffec27]">PACMAN: {scores.pacman}</div>
-                            {highScores.length > 0 && <div className="text-[#29adff]">HI: {highScores[0].score}</div>}
-                        </>
+                    {!MODES[mode].party ? (
+                        <>{HUD_LAYOUTS[mode].map(hudItem)}</>
                     ) : (
                         <>
-                            <div className="text-[#63c74d]">P1 (GREEN): {scores.p1}</div>
-                            <div className="text-[#ff004d]">P2 (RED): {scores.p2}</div>
+                            {scores.players.map((score, i) => (
+                                <div
+                                    key={i}
+                                    className={scores.alive[i] ? '' : 'line-through opacity-40'}
+                                    style={{ color: COLORS.players[i].body }}
+                                >
+                                    {playerLabel((i + 1) as PlayerId)}: {score}{effectBadges(i)}
+                                </div>
+                            ))}
+                            {hudItem('clock')}
+                            {lobby && (
+                                <div className={netWaiting ? 'text-[#ffec27] animate-pulse' : 'text-gray-500'}>
+                                    {netWaiting ? 'WAITING...' : `PING ${latency ?? '-'}MS`}
+                                </div>
+                            )}
                         </>
                     )}
-                    <button 
-                        className="ml-4 bg-gray-800 hover:bg-gray-700 text-white px-2 py-1 rounded border border-gray-600"
-                        onClick={() => setIsMuted(!isMuted)}
-                    >
-                        {isMuted ? "🔇" : "🔊"}
-                    </button>
+                    <div className="flex gap-2 ml-4">
+                        {(gameState === 'playing' || gameState === 'countdown') && !lobby && (
+                            <button 
+                                className="bg-gray-800 hover:bg-gray-700 text-white px-2 py-1 rounded border border-gray-600"
+                                onClick={pauseGame}
+                            >
+                                ⏸
+                            </button>
+                        )}
+                        <button 
+                            className="bg-gray-800 hover:bg-gray-700 text-white px-2 py-1 rounded border border-gray-600"
+                            onClick={() => setIsMuted(!isMuted)}
+                        >
+                            {isMuted ? "🔇" : "🔊"}
+                        </button>
+                    </div>
                 </div>
             )}
 
             <div className="relative border-4 border-[#aeeaff] rounded-lg shadow-[0_0_20px_rgba(0,0,0,0.8)] bg-black p-1">
             <canvas 
                 ref={canvasRef} 
-                width={CANVAS_WIDTH} 
-                height={CANVAS_HEIGHT}
-                className="block max-w-full max-h-[70vh] cursor-none"
+                width={game.current.cols * CELL_SIZE} 
+                height={game.current.rows * CELL_SIZE}
+                className="block max-w-full max-h-[70vh] cursor-none touch-none"
+                onTouchStart={handleTouchStart}
+                onTouchMove={handleTouchMove}
+                onTouchEnd={handleTouchEnd}
+                onTouchCancel={handleTouchEnd}
             />
             
+            {/* Countdown */}
+            {gameState === 'countdown' && (
+                <div className="absolute inset-0 flex items-center justify-center z-20 pointer-events-none">
+                    <span key={countdown} className="font-pixel text-6xl text-[#ffec27] drop-shadow-[0_0_10px_rgba(255,236,39,0.6)] animate-pulse">
+                        {countdown}
+                    </span>
+                </div>
+            )}
+
             {/* Menus */}
-            {gameState !== 'playing' && (
+            {gameState !== 'playing' && gameState !== 'replay' && gameState !== 'countdown' && (
                 <div className="absolute inset-0 bg-[#050510]/95 flex flex-col items-center justify-center text-center p-8 z-20 overflow-y-auto overflow-x-hidden">
                     
                     {gameState === 'intro' ? (
@@ -925,38 +1671,85 @@ const Game: React.FC = () => {
                                 CLICK TO START
                             </button>
                         </div>
-                    ) : gameState === 'leaderboard' ? (
-                        <div className="w-full max-w-sm">
-                             <h1 className="font-pixel text-xl text-[#ffec27] mb-6 animate-pulse">HIGH SCORES</h1>
-                             <div className="flex justify-between font-pixel text-[10px] text-gray-500 mb-2 px-2 border-b border-gray-700 pb-1">
-                                <span>RANK</span><span>NAME</span><span>SCORE</span>
-                             </div>
-                             <ul className="space-y-2 mb-6">
-                                {highScores.map((s, i) => (
-                                    <li key={i} className="flex justify-between font-pixel text-[10px] text-white px-2">
-                                        <span className={i===0?"text-[#ffec27]":i===1?"text-[#c2c3c7]":i===2?"text-[#d68e49]":"text-white"}>
-                                            {i+1}.
-                                        </span>
-                                        <span className="tracking-widest">{s.name}</span>
-                                        <span>{s.score.toString().padStart(5, '0')}</span>
-                                    </li>
-                                ))}
-                             </ul>
-                             <div className="flex gap-4 justify-center">
-                                 <button 
-                                    onClick={() => setGameState('menu')}
-                                    className="font-pixel text-[10px] bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded"
-                                >
-                                    BACK
+                    ) : gameState === 'lobby' ? (
+                        <NetLobby
+                            serverUrl={relayUrl}
+                            lobby={lobby}
+                            levelName={level.name}
+                            latency={latency}
+                            error={netError}
+                            onServerUrl={setRelayUrl}
+                            onCreate={createLobby}
+                            onJoin={joinLobby}
+                            onReady={setReady}
+                            onLeave={leaveOnline}
+                        />
+                    ) : gameState === 'paused' ? (
+                        <div className="flex flex-col items-center">
+                            <h1 className="font-pixel text-2xl text-[#ffec27] mb-8">PAUSED</h1>
+                            <div className="flex flex-col gap-4 w-48 mb-6">
+                                <button onClick={resumeGame} className="font-pixel text-[10px] bg-[#008800] hover:bg-[#00aa00] text-white py-3 px-4 rounded">
+                                    ▶ RESUME
                                 </button>
-                                <button 
-                                    onClick={downloadScores}
-                                    className="font-pixel text-[10px] bg-[#29adff] hover:bg-[#5bc0ff] text-black py-2 px-4 rounded flex items-center gap-2"
+                                <button onClick={restartGame} className="font-pixel text-[10px] bg-[#0055aa] hover:bg-[#0066cc] text-white py-3 px-4 rounded">
+                                    ↺ RESTART
+                                </button>
+                                {MODES[mode].deathless && (
+                                    <button onClick={endRun} className="font-pixel text-[10px] bg-[#aa0033] hover:bg-[#cc0044] text-white py-3 px-4 rounded">
+                                        ■ END RUN
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => { playSound('select'); setGameState('menu'); }}
+                                    className="font-pixel text-[10px] bg-gray-700 hover:bg-gray-600 text-white py-3 px-4 rounded"
                                 >
-                                    💾 DOWNLOAD
+                                    QUIT TO MENU
                                 </button>
-                             </div>
+                            </div>
+                            <p className="font-pixel text-[8px] text-gray-500">P OR ESC TO RESUME</p>
                         </div>
+                    ) : gameState === 'controls' ? (
+                        <ControlsSettings
+                            bindings={bindings}
+                            colors={COLORS.players.map(p => p.body)}
+                            touch={touch}
+                            onChange={changeBindings}
+                            onTouchChange={changeTouch}
+                            onBack={() => { playSound('select'); setGameState('menu'); }}
+                        />
+                    ) : gameState === 'custom' ? (
+                        <CustomGame
+                            config={customConfig}
+                            players={partyPlayers}
+                            onChange={changeCustomConfig}
+                            onPlay={playCustomGame}
+                            onBack={() => { playSound('select'); setGameState('menu'); }}
+                        />
+                    ) : gameState === 'campaign' ? (
+                        <Campaign
+                            save={campaign}
+                            onChange={changeCampaign}
+                            onPlay={playStage}
+                            onBack={() => { playSound('select'); setGameState('menu'); }}
+                        />
+                    ) : gameState === 'trophies' ? (
+                        <Trophies progress={trophies.current} onBack={() => { playSound('select'); setGameState('menu'); }} />
+                    ) : gameState === 'leaderboard' ? (
+                        <Leaderboard
+                            board={scoreBoard}
+                            scores={highScores}
+                            pvp={pvp}
+                            error={importError}
+                            serverUrl={leaderboardUrl}
+                            name={playerName}
+                            notice={onlineNotice}
+                            onServerUrl={changeLeaderboardUrl}
+                            onBoard={board => { playSound('select'); setScoreBoard(board); }}
+                            onDownload={downloadScores}
+                            onImport={importScores}
+                            onWatch={watchScoreReplay}
+                            onBack={() => setGameState('menu')}
+                        />
                     ) : (
                         <>
                             <h1 className="font-pixel text-2xl text-[#aeeaff] mb-6 shadow-black drop-shadow-md leading-relaxed animate-pulse">
@@ -965,11 +1758,80 @@ const Game: React.FC = () => {
                             
                             {gameState === 'gameover' && (
                                 <div className="mb-6">
-                                    <p className="font-pixel text-[10px] text-gray-400 mb-2">FINAL SCORE: {scores.p1}</p>
+                                    {results.length > 0 ? (
+                                        <ul className="space-y-2 mb-2 w-64 mx-auto">
+                                            {results.map((r, i) => (
+                                                <li key={r.player} className="flex justify-between font-pixel text-[10px] px-2">
+                                                    <span className="text-gray-500">{i + 1}.</span>
+                                                    <span style={{ color: playerColor(r.player) }}>{playerLabel(r.player)}</span>
+                                                    <span className="text-gray-500">{r.alive ? 'ALIVE' : 'OUT'}</span>
+                                                    <span className="text-white">{r.score.toString().padStart(3, '0')}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    ) : (
+                                        <p className="font-pixel text-[10px] text-gray-400 mb-2">FINAL SCORE: {scores.players[0]}</p>
+                                    )}
+                                    <PointsBreakdown
+                                        players={breakdown.map(b => ({ label: playerLabel(b.player), color: playerColor(b.player), points: b.points }))}
+                                    />
+                                    {trophiesWon.map(def => (
+                                        <p key={def.id} className="font-pixel text-[8px] text-[#ffec27] mb-2">{def.icon} UNLOCKED: {def.name}</p>
+                                    ))}
+                                    {dailyRun && <DailyShare result={dailyRun} />}
+                                    {stageRun && (
+                                        <div className="mb-2">
+                                            <p className="font-pixel text-xl text-[#ffec27] mb-2">{starText(stageRun.stars)}</p>
+                                            {stageRun.unlocked?.skin && (
+                                                <p className="font-pixel text-[8px] text-[#63c74d] mb-2">UNLOCKED: {getSkin(stageRun.unlocked.skin)?.name} SKIN</p>
+                                            )}
+                                            {stageRun.unlocked?.powerup && (
+                                                <p className="font-pixel text-[8px] text-[#63c74d] mb-2">UNLOCKED: {POWERUPS[stageRun.unlocked.powerup].name}</p>
+                                            )}
+                                            <div className="flex gap-2 justify-center">
+                                                <button
+                                                    onClick={() => { playSound('select'); setGameState('campaign'); }}
+                                                    className="font-pixel text-[8px] py-1 px-2 rounded border border-gray-600 text-white hover:border-[#29adff]"
+                                                >
+                                                    STAGES
+                                                </button>
+                                                {stageRun.stars > 0 && STAGES[STAGES.indexOf(stageRun.stage) + 1] && (
+                                                    <button
+                                                        onClick={() => playStage(STAGES[STAGES.indexOf(stageRun.stage) + 1])}
+                                                        className="font-pixel text-[8px] py-1 px-2 rounded border border-[#63c74d] text-white hover:border-[#29adff]"
+                                                    >
+                                                        NEXT STAGE ▶
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    )}
                                     
-                                    {isNewHighScore && showInput && (
+                                    {pvpNames.length > 0 && (
+                                        <div className="bg-white/10 p-4 rounded border border-[#29adff] mb-2">
+                                            <p className="text-[#29adff] font-pixel text-[10px] mb-2">RECORD RESULT</p>
+                                            <div className="flex gap-2 justify-center items-center">
+                                                {pvpNames.map(p => (
+                                                    <input
+                                                        key={p.player}
+                                                        maxLength={3}
+                                                        value={p.name}
+                                                        onChange={e => {
+                                                            const name = e.target.value.toUpperCase().slice(0, 3);
+                                                            setPvpNames(names => names.map(n => n.player === p.player ? { ...n, name } : n));
+                                                        }}
+                                                        style={{ borderColor: playerColor(p.player) }}
+                                                        className="bg-black text-white font-pixel text-[10px] w-14 text-center uppercase border p-1"
+                                                    />
+                                                ))}
+                                                <button onClick={savePvpResult} className="bg-[#63c74d] text-white font-pixel text-[10px] p-2 rounded">SAVE</button>
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    {showInput && (
                                         <div className="animate-bounce bg-white/10 p-4 rounded border border-[#ffec27]">
-                                            <p className="text-[#ffec27] font-pixel text-[10px] mb-2">NEW RECORD!</p>
+                                            <p className="text-[#ffec27] font-pixel text-[10px] mb-2">{isNewHighScore ? 'NEW RECORD!' : 'SEND TO ONLINE BOARD'}</p>
                                             <div className="flex gap-2 justify-center items-center">
                                                 <input 
                                                     autoFocus
@@ -987,31 +1849,185 @@ const Game: React.FC = () => {
 
                             {!showInput && (
                                 <>
+                                    <div className="flex items-center gap-3 mb-4 font-pixel text-[10px] text-white">
+                                        <span className="text-gray-500">MAP:</span>
+                                        <button onClick={() => cycleLevel(-1)} className="text-[#29adff] hover:text-white">◀</button>
+                                        <span className="w-24 text-[#ffec27]">{level.name}</span>
+                                        <button onClick={() => cycleLevel(1)} className="text-[#29adff] hover:text-white">▶</button>
+                                        <button 
+                                            onClick={() => mapFileInput.current?.click()}
+                                            className="text-[8px] text-[#29adff] hover:text-white underline"
+                                        >
+                                            📂 LOAD MAP
+                                        </button>
+                                        <input 
+                                            ref={mapFileInput}
+                                            type="file"
+                                            accept=".txt,text/plain"
+                                            onChange={importMap}
+                                            className="hidden"
+                                        />
+                                    </div>
+
+                                    <div className="flex items-center gap-3 mb-4 font-pixel text-[10px] text-white">
+                                        <span className="text-gray-500">PACMAN:</span>
+                                        <button onClick={() => cycleDifficulty(-1)} className="text-[#29adff] hover:text-white">◀</button>
+                                        <span className="w-24 text-[#ffec27]">{difficulty.toUpperCase()}</span>
+                                        <button onClick={() => cycleDifficulty(1)} className="text-[#29adff] hover:text-white">▶</button>
+                                        <span className="text-[8px] text-gray-500">{DIFFICULTY_SETTINGS[difficulty].personality.toUpperCase()}</span>
+                                    </div>
+
+                                    <div className="flex items-center gap-3 mb-4 font-pixel text-[10px] text-white">
+                                        <span className="text-gray-500">PARTY:</span>
+                                        <button onClick={() => cyclePartyPlayers(-1)} className="text-[#29adff] hover:text-white">◀</button>
+                                        <span className="w-24 text-[#29adff]">{partyPlayers} SNAKES</span>
+                                        <button onClick={() => cyclePartyPlayers(1)} className="text-[#29adff] hover:text-white">▶</button>
+                                        <button onClick={cycleWinCondition} className="w-28 text-[#ffec27] hover:text-white">
+                                            {winCondition === WinCondition.TIMED ? 'TIMED' : 'LAST SNAKE'}
+                                        </button>
+                                    </div>
+
+                                    <div className="flex items-center gap-3 mb-4 font-pixel text-[10px] text-white">
+                                        <span className="text-gray-500">PICKUPS:</span>
+                                        <button onClick={() => cycleFoodCount(-1)} className="text-[#29adff] hover:text-white">◀</button>
+                                        <span className="w-16 text-[#ff77a8]">{foodCount} FOOD</span>
+                                        <button onClick={() => cycleFoodCount(1)} className="text-[#29adff] hover:text-white">▶</button>
+                                        <button onClick={() => cyclePowerupCount(-1)} className="text-[#29adff] hover:text-white">◀</button>
+                                        <span className="w-24 text-[#ffcc00]">{powerupCount > 0 ? `${powerupCount} POWER` : 'NO POWER'}</span>
+                                        <button onClick={() => cyclePowerupCount(1)} className="text-[#29adff] hover:text-white">▶</button>
+                                    </div>
+
+                                    <div className="flex items-center gap-3 mb-4 font-pixel text-[10px] text-white">
+                                        <span className="text-gray-500">CPU SNAKE:</span>
+                                        <button onClick={() => cycleBotLevel(-1)} className="text-[#29adff] hover:text-white">◀</button>
+                                        <span className="w-24 text-[#ff004d]">{botLevel.toUpperCase()}</span>
+                                        <button onClick={() => cycleBotLevel(1)} className="text-[#29adff] hover:text-white">▶</button>
+                                    </div>
+
                                     <div className="flex gap-4 mb-8">
                                         <button 
-                                            onClick={() => resetGame(GameMode.PVC)}
+                                            onClick={() => resetGame(GameMode.PVC, { config: { pickups: { food: foodCount, powerups: powerupCount } } })}
                                             className="font-pixel text-[10px] bg-[#008800] hover:bg-[#00aa00] text-white py-3 px-4 rounded shadow-[0_4px_0_#005500] active:translate-y-1 active:shadow-none transition-all"
                                         >
                                             1 PLAYER<br/>(VS PACMAN)
                                         </button>
                                         <button 
-                                            onClick={() => resetGame(GameMode.PVP)}
+                                            onClick={() => resetGame(GameMode.PVP, { party: { players: partyPlayers }, config: { win: winCondition, pickups: { food: foodCount, powerups: powerupCount } } })}
                                             className="font-pixel text-[10px] bg-[#0055aa] hover:bg-[#0066cc] text-white py-3 px-4 rounded shadow-[0_4px_0_#003366] active:translate-y-1 active:shadow-none transition-all"
                                         >
-                                            2 PLAYERS<br/>(PVP)
+                                            {partyPlayers} PLAYERS<br/>(PVP)
+                                        </button>
+                                        <button 
+                                            onClick={() => resetGame(GameMode.PVP, { cpu: true, config: { pickups: { food: foodCount, powerups: powerupCount } } })}
+                                            className="font-pixel text-[10px] bg-[#aa0033] hover:bg-[#cc0044] text-white py-3 px-4 rounded shadow-[0_4px_0_#660022] active:translate-y-1 active:shadow-none transition-all"
+                                        >
+                                            1P VS<br/>CPU SNAKE
                                         </button>
                                     </div>
 
-                                    <button 
-                                        onClick={() => { playSound('select'); setGameState('leaderboard'); }}
-                                        className="font-pixel text-[10px] text-[#29adff] hover:text-white underline mb-8"
-                                    >
-                                        🏆 HIGH SCORES
-                                    </button>
+                                    <div className="flex gap-2 -mt-4 mb-8">
+                                        <button
+                                            onClick={startDaily}
+                                            title={MODES[GameMode.DAILY].description}
+                                            className="font-pixel text-[8px] bg-[#7e2553] hover:bg-[#9e3573] text-white py-2 px-3 rounded border border-[#ff77a8]"
+                                        >
+                                            📅 DAILY
+                                        </button>
+                                        <button
+                                            onClick={() => { playSound('select'); setGameState('campaign'); }}
+                                            title={MODES[GameMode.CAMPAIGN].description}
+                                            className="font-pixel text-[8px] bg-[#1d2b53] hover:bg-[#2d3b63] text-white py-2 px-3 rounded border border-[#29adff]"
+                                        >
+                                            🗺 CAMPAIGN
+                                        </button>
+                                        {SOLO_MODES.map(m => (
+                                            <button
+                                                key={m}
+                                                onClick={() => resetGame(m, { config: { pickups: { food: foodCount, powerups: powerupCount } } })}
+                                                title={MODES[m].description}
+                                                className="font-pixel text-[8px] bg-gray-800 hover:bg-gray-700 text-white py-2 px-3 rounded border border-gray-600"
+                                            >
+                                                {MODES[m].name}
+                                            </button>
+                                        ))}
+                                    </div>
+
+                                    {gameState === 'gameover' && lastRecording && (
+                                        <div className="flex gap-4 mb-6">
+                                            {lobby && (
+                                                <button 
+                                                    onClick={openLobby}
+                                                    className="font-pixel text-[10px] bg-[#0055aa] hover:bg-[#0066cc] text-white py-2 px-4 rounded"
+                                                >
+                                                    🌐 LOBBY
+                                                </button>
+                                            )}
+                                            <button 
+                                                onClick={() => watchReplay(lastRecording)}
+                                                className="font-pixel text-[10px] bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded"
+                                            >
+                                                ▶ REPLAY
+                                            </button>
+                                            <button 
+                                                onClick={downloadReplay}
+                                                className="font-pixel text-[10px] bg-[#29adff] hover:bg-[#5bc0ff] text-black py-2 px-4 rounded"
+                                            >
+                                                💾 SAVE REPLAY
+                                            </button>
+                                        </div>
+                                    )}
+
+                                    <div className="flex gap-6 mb-8">
+                                        <button 
+                                            onClick={() => { playSound('select'); setGameState('leaderboard'); }}
+                                            className="font-pixel text-[10px] text-[#29adff] hover:text-white underline"
+                                        >
+                                            🏆 HIGH SCORES
+                                        </button>
+                                        <button 
+                                            onClick={() => { playSound('select'); setGameState('trophies'); }}
+                                            className="font-pixel text-[10px] text-[#29adff] hover:text-white underline"
+                                        >
+                                            🏅 TROPHIES
+                                        </button>
+                                        <button 
+                                            onClick={() => replayFileInput.current?.click()}
+                                            className="font-pixel text-[10px] text-[#29adff] hover:text-white underline"
+                                        >
+                                            📂 LOAD REPLAY
+                                        </button>
+                                        <button 
+                                            onClick={openLobby}
+                                            className="font-pixel text-[10px] text-[#29adff] hover:text-white underline"
+                                        >
+                                            🌐 ONLINE
+                                        </button>
+                                        <button 
+                                            onClick={() => { playSound('select'); setGameState('controls'); }}
+                                            className="font-pixel text-[10px] text-[#29adff] hover:text-white underline"
+                                        >
+                                            🎮 CONTROLS
+                                        </button>
+                                        <button 
+                                            onClick={() => { playSound('select'); setGameState('custom'); }}
+                                            className="font-pixel text-[10px] text-[#29adff] hover:text-white underline"
+                                        >
+                                            ⚙ CUSTOM GAME
+                                        </button>
+                                        <input 
+                                            ref={replayFileInput}
+                                            type="file"
+                                            accept=".json,application/json"
+                                            onChange={importReplay}
+                                            className="hidden"
+                                        />
+                                    </div>
+                                    {importError && <p className="font-pixel text-[8px] text-[#ff004d] mb-4">{importError}</p>}
 
                                     <div className="font-pixel text-[8px] text-gray-500 leading-relaxed">
-                                        P1: ARROW KEYS<br/>
-                                        P2: WASD
+                                        {bindings.map((b, i) => (
+                                            <span key={i} className="mx-2">P{i + 1}: {ACTIONS.map(a => keyLabel(b.keys[a])).join('')}</span>
+                                        ))}
                                     </div>
                                 </>
                             )}
@@ -1021,12 +2037,25 @@ const Game: React.FC = () => {
             )}
             
             {/* Mobile Controls Overlay */}
-            {gameState === 'playing' && (
-                <div className="lg:hidden absolute bottom-4 left-1/2 -translate-x-1/2 z-30 opacity-70">
+            {gameState === 'playing' && touch.dpad !== 'hidden' && (
+                <div className={`lg:hidden absolute bottom-4 ${touch.dpad === 'left' ? 'left-4' : 'right-4'} z-30 opacity-70`}>
                     <Joystick onDirection={handleJoystick} />
                 </div>
             )}
         </div>
+
+            {gameState === 'replay' && replay.current && (
+                <ReplayControls
+                    paused={replayPaused}
+                    speed={replaySpeed}
+                    tick={replayTick}
+                    totalTicks={replay.current.recording.ticks}
+                    onTogglePause={toggleReplayPause}
+                    onStep={stepReplay}
+                    onSpeed={changeReplaySpeed}
+                    onExit={exitReplay}
+                />
+            )}
         </div>
     );
 };
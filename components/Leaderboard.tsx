@@ -0,0 +1,240 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameMode, HighScore } from '../types';
+import { MODES } from '../engine/modes';
+import {
+    BoardId, MAX_HIGH_SCORES, SCORE_MODES, boardKey, boardLabel, listBoards, loadReplay, standardBoard
+} from '../storage/scores';
+import { PvpRecord, pvpStandings } from '../storage/pvp';
+import { RankedScore } from '../net/protocol';
+import { defaultLeaderboardUrl, fetchScoresAround, fetchTopScores } from '../net/leaderboard';
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const RANK_COLORS = ['text-[#ffec27]', 'text-[#c2c3c7]', 'text-[#d68e49]'];
+
+// How many runs either side of the player AROUND ME shows
+const AROUND_SPAN = 4;
+
+interface LeaderboardProps {
+    board: BoardId;
+    scores: HighScore[];
+    pvp: PvpRecord;
+    error: string;
+    serverUrl: string;  // the shared leaderboard; empty when there is none
+    name: string;       // whose runs AROUND ME finds
+    notice: string;     // how the last run sent to the server fared
+    onServerUrl: (url: string) => void;
+    onBoard: (board: BoardId) => void;
+    onDownload: () => void;
+    onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    onWatch: (replay: string) => void;
+    onBack: () => void;
+}
+
+// A tab per single-snake mode and one for the PVP record. Within a mode, ◀ ▶ steps through
+// its boards, each either as kept in this browser or on the shared server; picking an entry
+// shows how that run went.
+export const Leaderboard: React.FC<LeaderboardProps> = ({
+    board, scores, pvp, error, serverUrl, name, notice, onServerUrl, onBoard, onDownload, onImport, onWatch, onBack
+}) => {
+    const [showPvp, setShowPvp] = useState(false);
+    const [selected, setSelected] = useState<number | null>(null);
+    const [online, setOnline] = useState(false);
+    const [around, setAround] = useState(false);
+    const [onlineScores, setOnlineScores] = useState<RankedScore[]>([]);
+    const [onlineError, setOnlineError] = useState('');
+    const fileInput = useRef<HTMLInputElement>(null);
+    const tabClass = "font-pixel text-[8px] py-1 px-2 rounded border";
+    const key = boardKey(board);
+
+    // A fresh notice means a run just reached the server, so the board is fetched again.
+    useEffect(() => {
+        if (!online || !serverUrl) return;
+        let current = true;
+        setOnlineError('');
+        (around ? fetchScoresAround(serverUrl, key, name, AROUND_SPAN) : fetchTopScores(serverUrl, key, MAX_HIGH_SCORES))
+            .then(res => { if (current) setOnlineScores(res.scores); })
+            .catch((err: Error) => {
+                if (!current) return;
+                setOnlineScores([]);
+                setOnlineError(err.message);
+            });
+        return () => { current = false; };
+    }, [online, serverUrl, key, around, name, notice]);
+
+    const showOnline = (on: boolean) => {
+        setOnline(on);
+        setSelected(null);
+        if (on && !serverUrl) onServerUrl(defaultLeaderboardUrl());
+    };
+
+    const boards = listBoards(board.mode);
+    const current = boards.findIndex(b => boardKey(b) === boardKey(board));
+    if (current < 0) boards.push(board);
+
+    const pickMode = (mode: GameMode) => {
+        setShowPvp(false);
+        setSelected(null);
+        onBoard(standardBoard(mode));
+    };
+
+    const cycleBoard = (delta: number) => {
+        const i = current < 0 ? boards.length - 1 : current;
+        setSelected(null);
+        onBoard(boards[(i + delta + boards.length) % boards.length]);
+    };
+
+    const shown: RankedScore[] = online ? onlineScores : scores.map((s, i) => ({ ...s, rank: i + 1 }));
+    const entry = selected !== null ? shown[selected] : undefined;
+
+    return (
+        <div className="w-full max-w-sm">
+            <h1 className="font-pixel text-xl text-[#ffec27] mb-4 animate-pulse">HIGH SCORES</h1>
+            <div className="flex flex-wrap justify-center gap-1 mb-4">
+                {SCORE_MODES.map(m => (
+                    <button
+                        key={m}
+                        onClick={() => pickMode(m)}
+                        className={`${tabClass} ${!showPvp && board.mode === m ? 'border-[#29adff] text-[#29adff]' : 'border-gray-700 text-gray-500'}`}
+                    >
+                        {MODES[m].name}
+                    </button>
+                ))}
+                <button
+                    onClick={() => { setShowPvp(true); setSelected(null); }}
+                    className={`${tabClass} ${showPvp ? 'border-[#29adff] text-[#29adff]' : 'border-gray-700 text-gray-500'}`}
+                >
+                    PVP
+                </button>
+            </div>
+
+            {showPvp ? (
+                <>
+                    <div className="flex justify-between font-pixel text-[10px] text-gray-500 mb-2 px-2 border-b border-gray-700 pb-1">
+                        <span>NAME</span><span>W / L / D</span>
+                    </div>
+                    <ul className="space-y-2 mb-6">
+                        {pvpStandings(pvp).length === 0 && (
+                            <li className="font-pixel text-[10px] text-gray-500">NO MATCHES RECORDED</li>
+                        )}
+                        {pvpStandings(pvp).map((p, i) => (
+                            <li key={p.name} className="flex justify-between font-pixel text-[10px] text-white px-2">
+                                <span className={`tracking-widest ${RANK_COLORS[i] ?? 'text-white'}`}>{p.name}</span>
+                                <span>{p.wins} / {p.losses} / {p.draws}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            ) : (
+                <>
+                    <div className="flex items-center justify-center gap-3 mb-4 font-pixel text-[8px] text-white">
+                        <button onClick={() => cycleBoard(-1)} className="text-[#29adff] hover:text-white">◀</button>
+                        <span className="w-40 text-[#ffec27]">{boardLabel(board)}</span>
+                        <button onClick={() => cycleBoard(1)} className="text-[#29adff] hover:text-white">▶</button>
+                    </div>
+                    <div className="flex justify-center gap-1 mb-4">
+                        {[false, true].map(on => (
+                            <button
+                                key={String(on)}
+                                onClick={() => showOnline(on)}
+                                className={`${tabClass} ${online === on ? 'border-[#63c74d] text-[#63c74d]' : 'border-gray-700 text-gray-500'}`}
+                            >
+                                {on ? 'ONLINE' : 'LOCAL'}
+                            </button>
+                        ))}
+                    </div>
+                    {online && (
+                        <div className="flex gap-2 mb-4">
+                            <input
+                                type="text"
+                                value={serverUrl}
+                                onChange={e => onServerUrl(e.target.value)}
+                                placeholder="NO SERVER"
+                                className="flex-1 bg-black border border-gray-600 rounded px-2 font-pixel text-[8px] text-white"
+                            />
+                            <button
+                                onClick={() => { setAround(!around); setSelected(null); }}
+                                className={`${tabClass} ${around ? 'border-[#29adff] text-[#29adff]' : 'border-gray-700 text-gray-500'}`}
+                            >
+                                AROUND {name}
+                            </button>
+                        </div>
+                    )}
+                    <div className="flex justify-between font-pixel text-[10px] text-gray-500 mb-2 px-2 border-b border-gray-700 pb-1">
+                        <span>RANK</span><span>NAME</span><span>SCORE</span>
+                    </div>
+                    <ul className="space-y-2 mb-4">
+                        {shown.length === 0 && !(online && onlineError) && (
+                            <li className="font-pixel text-[10px] text-gray-500">NO SCORES YET</li>
+                        )}
+                        {shown.map((s, i) => (
+                            <li key={i}>
+                                <button
+                                    onClick={() => setSelected(selected === i ? null : i)}
+                                    className={`w-full flex justify-between font-pixel text-[10px] text-white px-2 rounded ${selected === i ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                                >
+                                    <span className={RANK_COLORS[s.rank - 1] ?? 'text-white'}>{s.rank}.</span>
+                                    <span className="tracking-widest">{s.name}</span>
+                                    <span>{s.score.toString().padStart(5, '0')}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    {entry && (
+                        <div className="font-pixel text-[8px] text-gray-400 border border-gray-700 rounded p-2 mb-4 space-y-1">
+                            <p>{entry.date ? new Date(entry.date).toLocaleString() : 'DATE UNKNOWN'}</p>
+                            {entry.stats ? (
+                                <p>
+                                    LENGTH {entry.stats.length} · TIME {formatTime(entry.stats.seconds)} · PACMEN {entry.stats.pacmen} · POWERUPS {entry.stats.powerups}
+                                </p>
+                            ) : (
+                                <p>NO STATS FOR THIS RUN</p>
+                            )}
+                            {entry.replay && loadReplay(entry.replay) !== null && (
+                                <button onClick={() => onWatch(entry.replay!)} className="text-[#29adff] hover:text-white underline">
+                                    ▶ WATCH REPLAY
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+
+            <div className="flex gap-4 justify-center">
+                <button
+                    onClick={onBack}
+                    className="font-pixel text-[10px] bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded"
+                >
+                    BACK
+                </button>
+                {!showPvp && !online && (
+                    <>
+                        <button
+                            onClick={onDownload}
+                            className="font-pixel text-[10px] bg-[#29adff] hover:bg-[#5bc0ff] text-black py-2 px-4 rounded flex items-center gap-2"
+                        >
+                            💾 DOWNLOAD
+                        </button>
+                        <button
+                            onClick={() => fileInput.current?.click()}
+                            className="font-pixel text-[10px] bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded flex items-center gap-2"
+                        >
+                            📂 IMPORT
+                        </button>
+                        <input
+                            ref={fileInput}
+                            type="file"
+                            accept=".json,application/json"
+                            onChange={onImport}
+                            className="hidden"
+                        />
+                    </>
+                )}
+            </div>
+            {notice && <p className="font-pixel text-[8px] text-[#29adff] mt-4">{notice}</p>}
+            {(online ? onlineError : error) && (
+                <p className="font-pixel text-[8px] text-[#ff004d] mt-4">{online ? onlineError : error}</p>
+            )}
+        </div>
+    );
+};
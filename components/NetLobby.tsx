@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { LobbyInfo } from '../net/protocol';
+
+interface NetLobbyProps {
+    serverUrl: string;
+    lobby: LobbyInfo | null;
+    levelName: string;
+    latency: number | null;
+    error: string;
+    onServerUrl: (url: string) => void;
+    onCreate: () => void;
+    onJoin: (code: string) => void;
+    onReady: (ready: boolean) => void;
+    onLeave: () => void;
+}
+
+export const NetLobby: React.FC<NetLobbyProps> = ({ serverUrl, lobby, levelName, latency, error, onServerUrl, onCreate, onJoin, onReady, onLeave }) => {
+    const [code, setCode] = useState('');
+    const btnClass = "font-pixel text-[10px] text-white py-2 px-4 rounded disabled:opacity-40";
+    const inputClass = "bg-black border-2 border-[#29adff] text-white font-pixel text-[10px] p-2 outline-none";
+
+    const seat = (player: 1 | 2) => {
+        const taken = lobby && (player === 1 || lobby.players > 1);
+        const ready = lobby?.ready[player - 1];
+        return (
+            <li className="flex justify-between font-pixel text-[10px] px-2">
+                <span className={player === 1 ? 'text-[#63c74d]' : 'text-[#ff004d]'}>
+                    P{player}{lobby?.player === player ? ' (YOU)' : ''}
+                </span>
+                <span className={ready ? 'text-[#ffec27]' : 'text-gray-500'}>
+                    {!taken ? 'WAITING...' : ready ? 'READY' : 'NOT READY'}
+                </span>
+            </li>
+        );
+    };
+
+    return (
+        <div className="w-full max-w-sm">
+            <h1 className="font-pixel text-xl text-[#ffec27] mb-6">ONLINE</h1>
+
+            {!lobby ? (
+                <>
+                    <div className="flex flex-col gap-2 mb-6 text-left">
+                        <label className="font-pixel text-[8px] text-gray-500">RELAY SERVER</label>
+                        <input
+                            type="text"
+                            value={serverUrl}
+                            onChange={e => onServerUrl(e.target.value)}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div className="flex gap-4 justify-center mb-6">
+                        <button onClick={onCreate} className={`${btnClass} bg-[#008800] hover:bg-[#00aa00]`}>
+                            CREATE ({levelName})
+                        </button>
+                    </div>
+                    <div className="flex gap-2 justify-center mb-6">
+                        <input
+                            type="text"
+                            value={code}
+                            onChange={e => setCode(e.target.value.toUpperCase().slice(0, 4))}
+                            placeholder="CODE"
+                            className={`${inputClass} w-24 text-center tracking-widest`}
+                        />
+                        <button onClick={() => onJoin(code)} disabled={code.length !== 4} className={`${btnClass} bg-[#0055aa] hover:bg-[#0066cc]`}>
+                            JOIN
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <p className="font-pixel text-[8px] text-gray-500 mb-2">LOBBY CODE</p>
+                    <p className="font-pixel text-2xl text-white tracking-[0.5em] mb-6">{lobby.code}</p>
+                    <ul className="space-y-2 mb-6">
+                        {seat(1)}
+                        {seat(2)}
+                    </ul>
+                    <div className="flex gap-4 justify-center mb-4">
+                        <button
+                            onClick={() => onReady(!lobby.ready[lobby.player - 1])}
+                            disabled={lobby.players < 2}
+                            className={`${btnClass} bg-[#008800] hover:bg-[#00aa00]`}
+                        >
+                            {lobby.ready[lobby.player - 1] ? 'UNREADY' : 'READY'}
+                        </button>
+                    </div>
+                    {latency !== null && <p className="font-pixel text-[8px] text-gray-500 mb-4">PING: {latency}MS</p>}
+                </>
+            )}
+
+            {error && <p className="font-pixel text-[8px] text-[#ff004d] mb-4">{error}</p>}
+
+            <button onClick={onLeave} className={`${btnClass} bg-gray-700 hover:bg-gray-600`}>
+                {lobby ? 'LEAVE' : 'BACK'}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { ScoreBreakdown } from '../types';
+import { SCORE_SOURCES } from '../engine/scoring';
+
+interface PointsBreakdownProps {
+    players: { label: string; color: string; points: ScoreBreakdown }[];
+}
+
+// Where each snake's points came from, a column a snake. Sources nobody scored from are left out.
+export const PointsBreakdown: React.FC<PointsBreakdownProps> = ({ players }) => {
+    const rows = SCORE_SOURCES.filter(({ source }) => players.some(p => p.points[source] > 0));
+    if (rows.length === 0) return null;
+
+    return (
+        <table className="mx-auto mb-2 font-pixel text-[8px]">
+            {players.length > 1 && (
+                <thead>
+                    <tr>
+                        <th />
+                        {players.map(p => <th key={p.label} className="px-2 pb-1" style={{ color: p.color }}>{p.label}</th>)}
+                    </tr>
+                </thead>
+            )}
+            <tbody>
+                {rows.map(({ source, name }) => (
+                    <tr key={source}>
+                        <td className="text-left text-gray-500 pr-4 py-0.5">{name}</td>
+                        {players.map(p => <td key={p.label} className="text-right text-white px-2">{p.points[source]}</td>)}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { PowerupType } from '../types';
+import { POWERUPS } from '../engine/powerups';
+
+interface PowerupIconProps {
+    type: PowerupType;
+    size?: number;
+}
+
+// A powerup's sprite in its own color, for the HUD and menus.
+export const PowerupIcon: React.FC<PowerupIconProps> = ({ type, size = 10 }) => {
+    const { color, icon, name } = POWERUPS[type];
+    return (
+        <svg width={size} height={size} viewBox="0 0 5 5" className="inline-block align-middle" shapeRendering="crispEdges">
+            <title>{name}</title>
+            {icon.flatMap((row, y) => [...row].map((pixel, x) =>
+                pixel === '#' ? <rect key={`${x},${y}`} x={x} y={y} width={1} height={1} fill={color} /> : null
+            ))}
+        </svg>
+    );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+
+export const REPLAY_SPEEDS = [1, 2, 4];
+
+interface ReplayControlsProps {
+    paused: boolean;
+    speed: number;
+    tick: number;
+    totalTicks: number;
+    onTogglePause: () => void;
+    onStep: () => void;
+    onSpeed: (speed: number) => void;
+    onExit: () => void;
+}
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ paused, speed, tick, totalTicks, onTogglePause, onStep, onSpeed, onExit }) => {
+    const btnClass = "font-pixel text-[10px] bg-gray-800 hover:bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 disabled:opacity-40";
+    const finished = tick >= totalTicks;
+
+    return (
+        <div className="w-full max-w-[600px] flex flex-wrap justify-between items-center gap-2 bg-black/80 border-2 border-[#ffec27] p-2 rounded font-pixel text-[10px] text-white">
+            <span className="text-[#ffec27]">{finished ? 'REPLAY END' : '▶ REPLAY'}</span>
+            <div className="flex gap-2">
+                <button className={btnClass} onClick={onTogglePause} disabled={finished}>
+                    {paused ? '▶' : '❚❚'}
+                </button>
+                <button className={btnClass} onClick={onStep} disabled={!paused || finished}>
+                    STEP
+                </button>
+                {REPLAY_SPEEDS.map(s => (
+                    <button
+                        key={s}
+                        className={`${btnClass} ${s === speed ? 'border-[#ffec27] text-[#ffec27]' : ''}`}
+                        onClick={() => onSpeed(s)}
+                    >
+                        {s}X
+                    </button>
+                ))}
+            </div>
+            <span className="text-gray-400">{Math.min(tick, totalTicks)}/{totalTicks}</span>
+            <button className={btnClass} onClick={onExit}>EXIT</button>
+        </div>
+    );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { ACHIEVEMENTS, AchievementDef, AchievementProgress } from '../engine/achievements';
+
+interface TrophiesProps {
+    progress: AchievementProgress;
+    onBack: () => void;
+}
+
+const clock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Unlocked achievements show the day they were won; the rest show how close they've come.
+export const Trophies: React.FC<TrophiesProps> = ({ progress, onBack }) => {
+    const all = Object.values(ACHIEVEMENTS);
+    const won = all.filter(def => progress.unlocked[def.id]).length;
+
+    const status = (def: AchievementDef) => {
+        const unlocked = progress.unlocked[def.id];
+        if (unlocked) return <span className="text-[#63c74d]">{unlocked.slice(0, 10)}</span>;
+        const best = progress.best[def.id] ?? 0;
+        if (def.target === 1) return <span className="text-gray-500">🔒</span>;
+        const shown = def.clock ? `${clock(best)}/${clock(def.target)}` : `${best}/${def.target}`;
+        return <span className="text-gray-500">{shown}</span>;
+    };
+
+    return (
+        <div className="w-full max-w-lg">
+            <h1 className="font-pixel text-xl text-[#ffec27] mb-2">TROPHIES</h1>
+            <p className="font-pixel text-[8px] text-gray-500 mb-4">{won}/{all.length} UNLOCKED</p>
+
+            <div className="flex flex-col gap-2 mb-6">
+                {all.map(def => {
+                    const unlocked = !!progress.unlocked[def.id];
+                    const best = Math.min(progress.best[def.id] ?? 0, def.target);
+                    return (
+                        <div
+                            key={def.id}
+                            className={`flex items-center gap-3 p-2 rounded border text-left ${unlocked ? 'border-[#ffec27]' : 'border-gray-800'}`}
+                        >
+                            <span className={`text-lg ${unlocked ? '' : 'grayscale opacity-40'}`}>{def.icon}</span>
+                            <span className="flex-1">
+                                <span className={`block font-pixel text-[10px] ${unlocked ? 'text-white' : 'text-gray-500'}`}>{def.name}</span>
+                                <span className="block font-pixel text-[8px] text-gray-500 mt-1">{def.description}</span>
+                                {!unlocked && def.target > 1 && (
+                                    <span className="block h-1 mt-2 bg-gray-800 rounded">
+                                        <span className="block h-1 bg-[#29adff] rounded" style={{ width: `${(best / def.target) * 100}%` }} />
+                                    </span>
+                                )}
+                            </span>
+                            <span className="font-pixel text-[8px] text-right">{status(def)}</span>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex gap-4 justify-center mt-6">
+                <button onClick={onBack} className="font-pixel text-[10px] text-white py-2 px-4 rounded bg-gray-700 hover:bg-gray-600">
+                    BACK
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { AchievementId, EnemyKind, GameEvent, GameMode, GameState, PlayerId, PowerupType } from '../types';
+import { FREEZE_DURATION } from './constants';
+import { createGame } from './engine';
+import { AchievementProgress, NO_PROGRESS, newTracker, trackAchievements } from './achievements';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+const pickup = (by: PlayerId, powerup: PowerupType): GameEvent => ({ type: 'pickedPowerup', by, powerup, at: { x: 0, y: 0 } });
+
+// P2 out first, so P1 wins the match.
+const pvpWonByP1 = (): GameState => {
+    const s = createGame(GameMode.PVP, 42);
+    s.snakes[1].diedAt = 10;
+    return { ...s, over: true, tick: 20 };
+};
+
+describe('achievements', () => {
+    it('unlocks on the frame a player eats a Pacman, once', () => {
+        const s = createGame(GameMode.PVC, 42);
+        const tracker = newTracker(s.snakes.length);
+        const ate: GameEvent = { type: 'ateEnemy', by: 1, kind: EnemyKind.PACMAN, name: 'PACMAN', at: { x: 0, y: 0 } };
+        const first = trackAchievements(NO_PROGRESS, tracker, s, [ate], [1], NOW);
+        expect(first.unlocked.map(def => def.id)).toEqual([AchievementId.FIRST_PACMAN]);
+        expect(first.progress.unlocked[AchievementId.FIRST_PACMAN]).toBe(NOW.toISOString());
+        expect(trackAchievements(first.progress, tracker, s, [ate], [1], NOW).unlocked).toEqual([]);
+    });
+
+    it('only counts the players at this screen', () => {
+        const s = createGame(GameMode.PVP, 42);
+        const ate: GameEvent = { type: 'ateEnemy', by: 2, kind: EnemyKind.PACMAN, name: 'PACMAN', at: { x: 0, y: 0 } };
+        expect(trackAchievements(NO_PROGRESS, newTracker(2), s, [ate], [1], NOW).unlocked).toEqual([]);
+    });
+
+    it('keeps the best length and survival time towards their targets', () => {
+        const s = createGame(GameMode.PVC, 42);
+        const { progress, unlocked } = trackAchievements(NO_PROGRESS, newTracker(2), { ...s, elapsed: 61_500 }, [], [1], NOW);
+        expect(unlocked).toEqual([]);
+        expect(progress.best).toEqual({ [AchievementId.LENGTH_50]: s.snakes[0].body.length, [AchievementId.SURVIVE_5]: 61 });
+
+        const shorter = trackAchievements(progress, newTracker(2), { ...s, elapsed: 1000 }, [], [1], NOW);
+        expect(shorter.progress).toBe(progress);
+        const long = trackAchievements(progress, newTracker(2), { ...s, elapsed: 5 * 60 * 1000 }, [], [1], NOW);
+        expect(long.unlocked.map(def => def.id)).toEqual([AchievementId.SURVIVE_5]);
+    });
+
+    it('chains FREEZEs only while the last one is still running', () => {
+        const s = createGame(GameMode.PVC, 42);
+        const tracker = newTracker(2);
+        let progress: AchievementProgress = NO_PROGRESS;
+        const freezeAt = (tick: number) => {
+            const result = trackAchievements(progress, tracker, { ...s, tick }, [pickup(1, PowerupType.FREEZE)], [1], NOW);
+            progress = result.progress;
+            return result.unlocked;
+        };
+        freezeAt(0);
+        freezeAt(FREEZE_DURATION - 1);
+        freezeAt(FREEZE_DURATION * 3);
+        expect(tracker.freezeChain[0].count).toBe(1);
+        freezeAt(FREEZE_DURATION * 3 + 5);
+        expect(freezeAt(FREEZE_DURATION * 3 + 10).map(def => def.id)).toEqual([AchievementId.FREEZE_CHAIN]);
+    });
+
+    it('rewards a PVP win only without a powerup', () => {
+        const clean = trackAchievements(NO_PROGRESS, newTracker(2), pvpWonByP1(), [], [1], NOW);
+        expect(clean.unlocked.map(def => def.id)).toContain(AchievementId.PURE_WIN);
+
+        const tracker = newTracker(2);
+        trackAchievements(NO_PROGRESS, tracker, createGame(GameMode.PVP, 42), [pickup(1, PowerupType.SPEED)], [1], NOW);
+        const helped = trackAchievements(NO_PROGRESS, tracker, pvpWonByP1(), [], [1], NOW);
+        expect(helped.unlocked.map(def => def.id)).not.toContain(AchievementId.PURE_WIN);
+        expect(trackAchievements(NO_PROGRESS, newTracker(2), pvpWonByP1(), [], [2], NOW).unlocked).toEqual([]);
+    });
+});
@@ -0,0 +1,125 @@
+import { AchievementId, EnemyKind, GameEvent, GameMode, GameState, PlayerId, PowerupType } from '../types';
+import { FREEZE_DURATION } from './constants';
+import { isAlive, winner } from './engine';
+
+// --- Registry ---
+// Each achievement measures how far a player has got towards it after every frame of a
+// match, from the state, that frame's events and what the match has tracked so far. It
+// unlocks once the measure reaches its target; the best measure is kept for the trophy
+// screen's progress bars.
+
+export type AchievementTracker = {
+    powerups: number[];                             // picked up this match, by player - 1
+    freezeChain: { count: number; tick: number }[]; // FREEZEs in a row, each caught before the last wore off
+};
+
+export type AchievementDef = {
+    id: AchievementId;
+    name: string;
+    description: string;
+    icon: string;
+    target: number;
+    clock?: boolean; // measured in seconds
+    measure: (s: GameState, player: PlayerId, events: GameEvent[], tracker: AchievementTracker) => number;
+};
+
+const SURVIVE_SECONDS = 5 * 60;
+
+export const ACHIEVEMENTS: Record<AchievementId, AchievementDef> = {
+    [AchievementId.FIRST_PACMAN]: {
+        id: AchievementId.FIRST_PACMAN,
+        name: 'TABLES TURNED',
+        description: 'EAT A PACMAN',
+        icon: '🍒',
+        target: 1,
+        measure: (s, player, events) =>
+            events.some(e => e.type === 'ateEnemy' && e.by === player && e.kind === EnemyKind.PACMAN) ? 1 : 0
+    },
+    [AchievementId.LENGTH_50]: {
+        id: AchievementId.LENGTH_50,
+        name: 'LONG HAUL',
+        description: 'GROW TO 50 SEGMENTS',
+        icon: '🐍',
+        target: 50,
+        measure: (s, player) => isAlive(s.snakes[player - 1]) ? s.snakes[player - 1].body.length : 0
+    },
+    [AchievementId.SURVIVE_5]: {
+        id: AchievementId.SURVIVE_5,
+        name: 'STAYING ALIVE',
+        description: 'SURVIVE 5 MINUTES',
+        icon: '⏱',
+        target: SURVIVE_SECONDS,
+        clock: true,
+        measure: (s, player) => isAlive(s.snakes[player - 1]) ? Math.floor(s.elapsed / 1000) : 0
+    },
+    [AchievementId.PURE_WIN]: {
+        id: AchievementId.PURE_WIN,
+        name: 'PURIST',
+        description: 'WIN A PVP MATCH WITHOUT A POWERUP',
+        icon: '🥇',
+        target: 1,
+        measure: (s, player, events, tracker) =>
+            s.over && s.mode === GameMode.PVP && winner(s) === player && tracker.powerups[player - 1] === 0 ? 1 : 0
+    },
+    [AchievementId.FREEZE_CHAIN]: {
+        id: AchievementId.FREEZE_CHAIN,
+        name: 'ICE AGE',
+        description: 'CHAIN 3 FREEZES',
+        icon: '🧊',
+        target: 3,
+        measure: (s, player, events, tracker) => tracker.freezeChain[player - 1].count
+    }
+};
+
+// --- Progress ---
+
+export type AchievementProgress = {
+    unlocked: Partial<Record<AchievementId, string>>; // ISO date of the unlock
+    best: Partial<Record<AchievementId, number>>;
+};
+
+export const NO_PROGRESS: AchievementProgress = { unlocked: {}, best: {} };
+
+export const newTracker = (players: number): AchievementTracker => ({
+    powerups: Array(players).fill(0),
+    freezeChain: Array.from({ length: players }, () => ({ count: 0, tick: 0 }))
+});
+
+const trackEvents = (tracker: AchievementTracker, s: GameState, events: GameEvent[]) => {
+    for (const e of events) {
+        if (e.type !== 'pickedPowerup' || e.by === 'pacman') continue;
+        tracker.powerups[e.by - 1]++;
+        if (e.powerup !== PowerupType.FREEZE) continue;
+        const chain = tracker.freezeChain[e.by - 1];
+        const running = chain.count > 0 && s.tick - chain.tick < FREEZE_DURATION;
+        tracker.freezeChain[e.by - 1] = { count: running ? chain.count + 1 : 1, tick: s.tick };
+    }
+};
+
+/**
+ * Folds one frame of a match into the saved progress, for the players at this screen.
+ * Updates the match's tracker in place; returns the new progress and what it unlocked.
+ */
+export const trackAchievements = (
+    progress: AchievementProgress,
+    tracker: AchievementTracker,
+    s: GameState,
+    events: GameEvent[],
+    players: PlayerId[],
+    now: Date = new Date()
+): { progress: AchievementProgress; unlocked: AchievementDef[] } => {
+    trackEvents(tracker, s, events);
+    const unlocked: AchievementDef[] = [];
+    let next = progress;
+    for (const def of Object.values(ACHIEVEMENTS)) {
+        if (progress.unlocked[def.id]) continue;
+        const reached = Math.max(...players.map(player => def.measure(s, player, events, tracker)));
+        if (reached <= (progress.best[def.id] ?? 0)) continue;
+        next = { ...next, best: { ...next.best, [def.id]: Math.min(reached, def.target) } };
+        if (reached >= def.target) {
+            next = { ...next, unlocked: { ...next.unlocked, [def.id]: now.toISOString() } };
+            unlocked.push(def);
+        }
+    }
+    return { progress: next, unlocked };
+};
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { Difficulty, EnemyKind, GameMode, GameState, PacmanPersonality, Point } from '../types';
+import { createGame, step } from './engine';
+import { chooseFleeStep, chooseGhostStep, choosePacmanStep, findPath } from './ai';
+import { levelSize, parseLevel } from './levels';
+import { LEFT, RIGHT, UP, DOWN, cells, makeSnake, makeState } from './testUtils';
+
+const ARENA = parseLevel(`
+TTTTTTTTTTTT
+T..........T
+T..........T
+T....#.....T
+T....#.....T
+T....#.....T
+T..........T
+T..........T
+T..........T
+TTTTTTTTTTTT
+`);
+
+const setup = (overrides: Partial<GameState> = {}): GameState => makeState(GameMode.PVC, overrides, { seed: 1, level: ARENA });
+
+describe('findPath', () => {
+    it('takes the short way round through a tunnel', () => {
+        const s = setup();
+        expect(findPath(s, { x: 1, y: 1 }, { x: 10, y: 1 }, new Set())).toEqual(LEFT);
+    });
+
+    it('routes around walls', () => {
+        const s = setup();
+        // Straight right is walled off at x=5; going round the top is shorter than the bottom.
+        expect(findPath(s, { x: 4, y: 3 }, { x: 6, y: 3 }, new Set())).toEqual(UP);
+    });
+
+    it('routes around the snake body instead of getting stuck behind it', () => {
+        const s = setup({ snakes: [makeSnake(cells([6, 6], [6, 7], [6, 8], [6, 9], [6, 0]))] });
+        const blocked = new Set(s.snakes[0].body.map(p => p.y * s.cols + p.x));
+        const dir = findPath(s, { x: 5, y: 7 }, { x: 7, y: 7 }, blocked);
+        expect(dir).not.toBeNull();
+        expect(dir).not.toEqual(RIGHT);
+    });
+
+    it('returns null when the target is unreachable', () => {
+        const sealed = parseLevel(`
+########
+#......#
+#.####.#
+#.#..#.#
+#.####.#
+#......#
+#......#
+########
+`);
+        const s = { ...setup(), level: sealed, ...levelSize(sealed) };
+        expect(findPath(s, { x: 1, y: 1 }, { x: 3, y: 3 }, new Set())).toBeNull();
+    });
+});
+
+describe('personalities', () => {
+    const body = cells([3, 7], [3, 8]);
+
+    it('chaser heads for the food', () => {
+        const s = setup({ snakes: [makeSnake(body)], food: [{ x: 9, y: 7 }] });
+        expect(choosePacmanStep(s, { x: 9, y: 4 }, PacmanPersonality.CHASER)).toEqual(DOWN);
+    });
+
+    it('hunter cuts off the cell in front of the head', () => {
+        const s = setup({ snakes: [makeSnake(body, UP)], food: [{ x: 9, y: 7 }] });
+        expect(choosePacmanStep(s, { x: 1, y: 6 }, PacmanPersonality.HUNTER)).toEqual(RIGHT);
+    });
+
+    it('ambusher waits further along the snake\'s heading', () => {
+        const s = setup({ snakes: [makeSnake(body, UP)], food: [{ x: 9, y: 7 }] });
+        // Four cells above the head is (3,3); from (3,1) that is straight down.
+        expect(choosePacmanStep(s, { x: 3, y: 1 }, PacmanPersonality.AMBUSHER)).toEqual(DOWN);
+    });
+
+    it('coward flees from the head', () => {
+        const s = setup({ snakes: [makeSnake(body, UP)] });
+        expect(chooseFleeStep(s, { x: 3, y: 5 })).toEqual(UP);
+    });
+});
+
+describe('ghosts', () => {
+    const withEnemies = (...enemies: [EnemyKind, number, number][]) =>
+        enemies.map(([kind, x, y], id) => ({ ...createGame(GameMode.PVC, 1, ARENA).enemies[0], id, kind, x, y }));
+
+    it('go for a Pacman that is closer than the snake', () => {
+        const s = setup({ snakes: [makeSnake(cells([1, 8]))], enemies: withEnemies([EnemyKind.PACMAN, 9, 2]) });
+        expect(chooseGhostStep(s, { x: 9, y: 4 })).toEqual(UP);
+    });
+
+    it('go for the snake when it is closer than any Pacman', () => {
+        const s = setup({ snakes: [makeSnake(cells([7, 7], [7, 8]))], enemies: withEnemies([EnemyKind.PACMAN, 9, 1]) });
+        expect(chooseGhostStep(s, { x: 9, y: 7 })).toEqual(LEFT);
+    });
+
+    it('are avoided by Pacman', () => {
+        const s = setup({ snakes: [makeSnake(cells([3, 8]))], food: [{ x: 9, y: 7 }], enemies: withEnemies([EnemyKind.GHOST, 9, 5]) });
+        expect(choosePacmanStep(s, { x: 9, y: 4 }, PacmanPersonality.CHASER)).not.toEqual(DOWN);
+    });
+});
+
+describe('difficulty', () => {
+    // Pacman's personality is fixed when the game is created, so build the board for each difficulty.
+    const run = (difficulty: Difficulty, board: { body: Point[]; food: Point[]; pacman: Point; frozen?: number }, ticks: number) => {
+        const [pacman] = createGame(GameMode.PVC, 1, ARENA, difficulty).enemies;
+        let s: GameState = {
+            ...setup({ snakes: [makeSnake(board.body)], food: board.food }),
+            difficulty,
+            enemies: [{ ...pacman, ...board.pacman, frozen: board.frozen ?? 0, moveTick: 0 }]
+        };
+        const path: Point[] = [];
+        for (let i = 0; i < ticks; i++) {
+            s = step(s).state;
+            path.push({ x: s.enemies[0].x, y: s.enemies[0].y });
+        }
+        return path;
+    };
+
+    it('sets how often Pacman moves', () => {
+        const board = { body: cells([1, 8]), pacman: { x: 9, y: 1 }, food: [{ x: 9, y: 7 }] };
+        const moves = (path: Point[]) => path.filter((p, i) => i > 0 && (p.x !== path[i - 1].x || p.y !== path[i - 1].y)).length;
+        expect(moves(run(Difficulty.NORMAL, board, 6))).toBe(3);
+        expect(moves(run(Difficulty.EASY, board, 6))).toBe(2);
+    });
+
+    it('lets only the coward move while frozen', () => {
+        const board = { body: cells([2, 8]), pacman: { x: 8, y: 4 }, food: [{ x: 9, y: 1 }], frozen: 20 };
+        expect(new Set(run(Difficulty.NORMAL, board, 8).map(p => `${p.x},${p.y}`)).size).toBe(1);
+        expect(new Set(run(Difficulty.EASY, board, 8).map(p => `${p.x},${p.y}`)).size).toBeGreaterThan(1);
+    });
+});
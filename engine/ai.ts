@@ -0,0 +1,184 @@
+import { Difficulty, EnemyKind, GameState, PacmanPersonality, Point } from '../types';
+import { DIRECTIONS, moveFrom, nearestPoint } from './grid';
+
+export type PacmanSettings = {
+    personality: PacmanPersonality;
+    cadence: number; // Pacman moves once every `cadence` snake ticks
+};
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, PacmanSettings> = {
+    [Difficulty.EASY]: { personality: PacmanPersonality.COWARD, cadence: 3 },
+    [Difficulty.NORMAL]: { personality: PacmanPersonality.CHASER, cadence: 2 },
+    [Difficulty.HARD]: { personality: PacmanPersonality.AMBUSHER, cadence: 2 },
+    [Difficulty.INSANE]: { personality: PacmanPersonality.HUNTER, cadence: 2 }
+};
+
+// How far ahead of the snake's head each personality aims.
+const HUNTER_LEAD = 1;
+const AMBUSHER_LEAD = 4;
+
+// --- Grid Search ---
+
+export const cellKey = (s: GameState, p: Point) => p.y * s.cols + p.x;
+
+// Cells no enemy can pass through: every segment of every living snake.
+const occupiedCells = (s: GameState) => {
+    const cells = new Set<number>();
+    for (const snake of s.snakes) {
+        if (snake.diedAt === null) snake.body.forEach(p => cells.add(cellKey(s, p)));
+    }
+    return cells;
+};
+
+// Snake segments plus every ghost on the board; Pacmen steer clear of all of them.
+const pacmanBlockedCells = (s: GameState) => {
+    const cells = occupiedCells(s);
+    for (const e of s.enemies) {
+        if (e.kind === EnemyKind.GHOST && e.respawn === 0) cells.add(cellKey(s, e));
+    }
+    return cells;
+};
+
+/**
+ * Breadth-first search that understands walls and tunnel wraparound. Returns the
+ * first step of a shortest path from `from` to `to`, or null if `to` can't be reached.
+ * The target itself may be occupied (that is how Pacman catches a snake's head).
+ */
+export const findPath = (s: GameState, from: Point, to: Point, blocked: Set<number>): Point | null => {
+    const goal = cellKey(s, to);
+    if (cellKey(s, from) === goal) return null;
+
+    const firstStep = new Map<number, Point>();
+    const visited = new Set([cellKey(s, from)]);
+    const queue: Point[] = [from];
+
+    for (let i = 0; i < queue.length; i++) {
+        const cur = queue[i];
+        for (const dir of DIRECTIONS) {
+            const move = moveFrom(s, cur, dir);
+            if (move.blocked) continue;
+            const k = cellKey(s, move.head);
+            if (visited.has(k)) continue;
+            visited.add(k);
+
+            const first = i === 0 ? dir : firstStep.get(cellKey(s, cur))!;
+            if (k === goal) return first;
+            if (blocked.has(k)) continue;
+            firstStep.set(k, first);
+            queue.push(move.head);
+        }
+    }
+    return null;
+};
+
+// Step distance from `from` to every reachable cell.
+export const distanceMap = (s: GameState, from: Point, blocked: Set<number>): Map<number, number> => {
+    const dist = new Map([[cellKey(s, from), 0]]);
+    const queue: Point[] = [from];
+
+    for (let i = 0; i < queue.length; i++) {
+        const cur = queue[i];
+        const d = dist.get(cellKey(s, cur))!;
+        for (const dir of DIRECTIONS) {
+            const move = moveFrom(s, cur, dir);
+            const k = cellKey(s, move.head);
+            if (move.blocked || blocked.has(k) || dist.has(k)) continue;
+            dist.set(k, d + 1);
+            queue.push(move.head);
+        }
+    }
+    return dist;
+};
+
+// --- Personalities ---
+
+// The cell `lead` steps in front of the snake's head, stopping short of walls.
+const aheadOfSnake = (s: GameState, lead: number) => {
+    const { body, dir } = s.snakes[0];
+    let p = body[0];
+    for (let i = 0; i < lead; i++) {
+        const move = moveFrom(s, p, dir);
+        if (move.blocked) break;
+        p = move.head;
+    }
+    return p;
+};
+
+const targetFor = (s: GameState, pacman: Point, personality: PacmanPersonality): Point => {
+    switch (personality) {
+        case PacmanPersonality.HUNTER:
+            return aheadOfSnake(s, HUNTER_LEAD);
+        case PacmanPersonality.AMBUSHER:
+            return aheadOfSnake(s, AMBUSHER_LEAD);
+        default:
+            return nearestPoint(s, pacman, s.food);
+    }
+};
+
+// Used when the target is walled off: any free neighbour, preferring the one closest to it.
+const closestFreeStep = (s: GameState, from: Point, to: Point, blocked: Set<number>): Point | null => {
+    let best: Point | null = null;
+    let bestDist = Infinity;
+    for (const dir of DIRECTIONS) {
+        const move = moveFrom(s, from, dir);
+        if (move.blocked || blocked.has(cellKey(s, move.head))) continue;
+        const dx = Math.abs(move.head.x - to.x);
+        const dy = Math.abs(move.head.y - to.y);
+        const d = Math.min(dx, s.cols - dx) + Math.min(dy, s.rows - dy);
+        if (d < bestDist) { best = dir; bestDist = d; }
+    }
+    return best;
+};
+
+// Direction for Pacman's next move, or null to stay put.
+export const choosePacmanStep = (s: GameState, pacman: Point, personality: PacmanPersonality): Point | null => {
+    const blocked = pacmanBlockedCells(s);
+    let target = targetFor(s, pacman, personality);
+    let dir = findPath(s, pacman, target, blocked);
+
+    // An ambush point the snake has walled off is useless; go for the head instead.
+    if (!dir && personality === PacmanPersonality.AMBUSHER) {
+        target = s.snakes[0].body[0];
+        dir = findPath(s, pacman, target, blocked);
+    }
+    return dir ?? closestFreeStep(s, pacman, target, blocked);
+};
+
+// Direction that takes Pacman furthest from the snake's head, or null if cornered.
+export const chooseFleeStep = (s: GameState, pacman: Point): Point | null => {
+    const fromSnake = distanceMap(s, s.snakes[0].body[0], new Set());
+    const blocked = pacmanBlockedCells(s);
+    let best: Point | null = null;
+    let bestDist = fromSnake.get(cellKey(s, pacman)) ?? 0;
+    for (const dir of DIRECTIONS) {
+        const move = moveFrom(s, pacman, dir);
+        const k = cellKey(s, move.head);
+        if (move.blocked || blocked.has(k)) continue;
+        const d = fromSnake.get(k) ?? Infinity;
+        if (d > bestDist) { best = dir; bestDist = d; }
+    }
+    return best;
+};
+
+// Ghosts hunt whatever is nearest: the snake's head or any Pacman on the board.
+export const chooseGhostStep = (s: GameState, ghost: Point): Point | null => {
+    const blocked = occupiedCells(s);
+    const head = s.snakes[0].body[0];
+    const targets = [head];
+    for (const e of s.enemies) {
+        if (e.kind === EnemyKind.PACMAN && e.respawn === 0) targets.push(e);
+    }
+
+    // The head is blocked for walking through but still has to show up as a distance.
+    const passable = new Set(blocked);
+    passable.delete(cellKey(s, head));
+    const dist = distanceMap(s, ghost, passable);
+
+    let target = head;
+    let bestDist = Infinity;
+    for (const t of targets) {
+        const d = dist.get(cellKey(s, t));
+        if (d !== undefined && d > 0 && d < bestDist) { target = t; bestDist = d; }
+    }
+    return findPath(s, ghost, target, blocked) ?? closestFreeStep(s, ghost, target, blocked);
+};
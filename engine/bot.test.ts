@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { BotLevel, GameMode, GameState, PlayerInput } from '../types';
+import { createGame, step } from './engine';
+import { parseLevel } from './levels';
+import { createRecording, finishRecording, recordInput, replayToEnd } from './replay';
+import { chooseBotTurn } from './bot';
+import { LEFT, RIGHT, UP, DOWN, cells, makeSnake, makeState } from './testUtils';
+
+const BOX = parseLevel(`
+############
+#..........#
+#..........#
+#..........#
+#..........#
+#..........#
+#..........#
+#..........#
+#..........#
+############
+`);
+
+// A three-cell dead end on the left, opening at (3,5).
+const POCKET = parseLevel(`
+############
+#..........#
+#..........#
+#..........#
+####.......#
+#..........#
+####.......#
+#..........#
+#..........#
+############
+`);
+
+// P2 is the bot; P1 is the opponent.
+const setup = (overrides: Partial<GameState>, level = BOX): GameState => makeState(GameMode.PVP, overrides, { seed: 1, level });
+
+describe('cpu snake', () => {
+    it.each(Object.values(BotLevel))('%s never steers into a wall or a body', level => {
+        const s = setup({
+            snakes: [makeSnake(cells([8, 8])), makeSnake(cells([1, 1], [1, 2], [1, 3]), UP)],
+            food: [{ x: 1, y: 8 }]
+        });
+        expect(chooseBotTurn(s, 2, level)).toEqual(RIGHT);
+    });
+
+    it('gives up when every move is fatal', () => {
+        const s = setup({ snakes: [makeSnake(cells([8, 8])), makeSnake(cells([1, 1], [2, 1], [2, 2], [1, 2]), UP)] });
+        expect(chooseBotTurn(s, 2, BotLevel.HARD)).toBeNull();
+    });
+
+    it('waits for a turn already queued before planning the next', () => {
+        // Until the queued DOWN has moved the head off (1,1), any plan from there is a move behind
+        const s = setup({
+            snakes: [makeSnake(cells([8, 8])), makeSnake(cells([1, 1], [2, 1], [3, 1]), LEFT, { queue: [DOWN] })],
+            food: [{ x: 1, y: 8 }]
+        });
+        for (const level of Object.values(BotLevel)) expect(chooseBotTurn(s, 2, level)).toBeNull();
+        const moved = step(s).state;
+        expect(moved.snakes[1].body[0]).toEqual({ x: 1, y: 2 });
+        expect(chooseBotTurn(moved, 2, BotLevel.NORMAL)).not.toBeNull();
+    });
+
+    it('only an easy bot walks into a dead end too small for it', () => {
+        const s = setup({
+            snakes: [makeSnake(cells([10, 1])), makeSnake(cells([4, 5], [5, 5], [6, 5], [7, 5], [8, 5], [9, 5]), LEFT)],
+            food: [{ x: 1, y: 5 }]
+        }, POCKET);
+        expect(chooseBotTurn(s, 2, BotLevel.EASY)).toEqual(LEFT);
+        expect(chooseBotTurn(s, 2, BotLevel.NORMAL)).not.toEqual(LEFT);
+        expect(chooseBotTurn(s, 2, BotLevel.HARD)).not.toEqual(LEFT);
+    });
+
+    it('only an easy bot risks a head-on collision', () => {
+        const s = setup({
+            snakes: [makeSnake(cells([7, 5], [8, 5]), LEFT), makeSnake(cells([5, 5], [4, 5]), RIGHT)],
+            food: [{ x: 9, y: 5 }]
+        });
+        expect(chooseBotTurn(s, 2, BotLevel.EASY)).toEqual(RIGHT);
+        expect(chooseBotTurn(s, 2, BotLevel.NORMAL)).not.toEqual(RIGHT);
+    });
+
+    describe('hard', () => {
+        const board = {
+            snakes: [makeSnake(cells([8, 1], [7, 1], [6, 1]), RIGHT), makeSnake(cells([3, 4], [2, 4], [1, 4]), RIGHT)]
+        };
+
+        it('races for food it will reach first', () => {
+            const s = setup({ ...board, food: [{ x: 3, y: 7 }] });
+            expect(chooseBotTurn(s, 2, BotLevel.HARD)).toEqual(DOWN);
+        });
+
+        it('contests space instead of chasing food the opponent will reach first', () => {
+            const s = setup({ ...board, food: [{ x: 10, y: 8 }] });
+            expect(chooseBotTurn(s, 2, BotLevel.NORMAL)).toEqual(DOWN);
+            expect(chooseBotTurn(s, 2, BotLevel.HARD)).toEqual(RIGHT);
+        });
+    });
+
+    it('plays through the input path, so its matches replay exactly', () => {
+        let state = createGame(GameMode.PVP, 21);
+        const rec = createRecording(21, GameMode.PVP);
+        for (let i = 0; i < 400 && !state.over; i++) {
+            const input: PlayerInput = {};
+            for (const [player, level] of [[1, BotLevel.NORMAL], [2, BotLevel.HARD]] as const) {
+                const dir = chooseBotTurn(state, player, level);
+                if (dir) input[player] = [dir];
+            }
+            recordInput(rec, state, input);
+            state = step(state, input).state;
+        }
+        finishRecording(rec, state);
+        expect(state.tick).toBeGreaterThan(50);
+        expect(replayToEnd(rec)).toEqual(state);
+    });
+});
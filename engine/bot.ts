@@ -0,0 +1,115 @@
+import { BotLevel, GameState, PlayerId, Point } from '../types';
+import { DIRECTIONS, crowDistance, moveFrom } from './grid';
+import { cellKey, distanceMap } from './ai';
+
+// --- CPU Snake ---
+// The bot never touches the game state. It only picks a direction, which Game.tsx
+// steers with exactly as if the key had been pressed, so recordings and replays
+// can't tell a CPU opponent from a human one.
+
+type Candidate = {
+    dir: Point;
+    head: Point;
+    contested: boolean; // an opponent's head could land here too
+};
+
+// Every living snake's segments, tails included: the engine checks heads against whole bodies.
+const bodyCells = (s: GameState) => {
+    const cells = new Set<number>();
+    for (const snake of s.snakes) {
+        if (snake.diedAt === null) snake.body.forEach(p => cells.add(cellKey(s, p)));
+    }
+    return cells;
+};
+
+// Cells any of the opponents' heads can reach on the next tick.
+const reachNext = (s: GameState, heads: Point[]) => {
+    const cells = new Set<number>();
+    for (const from of heads) {
+        for (const dir of DIRECTIONS) {
+            const move = moveFrom(s, from, dir);
+            if (!move.blocked) cells.add(cellKey(s, move.head));
+        }
+    }
+    return cells;
+};
+
+// For each cell, how soon the nearest opponent could get there.
+const closestOpponent = (s: GameState, heads: Point[], blocked: Set<number>) => {
+    const nearest = new Map<number, number>();
+    for (const head of heads) {
+        distanceMap(s, head, blocked).forEach((d, k) => {
+            if (d < (nearest.get(k) ?? Infinity)) nearest.set(k, d);
+        });
+    }
+    return nearest;
+};
+
+const pickMin = <T extends Candidate>(candidates: T[], score: (c: T) => number): T =>
+    candidates.reduce((best, c) => score(c) < score(best) ? c : best);
+
+/**
+ * Direction the CPU snake wants to take this tick, or null if every move is fatal. Also null
+ * while it still has a turn queued: that turn moves the head before any new one would, so
+ * planning from where the snake is now would plan for the wrong cell.
+ *   EASY   - heads for the food as the crow flies, dodging only what is right in front of it.
+ *   NORMAL - follows real paths to the food, but never into a pocket too small to fit in.
+ *   HARD   - races for the food only when it would get there before every opponent; otherwise
+ *            claims the cells it can reach first, squeezing the others out of room.
+ */
+export const chooseBotTurn = (s: GameState, player: PlayerId, level: BotLevel): Point | null => {
+    const { body: own, dir: heading, queue } = s.snakes[player - 1];
+    if (queue.length > 0) return null;
+    const opponents = s.snakes
+        .filter((snake, i) => i !== player - 1 && snake.diedAt === null)
+        .map(snake => snake.body[0]);
+    const blocked = bodyCells(s);
+    const danger = reachNext(s, opponents);
+
+    const candidates: Candidate[] = [];
+    for (const dir of DIRECTIONS) {
+        if (dir.x === -heading.x && dir.y === -heading.y) continue;
+        const move = moveFrom(s, own[0], dir);
+        if (move.blocked || blocked.has(cellKey(s, move.head))) continue;
+        candidates.push({ dir, head: move.head, contested: danger.has(cellKey(s, move.head)) });
+    }
+    if (candidates.length === 0) return null;
+
+    if (level === BotLevel.EASY) {
+        return pickMin(candidates, c => Math.min(...s.food.map(f => crowDistance(s, c.head, f)))).dir;
+    }
+
+    // Looking further ahead: how much room each move leaves and how far the food is from there.
+    const uncontested = candidates.filter(c => !c.contested);
+    const options = uncontested.length > 0 ? uncontested : candidates;
+    const scored = options.map(c => {
+        const reach = distanceMap(s, c.head, blocked);
+        const food = Math.min(...s.food.map(f => reach.get(cellKey(s, f)) ?? Infinity));
+        return { ...c, reach, space: reach.size, food };
+    });
+    const roomy = scored.filter(c => c.space >= own.length);
+    if (roomy.length === 0) return pickMin(scored, c => -c.space).dir;
+
+    if (level === BotLevel.NORMAL) {
+        return pickMin(roomy, c => c.food).dir;
+    }
+
+    // Race for the nearest food this snake would get to before every opponent
+    const theirs = closestOpponent(s, opponents, blocked);
+    const winnable = (c: typeof roomy[number]) => Math.min(...s.food.map(f => {
+        const mine = c.reach.get(cellKey(s, f)) ?? Infinity;
+        return mine < (theirs.get(cellKey(s, f)) ?? Infinity) ? mine : Infinity;
+    }));
+    const bestFood = pickMin(roomy, winnable);
+    if (winnable(bestFood) < Infinity) return bestFood.dir;
+
+    // Count the cells this snake would reach strictly before any opponent.
+    const territory = (c: typeof bestFood) => {
+        let owned = 0;
+        c.reach.forEach((d, k) => {
+            if (d < (theirs.get(k) ?? Infinity)) owned++;
+        });
+        return owned;
+    };
+    return pickMin(roomy, c => -territory(c)).dir;
+};
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { GameMode, ObjectiveKind, PowerupType } from '../types';
+import { createGame, step } from './engine';
+import { validateConfig, resolveConfig } from './config';
+import {
+    NEW_SAVE, SAVE_VERSION, STAGES, STARTER_POWERUPS, decodeSave, encodeSave, recordStage, stageOpen, stageRules,
+    stageStars, unlockedPowerups, unlockedSkins, validateSave
+} from './campaign';
+
+const play = (index: number, save = NEW_SAVE) => {
+    const stage = STAGES[index];
+    return createGame(GameMode.CAMPAIGN, 7, stage.level, stage.difficulty, {}, stageRules(stage, save));
+};
+
+describe('campaign', () => {
+    it('only ships stages whose rules pass validation', () => {
+        expect(new Set(STAGES.map(stage => stage.id)).size).toBe(STAGES.length);
+        for (const stage of STAGES) {
+            const rules = resolveConfig(stageRules(stage, NEW_SAVE));
+            expect(validateConfig(rules)).toEqual(rules);
+        }
+    });
+
+    it('sets the board, enemies and objective from the stage', () => {
+        const s = play(0);
+        expect(s.level).toBe(STAGES[0].level);
+        expect(s.enemies).toEqual([]);
+        expect(s.config.objective).toEqual(STAGES[0].objective);
+        expect(play(1).enemies.map(e => e.name)).toEqual(['PACMAN']);
+    });
+
+    it('gives a star for clearing a stage and one for each par beaten', () => {
+        const stage = STAGES[0];
+        const s = play(0);
+        expect(stageStars(stage, s)).toBe(0);
+        s.eaten.food = stage.objective.target;
+        s.elapsed = (stage.par[0] + 1) * 1000;
+        expect(stageStars(stage, s)).toBe(1);
+        s.elapsed = stage.par[1] * 1000;
+        expect(stageStars(stage, s)).toBe(3);
+        s.snakes[0].diedAt = 10;
+        expect(stageStars(stage, s)).toBe(0);
+    });
+
+    it('opens stages and unlocks rewards as they are cleared', () => {
+        expect(stageOpen(NEW_SAVE, 0)).toBe(true);
+        expect(stageOpen(NEW_SAVE, 1)).toBe(false);
+        expect(unlockedPowerups(NEW_SAVE)).toEqual(STARTER_POWERUPS);
+        expect(unlockedSkins(NEW_SAVE)).toEqual([]);
+
+        let save = recordStage(NEW_SAVE, STAGES[0], 2, 5);
+        save = recordStage(save, STAGES[1], 1, 12);
+        expect(stageOpen(save, 2)).toBe(true);
+        expect(unlockedSkins(save).map(skin => skin.id)).toEqual(['gold']);
+        expect(unlockedPowerups(save)).toContain(PowerupType.GHOST);
+        expect(play(2, save).config.powerups).toContain(PowerupType.GHOST);
+    });
+
+    it.each(STAGES.filter(stage => stage.objective.kind === ObjectiveKind.SURVIVE).map(stage => [stage.id]))(
+        'clears SURVIVE stage %s once the clock runs out, and opens the next', id => {
+            const index = STAGES.findIndex(stage => stage.id === id);
+            const stage = STAGES[index];
+            let s = { ...play(index), enemies: [] };
+            s.elapsed = stage.objective.target * 1000 - 1;
+            const { state, events } = step(s);
+            s = state;
+            expect(s.over).toBe(true);
+            expect(events).toContainEqual({ type: 'matchOver' });
+
+            const save = recordStage(NEW_SAVE, stage, stageStars(stage, s), s.snakes[0].score);
+            expect(save.stages[stage.id].stars).toBe(1);
+            expect(stageOpen(save, index + 1)).toBe(true);
+        });
+
+    it('keeps the best stars and score from any run', () => {
+        let save = recordStage(NEW_SAVE, STAGES[0], 3, 5);
+        save = recordStage(save, STAGES[0], 1, 9);
+        expect(save.stages[STAGES[0].id]).toEqual({ stars: 3, best: 9 });
+    });
+
+    it('exports and imports a save as one line', () => {
+        const save = { ...recordStage(NEW_SAVE, STAGES[0], 2, 5), skin: 'gold' };
+        const text = encodeSave(save);
+        expect(text).toMatch(/^SVPSAVE:[A-Za-z0-9+/=]+$/);
+        expect(decodeSave(`  ${text}\n`)).toEqual(save);
+    });
+
+    it('drops what a save no longer has a use for', () => {
+        const save = validateSave({
+            version: SAVE_VERSION,
+            stages: { [STAGES[0].id]: { stars: 1, best: 5 }, gone: { stars: 3, best: 99 } },
+            skin: 'royal'
+        });
+        expect(save).toEqual({ version: SAVE_VERSION, stages: { [STAGES[0].id]: { stars: 1, best: 5 } }, skin: null });
+    });
+
+    it.each([
+        ['hello', 'Not a campaign save'],
+        ['SVPSAVE:!!!', 'Campaign save is damaged'],
+        [encodeSave({ ...NEW_SAVE, version: SAVE_VERSION + 1 }), 'Save is from a newer version of the game'],
+        [encodeSave({ ...NEW_SAVE, stages: { [STAGES[0].id]: { stars: 4, best: 0 } } }), 'Save has a damaged record for FIRST BITES']
+    ])('rejects %s', (text, message) => {
+        expect(() => decodeSave(text)).toThrow(message);
+    });
+});
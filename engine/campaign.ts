@@ -0,0 +1,301 @@
+import { Difficulty, GameState, Level, Objective, ObjectiveKind, PowerupType } from '../types';
+import { COLS, ROWS } from './constants';
+import { ConfigOverrides } from './config';
+import { OPEN_ARENA, arenaLevel, getLevel, parseLevel } from './levels';
+import { livingSnakes, objectiveMet } from './engine';
+import { isRecord } from './guards';
+
+// --- Unlockables ---
+// Clearing a stage for the first time can unlock a skin for the player's snake or a
+// powerup for the stages after it. Nothing is stored about unlocks: they follow from
+// which stages have been cleared.
+
+export type Skin = {
+    id: string;
+    name: string;
+    body: string;
+    head: string;
+    highlight: string;
+};
+
+// The snake's usual colours need no unlocking and aren't listed here.
+export const SKINS: Skin[] = [
+    { id: 'gold', name: 'GOLD', body: '#ffcc00', head: '#ab5236', highlight: '#fff1a8' },
+    { id: 'ice', name: 'ICE', body: '#c2e9ff', head: '#29adff', highlight: '#ffffff' },
+    { id: 'lava', name: 'LAVA', body: '#ff6c24', head: '#7e2553', highlight: '#ffccaa' },
+    { id: 'royal', name: 'ROYAL', body: '#7e2553', head: '#ffec27', highlight: '#ff77a8' }
+];
+
+export const getSkin = (id: string | null) => SKINS.find(skin => skin.id === id);
+
+// Powerups every stage has from the start; the rest are unlocked along the way.
+export const STARTER_POWERUPS = [
+    PowerupType.FREEZE, PowerupType.SPEED, PowerupType.SLOW, PowerupType.SHRINK, PowerupType.REVERSE, PowerupType.DOUBLE_POINTS
+];
+
+export type Unlock = { skin?: string; powerup?: PowerupType };
+
+// --- Stages ---
+
+export type Stage = {
+    id: string;
+    name: string;
+    level: Level;
+    difficulty: Difficulty;
+    objective: Objective;
+    rules: ConfigOverrides;  // the stage's own rules; powerups come from what has been unlocked
+    par: [number, number];   // beat one for a second star, both for a third; see stageStars
+    unlocks?: Unlock;
+};
+
+const CORRIDORS = parseLevel(`
+TTTTTTTTTTTTTTTTTTTTTTTTTTTTTT
+T............................T
+T..............P.............T
+T............................T
+T...####################.....T
+T............................T
+T............................T
+T.....####################...T
+T............................T
+T............................T
+T...####################.....T
+T............................T
+T..............1.............T
+T.....####################...T
+T............................T
+T............................T
+T...####################.....T
+T............................T
+T............................T
+TTTTTTTTTTTTTTTTTTTTTTTTTTTTTT
+`, 'CORRIDORS', 'corridors');
+
+const FORTRESS = parseLevel(`
+##############################
+#............................#
+#..............P.............#
+#............................#
+#...######..........######...#
+#...#....................#...#
+#...#....................#...#
+#............................#
+#.........####..####.........#
+#.........#........#.........#
+#.........#...1....#.........#
+#.........#........#.........#
+#.........####..####.........#
+#............................#
+#...#....................#...#
+#...#....................#...#
+#...######..........######...#
+#............................#
+#............................#
+##############################
+`, 'FORTRESS', 'fortress');
+
+export const STAGES: Stage[] = [
+    {
+        id: 'first-bites',
+        name: 'FIRST BITES',
+        level: OPEN_ARENA,
+        difficulty: Difficulty.EASY,
+        objective: { kind: ObjectiveKind.FOOD, target: 5 },
+        rules: { waves: 0 },
+        par: [40, 25],
+        unlocks: { skin: 'gold' }
+    },
+    {
+        id: 'company',
+        name: 'COMPANY',
+        level: OPEN_ARENA,
+        difficulty: Difficulty.EASY,
+        objective: { kind: ObjectiveKind.SURVIVE, target: 45 },
+        rules: { waves: 1 },
+        par: [8, 14],
+        unlocks: { powerup: PowerupType.GHOST }
+    },
+    {
+        id: 'hunter',
+        name: 'THE HUNTER',
+        level: getLevel('box')!,
+        difficulty: Difficulty.NORMAL,
+        objective: { kind: ObjectiveKind.PACMAN, target: 2 },
+        rules: { waves: 1, pickups: { powerups: 2 } },
+        par: [90, 60],
+        unlocks: { powerup: PowerupType.MAGNET }
+    },
+    {
+        id: 'pillars',
+        name: 'PILLAR RUN',
+        level: getLevel('pillars')!,
+        difficulty: Difficulty.NORMAL,
+        objective: { kind: ObjectiveKind.FOOD, target: 15 },
+        rules: { waves: 2 },
+        par: [70, 50],
+        unlocks: { skin: 'ice' }
+    },
+    {
+        id: 'corridors',
+        name: 'CORRIDORS',
+        level: CORRIDORS,
+        difficulty: Difficulty.NORMAL,
+        objective: { kind: ObjectiveKind.SURVIVE, target: 60 },
+        rules: { waves: 3 },
+        par: [15, 25],
+        unlocks: { powerup: PowerupType.SHIELD }
+    },
+    {
+        id: 'ghost-town',
+        name: 'GHOST TOWN',
+        level: getLevel('cross')!,
+        difficulty: Difficulty.HARD,
+        objective: { kind: ObjectiveKind.PACMAN, target: 3 },
+        rules: { waves: 4, pickups: { powerups: 2 } },
+        par: [150, 100],
+        unlocks: { powerup: PowerupType.TELEPORT }
+    },
+    {
+        id: 'speedway',
+        name: 'SPEEDWAY',
+        level: arenaLevel(COLS, ROWS, false),
+        difficulty: Difficulty.NORMAL,
+        objective: { kind: ObjectiveKind.FOOD, target: 20 },
+        rules: { waves: 2, startInterval: 90, minInterval: 50, acceleration: 2, pickups: { food: 2 } },
+        par: [60, 40],
+        unlocks: { skin: 'lava' }
+    },
+    {
+        id: 'fortress',
+        name: 'FORTRESS',
+        level: FORTRESS,
+        difficulty: Difficulty.INSANE,
+        objective: { kind: ObjectiveKind.SURVIVE, target: 120 },
+        rules: {},
+        par: [40, 70],
+        unlocks: { skin: 'royal' }
+    }
+];
+
+export const getStage = (id: string) => STAGES.find(stage => stage.id === id);
+
+// What to tell the player a stage wants of them.
+export const objectiveText = ({ kind, target }: Objective) =>
+    kind === ObjectiveKind.FOOD ? `EAT ${target} FOOD`
+    : kind === ObjectiveKind.PACMAN ? `EAT PACMAN ${target} TIMES`
+    : `SURVIVE ${target} SECONDS`;
+
+// Stars for a finished stage: none unless the objective was met alive, then one more for
+// each par beaten. Par is seconds taken for FOOD and PACMAN stages and score for SURVIVE.
+export const stageStars = (stage: Stage, s: GameState) => {
+    if (!objectiveMet(s) || livingSnakes(s).length === 0) return 0;
+    const beaten = stage.objective.kind === ObjectiveKind.SURVIVE
+        ? (par: number) => s.snakes[0].score >= par
+        : (par: number) => s.elapsed <= par * 1000;
+    return 1 + stage.par.filter(beaten).length;
+};
+
+// --- Save Slot ---
+// Best stars and score per stage, and the skin picked. Saves carry a version; an older
+// one is brought up to date step by step when it's loaded.
+
+export const SAVE_VERSION = 1;
+export const MAX_STARS = 3;
+
+export type StageRecord = { stars: number; best: number };
+
+export type CampaignSave = {
+    version: number;
+    stages: Record<string, StageRecord>;
+    skin: string | null; // null = the snake's usual colours
+};
+
+export const NEW_SAVE: CampaignSave = { version: SAVE_VERSION, stages: {}, skin: null };
+
+// Each entry turns a save of that version into one of the next.
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const cleared = (save: CampaignSave, stage: Stage) => (save.stages[stage.id]?.stars ?? 0) > 0;
+
+// The first stage is always open; every other one once the stage before it is cleared.
+export const stageOpen = (save: CampaignSave, index: number) => index === 0 || cleared(save, STAGES[index - 1]);
+
+export const totalStars = (save: CampaignSave) =>
+    Object.values(save.stages).reduce((sum, record) => sum + record.stars, 0);
+
+export const unlockedSkins = (save: CampaignSave) =>
+    SKINS.filter(skin => STAGES.some(stage => stage.unlocks?.skin === skin.id && cleared(save, stage)));
+
+// In registry order, so the same progress always makes the same config.
+export const unlockedPowerups = (save: CampaignSave) =>
+    Object.values(PowerupType).filter(type => STARTER_POWERUPS.includes(type)
+        || STAGES.some(stage => stage.unlocks?.powerup === type && cleared(save, stage)));
+
+// The rules a stage is played by with the progress in `save`.
+export const stageRules = (stage: Stage, save: CampaignSave): ConfigOverrides => ({
+    ...stage.rules,
+    objective: stage.objective,
+    powerups: unlockedPowerups(save)
+});
+
+// Keeps the best stars and the best score separately; they may come from different runs.
+export const recordStage = (save: CampaignSave, stage: Stage, stars: number, score: number): CampaignSave => {
+    const old = save.stages[stage.id] ?? { stars: 0, best: 0 };
+    return {
+        ...save,
+        stages: { ...save.stages, [stage.id]: { stars: Math.max(old.stars, stars), best: Math.max(old.best, score) } }
+    };
+};
+
+const isCount = (value: unknown, max: number = Infinity): value is number =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
+
+/**
+ * Checks a save that came from storage or an import, bringing an older one up to date.
+ * Records for stages that no longer exist are dropped, and a skin that isn't unlocked
+ * goes back to the usual colours.
+ */
+export const validateSave = (data: unknown): CampaignSave => {
+    if (!isRecord(data)) throw new Error('Save is missing');
+    const { version } = data;
+    if (!isCount(version) || version < 1) throw new Error('Save has no version');
+    if (version > SAVE_VERSION) throw new Error('Save is from a newer version of the game');
+    let doc = data;
+    for (let v = version; v < SAVE_VERSION; v++) doc = MIGRATIONS[v](doc);
+
+    const records = doc.stages;
+    if (!isRecord(records)) throw new Error('Save has no stage records');
+    const stages: Record<string, StageRecord> = {};
+    for (const stage of STAGES) {
+        const record = records[stage.id];
+        if (record === undefined) continue;
+        if (!isRecord(record) || !isCount(record.stars, MAX_STARS) || !isCount(record.best)) {
+            throw new Error(`Save has a damaged record for ${stage.name}`);
+        }
+        stages[stage.id] = { stars: record.stars, best: record.best };
+    }
+
+    const save: CampaignSave = { version: SAVE_VERSION, stages, skin: null };
+    const { skin } = doc;
+    if (typeof skin === 'string' && unlockedSkins(save).some(unlocked => unlocked.id === skin)) save.skin = skin;
+    return save;
+};
+
+// --- Export ---
+// Like a shared config, a save travels as one line: a tag and the JSON in base64.
+
+const EXPORT_PREFIX = 'SVPSAVE:';
+
+export const encodeSave = (save: CampaignSave) => EXPORT_PREFIX + btoa(JSON.stringify(save));
+
+export const decodeSave = (text: string): CampaignSave => {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith(EXPORT_PREFIX)) throw new Error('Not a campaign save');
+    let data: unknown;
+    try {
+        data = JSON.parse(atob(trimmed.slice(EXPORT_PREFIX.length)));
+    } catch {
+        throw new Error('Campaign save is damaged');
+    }
+    return validateSave(data);
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { GameMode, ObjectiveKind, PowerupType, WinCondition } from '../types';
+import { MAX_FOOD } from './constants';
+import { DEFAULT_CONFIG, PRESETS, decodeConfig, encodeConfig, pickupSettings, presetOf, resolveConfig, validateConfig } from './config';
+import { createGame } from './engine';
+import { OPEN_ARENA } from './levels';
+
+describe('config', () => {
+    it('plays the classic game by default', () => {
+        const s = createGame(GameMode.PVC, 1);
+        expect(s.config).toEqual(DEFAULT_CONFIG);
+        expect(s.level).toEqual(OPEN_ARENA);
+    });
+
+    it('fills in what a match leaves out and keeps pickups in range', () => {
+        const config = resolveConfig({ win: WinCondition.FIRST_TO, pickups: { food: 99 } });
+        expect(config.win).toBe(WinCondition.FIRST_TO);
+        expect(config.points).toEqual(DEFAULT_CONFIG.points);
+        expect(config.pickups).toEqual({ ...DEFAULT_CONFIG.pickups, food: MAX_FOOD });
+        expect(pickupSettings({ powerups: -2 }).powerups).toBe(0);
+    });
+
+    it('only ships presets that pass validation', () => {
+        for (const preset of PRESETS) expect(validateConfig(preset.config)).toEqual(preset.config);
+        expect(presetOf(DEFAULT_CONFIG)?.id).toBe('classic');
+        expect(presetOf({ ...DEFAULT_CONFIG, targetScore: 77 })).toBeUndefined();
+    });
+
+    it('round-trips through a share string', () => {
+        const config = { ...DEFAULT_CONFIG, board: { cols: 24, rows: 16, wrap: false }, powerups: [PowerupType.GHOST] };
+        const text = encodeConfig(config);
+        expect(text).toMatch(/^SVP1:[A-Za-z0-9+/=]+$/);
+        expect(decodeConfig(`  ${text}\n`)).toEqual(config);
+    });
+
+    it('reads share strings from before enemies and objectives could be set', () => {
+        const { waves, objective, ...older } = DEFAULT_CONFIG;
+        expect(decodeConfig(`SVP1:${btoa(JSON.stringify(older))}`)).toEqual(DEFAULT_CONFIG);
+    });
+
+    it.each([
+        ['hello', 'Not a game config'],
+        ['SVP1:!!!', 'Game config is damaged'],
+        [`SVP1:${btoa('[]')}`, 'Config has an invalid board'],
+        [encodeConfig({ ...DEFAULT_CONFIG, board: { cols: 200, rows: 20, wrap: true } }), 'Config has an invalid board'],
+        [encodeConfig({ ...DEFAULT_CONFIG, minInterval: 150 }), 'Config has an invalid speed'],
+        [encodeConfig({ ...DEFAULT_CONFIG, powerups: ['laser' as PowerupType] }), 'Config has unknown powerups'],
+        [encodeConfig({ ...DEFAULT_CONFIG, points: { ...DEFAULT_CONFIG.points, food: -1 } }), 'Config has invalid score values'],
+        [encodeConfig({ ...DEFAULT_CONFIG, win: 'forever' as WinCondition }), 'Config has an invalid win condition'],
+        [encodeConfig({ ...DEFAULT_CONFIG, waves: 99 }), 'Config has an invalid enemy setup'],
+        [encodeConfig({ ...DEFAULT_CONFIG, objective: { kind: ObjectiveKind.FOOD, target: 0 } }), 'Config has an invalid objective']
+    ])('rejects %s', (text, message) => {
+        expect(() => decodeConfig(text)).toThrow(message);
+    });
+});
@@ -0,0 +1,185 @@
+import { GameConfig, Objective, ObjectiveKind, PickupSettings, PowerupType, WinCondition } from '../types';
+import {
+    COLS, ROWS, START_MOVE_INTERVAL, MIN_MOVE_INTERVAL, MIN_SNAKE_INTERVAL, MAX_SNAKE_INTERVAL,
+    FOOD_POINTS, POWERUP_POINTS, PACMAN_POINTS, GHOST_POINTS, PARTY_TIME_LIMIT,
+    POWERUP_DROP_INTERVAL, MAX_FOOD, MAX_POWERUPS
+} from './constants';
+import { WAVES } from './enemies';
+import { isIntIn, isList, isOneOf, isRecord, orNull } from './guards';
+import { MAX_COLS, MAX_ROWS, MIN_SIZE, arenaLevel } from './levels';
+
+// --- Match Rules ---
+// Everything a Custom Game can change. The defaults are the classic game; a match that
+// doesn't ask for anything else plays by them.
+
+export const MAX_ACCELERATION = 10; // ms a bite of food can take off the move interval
+export const MAX_POINTS = 100;      // most any one score value can be worth
+export const MIN_TIME_LIMIT = 30000;
+export const MAX_TIME_LIMIT = 600000;
+export const MIN_TARGET_SCORE = 5;
+export const MAX_TARGET_SCORE = 500;
+export const MAX_OBJECTIVE = 999; // most food, Pacmen or seconds an objective can ask for
+
+export const DEFAULT_CONFIG: GameConfig = {
+    board: { cols: COLS, rows: ROWS, wrap: true },
+    startInterval: START_MOVE_INTERVAL,
+    minInterval: MIN_MOVE_INTERVAL,
+    acceleration: 1,
+    powerups: Object.values(PowerupType),
+    points: { food: FOOD_POINTS, powerup: POWERUP_POINTS, pacman: PACMAN_POINTS, ghost: GHOST_POINTS },
+    win: WinCondition.LAST_STANDING,
+    timeLimit: PARTY_TIME_LIMIT,
+    targetScore: 50,
+    pickups: { food: 1, powerups: 1, powerupEvery: POWERUP_DROP_INTERVAL },
+    waves: WAVES.length,
+    objective: null
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Fills in the defaults and keeps each setting in range.
+export const pickupSettings = (pickups: Partial<PickupSettings> = {}): PickupSettings => ({
+    food: clamp(pickups.food ?? DEFAULT_CONFIG.pickups.food, 1, MAX_FOOD),
+    powerups: clamp(pickups.powerups ?? DEFAULT_CONFIG.pickups.powerups, 0, MAX_POWERUPS),
+    powerupEvery: Math.max(0, pickups.powerupEvery ?? DEFAULT_CONFIG.pickups.powerupEvery)
+});
+
+// The rules a match asks for; anything left out is the default.
+export type ConfigOverrides = Partial<Omit<GameConfig, 'pickups'>> & { pickups?: Partial<PickupSettings> };
+
+// A full config from the parts a match asks for, the rest from the defaults.
+export const resolveConfig = (config: ConfigOverrides = {}): GameConfig => ({
+    ...DEFAULT_CONFIG,
+    ...config,
+    pickups: pickupSettings(config.pickups)
+});
+
+// The open arena a config describes, for matches that don't pick a level.
+export const configArena = ({ board }: GameConfig) => arenaLevel(board.cols, board.rows, board.wrap);
+
+// --- Presets ---
+
+export type ConfigPreset = {
+    id: string;
+    name: string;
+    config: GameConfig;
+};
+
+export const PRESETS: ConfigPreset[] = [
+    { id: 'classic', name: 'CLASSIC', config: DEFAULT_CONFIG },
+    {
+        id: 'blitz',
+        name: 'BLITZ',
+        config: { ...DEFAULT_CONFIG, startInterval: 80, minInterval: 40, acceleration: 2 }
+    },
+    {
+        id: 'chill',
+        name: 'CHILL',
+        config: { ...DEFAULT_CONFIG, startInterval: 160, minInterval: 120, acceleration: 0 }
+    },
+    {
+        id: 'purist',
+        name: 'PURIST',
+        config: { ...DEFAULT_CONFIG, board: { ...DEFAULT_CONFIG.board, wrap: false }, powerups: [] }
+    },
+    {
+        id: 'chaos',
+        name: 'CHAOS',
+        config: {
+            ...DEFAULT_CONFIG,
+            board: { cols: 40, rows: 28, wrap: true },
+            pickups: { food: MAX_FOOD, powerups: MAX_POWERUPS, powerupEvery: 20 }
+        }
+    },
+    {
+        id: 'race',
+        name: 'RACE TO 30',
+        config: { ...DEFAULT_CONFIG, win: WinCondition.FIRST_TO, targetScore: 30 }
+    }
+];
+
+// The preset a config matches exactly, if any.
+export const presetOf = (config: GameConfig) =>
+    PRESETS.find(p => JSON.stringify(p.config) === JSON.stringify(config));
+
+// --- Validation ---
+
+const POINT_VALUES = ['food', 'powerup', 'pacman', 'ghost'] as const;
+
+const isPoints = (value: unknown): value is GameConfig['points'] =>
+    isRecord(value) && POINT_VALUES.every(k => isIntIn(value[k], 0, MAX_POINTS));
+
+const isObjective = (value: unknown): value is Objective =>
+    isRecord(value) && isOneOf(Object.values(ObjectiveKind), value.kind) && isIntIn(value.target, 1, MAX_OBJECTIVE);
+
+/**
+ * Checks a config that came from outside (a share string, a replay file or storage) and
+ * returns it as a clean GameConfig, or throws with what is wrong.
+ */
+export const validateConfig = (data: unknown): GameConfig => {
+    if (!isRecord(data)) throw new Error('Config is missing');
+
+    const { board, points, pickups, powerups } = data;
+    if (!isRecord(board) || !isIntIn(board.cols, MIN_SIZE, MAX_COLS) || !isIntIn(board.rows, MIN_SIZE, MAX_ROWS) || typeof board.wrap !== 'boolean') {
+        throw new Error('Config has an invalid board');
+    }
+    if (!isIntIn(data.startInterval, MIN_SNAKE_INTERVAL, MAX_SNAKE_INTERVAL)
+        || !isIntIn(data.minInterval, MIN_SNAKE_INTERVAL, data.startInterval)
+        || !isIntIn(data.acceleration, 0, MAX_ACCELERATION)) {
+        throw new Error('Config has an invalid speed');
+    }
+    const types = Object.values(PowerupType);
+    if (!isList(powerups) || powerups.some(p => !isOneOf(types, p)) || new Set(powerups).size !== powerups.length) {
+        throw new Error('Config has unknown powerups');
+    }
+    if (!isPoints(points)) throw new Error('Config has invalid score values');
+    if (!isOneOf(Object.values(WinCondition), data.win)
+        || !isIntIn(data.timeLimit, MIN_TIME_LIMIT, MAX_TIME_LIMIT)
+        || !isIntIn(data.targetScore, MIN_TARGET_SCORE, MAX_TARGET_SCORE)) {
+        throw new Error('Config has an invalid win condition');
+    }
+    if (!isRecord(pickups) || !isIntIn(pickups.food, 1, MAX_FOOD) || !isIntIn(pickups.powerups, 0, MAX_POWERUPS)
+        || !isIntIn(pickups.powerupEvery, 0, Infinity)) {
+        throw new Error('Config has invalid pickup settings');
+    }
+    // Enemies and objectives came after the first share strings, which go without them
+    const waves = data.waves ?? DEFAULT_CONFIG.waves;
+    if (!isIntIn(waves, 0, WAVES.length)) throw new Error('Config has an invalid enemy setup');
+    const objective = data.objective ?? null;
+    if (!orNull(isObjective)(objective)) throw new Error('Config has an invalid objective');
+
+    return {
+        board: { cols: board.cols, rows: board.rows, wrap: board.wrap },
+        startInterval: data.startInterval,
+        minInterval: data.minInterval,
+        acceleration: data.acceleration,
+        powerups: types.filter(t => powerups.includes(t)),
+        points: { food: points.food, powerup: points.powerup, pacman: points.pacman, ghost: points.ghost },
+        win: data.win,
+        timeLimit: data.timeLimit,
+        targetScore: data.targetScore,
+        pickups: { food: pickups.food, powerups: pickups.powerups, powerupEvery: pickups.powerupEvery },
+        waves,
+        objective: objective && { kind: objective.kind, target: objective.target }
+    };
+};
+
+// --- Sharing ---
+// A config travels as one line of text: a version tag and the JSON in base64, so it
+// survives chat apps and URL bars.
+
+const SHARE_PREFIX = 'SVP1:';
+
+export const encodeConfig = (config: GameConfig) => SHARE_PREFIX + btoa(JSON.stringify(config));
+
+export const decodeConfig = (text: string): GameConfig => {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith(SHARE_PREFIX)) throw new Error('Not a game config');
+    let data: unknown;
+    try {
+        data = JSON.parse(atob(trimmed.slice(SHARE_PREFIX.length)));
+    } catch {
+        throw new Error('Game config is damaged');
+    }
+    return validateConfig(data);
+};
@@ -0,0 +1,57 @@
+// --- Board ---
+export const COLS = 30;
+export const ROWS = 20;
+
+// --- Timing ---
+export const START_MOVE_INTERVAL = 120;
+export const MIN_MOVE_INTERVAL = 60;
+export const MAX_CATCH_UP_TICKS = 4; // most ticks one update runs to make up for a long frame
+
+// --- Input ---
+export const TURN_BUFFER = 2; // turns a snake can have queued ahead of its next moves
+
+// --- Powerups ---
+export const FREEZE_DURATION = 150;      // enemy ticks
+export const SPEED_BOOST_DURATION = 30;  // moves of the snake it's working on, for SPEED and SLOW alike
+export const GHOST_DURATION = 30;        // moves of the snake that picked it up
+export const MAGNET_DURATION = 40;
+export const SHIELD_DURATION = 100;      // or until it absorbs a hit, whichever comes first
+export const DOUBLE_POINTS_DURATION = 40;
+export const MIN_SNAKE_INTERVAL = 30;    // fastest a SPEED boost can make a snake
+export const MAX_SNAKE_INTERVAL = 300;   // slowest SLOW can make one
+export const POWERUP_LIFETIME = 150;     // ticks a powerup stays on the board
+export const POWERUP_WARNING = 40;       // it blinks for its last this many ticks
+export const POWERUP_DROP_INTERVAL = 100; // ticks between timed drops unless a match sets its own
+
+// --- Pickups ---
+export const MAX_FOOD = 5;     // most food items a match can have on the board at once
+export const MAX_POWERUPS = 3; // most powerups
+
+// --- Scoring ---
+export const FOOD_POINTS = 1;
+export const POWERUP_POINTS = 5;
+export const PACMAN_POINTS = 5;
+export const GHOST_POINTS = 10;
+export const COMBO_WINDOW = 2500;        // ms of simulated time a bite of food keeps a combo going
+export const MAX_COMBO_BONUS = 5;        // a combo's bonus is one point per bite after the first, up to this
+export const MULTIPLIER_LENGTH_STEP = 10; // segments for each quarter added to the multiplier
+export const MULTIPLIER_SPEED_STEP = 20;  // percent faster than the match started, for each quarter
+export const MAX_MULTIPLIER = 4;
+export const NEAR_MISS_POINTS = 2;       // for ending a move next to a Pacman that could have eaten the snake
+export const NEAR_MISS_COOLDOWN = 10;    // ticks before the same snake can earn another
+export const QUICK_KILL_POINTS = 5;      // for a Pacman eaten the moment it froze, less the longer it's been
+
+// --- Enemies ---
+export const GHOST_CADENCE = 3;         // ghosts move once every 3 snake ticks
+export const GHOST_RESPAWN_TICKS = 40;  // an eaten ghost stays off the board this long
+export const ENEMY_SPAWN_DISTANCE = 5;  // minimum steps between a new enemy and the snake's head
+
+// --- Party ---
+export const MAX_PLAYERS = 4;
+export const PARTY_TIME_LIMIT = 120000; // a TIMED match lasts two minutes of simulated time
+
+// --- Modes ---
+export const TIME_ATTACK_LIMIT = 120000;       // ms of simulated time
+export const SURVIVAL_OBSTACLE_INTERVAL = 25;  // ticks between new obstacles
+export const SURVIVAL_SAFE_DISTANCE = 4;       // minimum steps between a new obstacle and the snake's head
+export const SURVIVAL_MAX_FILL = 0.25;         // share of the board obstacles may take up
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Difficulty, GameMode } from '../types';
+import { createGame } from './engine';
+import { DEFAULT_CONFIG } from './config';
+import { OPEN_ARENA } from './levels';
+import { compareDailyResults, dailyKey, dailyResult, dailySeed, formatDailyResult, parseDailyResult } from './daily';
+
+describe('daily challenge', () => {
+    it('changes day at midnight UTC', () => {
+        expect(dailyKey(new Date('2026-03-01T23:59:59Z'))).toBe('2026-03-01');
+        expect(dailyKey(new Date('2026-03-02T00:00:00Z'))).toBe('2026-03-02');
+    });
+
+    it('deals everyone the same board on the same day', () => {
+        const day = '2026-03-01';
+        expect(dailySeed(day)).toBe(dailySeed(day));
+        expect(dailySeed(day)).not.toBe(dailySeed('2026-03-02'));
+
+        const a = createGame(GameMode.DAILY, dailySeed(day), undefined, Difficulty.NORMAL);
+        const b = createGame(GameMode.DAILY, dailySeed(day), undefined, Difficulty.NORMAL, {}, { pickups: { food: 5 } });
+        expect(b).toEqual(a);
+        expect(a.config).toEqual(DEFAULT_CONFIG);
+        expect(a.level).toEqual(OPEN_ARENA);
+        expect(a.enemies).toHaveLength(1);
+    });
+
+    it('shares a result as one line and reads it back', () => {
+        const s = createGame(GameMode.DAILY, dailySeed('2026-03-01'));
+        s.snakes[0].score = 42;
+        s.elapsed = 185400;
+        const result = dailyResult('2026-03-01', s);
+        const text = formatDailyResult(result);
+        expect(text).toBe('SNAKE VS PACMAN DAILY 2026-03-01 | SCORE 42 | LENGTH 1 | TIME 3:05');
+        expect(parseDailyResult(`  ${text.toLowerCase()}\n`)).toEqual(result);
+        expect(() => parseDailyResult('SCORE 9000')).toThrow('Not a daily challenge result');
+    });
+
+    it('ranks results by score, then time survived', () => {
+        const base = { day: '2026-03-01', score: 10, length: 8, seconds: 60 };
+        expect(compareDailyResults({ ...base, score: 11 }, base)).toBeGreaterThan(0);
+        expect(compareDailyResults({ ...base, seconds: 50 }, base)).toBeLessThan(0);
+        expect(compareDailyResults(base, { ...base, length: 20 })).toBe(0);
+    });
+});
@@ -0,0 +1,45 @@
+import { GameState } from '../types';
+import { seedFromText } from './rng';
+
+// --- Daily Challenge ---
+// One PVC match a day that is the same for everyone: the seed comes from the UTC date, and
+// the mode always plays the classic rules on the open arena against a NORMAL Pacman.
+
+export type DailyResult = {
+    day: string;    // YYYY-MM-DD
+    score: number;
+    length: number;
+    seconds: number; // simulated time survived
+};
+
+const RESULT_PREFIX = 'SNAKE VS PACMAN DAILY';
+
+// The challenge day `date` falls in, in UTC so everyone changes over at the same moment.
+export const dailyKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export const dailySeed = (day: string) => seedFromText(`daily:${day}`);
+
+export const dailyResult = (day: string, s: GameState): DailyResult => ({
+    day,
+    score: s.snakes[0].score,
+    length: s.snakes[0].body.length,
+    seconds: Math.floor(s.elapsed / 1000)
+});
+
+const clock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// One line that pastes cleanly into a chat, and back into the game to compare.
+export const formatDailyResult = (r: DailyResult) =>
+    `${RESULT_PREFIX} ${r.day} | SCORE ${r.score} | LENGTH ${r.length} | TIME ${clock(r.seconds)}`;
+
+export const parseDailyResult = (text: string): DailyResult => {
+    const match = text.trim().toUpperCase().match(new RegExp(
+        `^${RESULT_PREFIX} (\\d{4}-\\d{2}-\\d{2}) \\| SCORE (\\d+) \\| LENGTH (\\d+) \\| TIME (\\d+):([0-5]\\d)$`
+    ));
+    if (!match) throw new Error('Not a daily challenge result');
+    const [, day, score, length, minutes, seconds] = match;
+    return { day, score: Number(score), length: Number(length), seconds: Number(minutes) * 60 + Number(seconds) };
+};
+
+// Positive when `a` beat `b`: score first, then the longer run.
+export const compareDailyResults = (a: DailyResult, b: DailyResult) => (a.score - b.score) || (a.seconds - b.seconds);
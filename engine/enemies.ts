@@ -0,0 +1,22 @@
+import { EnemyKind, PacmanPersonality } from '../types';
+
+// --- Waves ---
+// PVC starts with a single Pacman. Every time the player's score reaches the next
+// threshold another enemy joins; nothing ever leaves the board for good.
+
+export type Wave = {
+    score: number;
+    kind: EnemyKind;
+    name: string;
+    personality?: PacmanPersonality; // Pacmen only; defaults to the difficulty's personality
+};
+
+export const WAVES: Wave[] = [
+    { score: 0, kind: EnemyKind.PACMAN, name: 'PACMAN' },
+    { score: 15, kind: EnemyKind.GHOST, name: 'BLINKY' },
+    { score: 25, kind: EnemyKind.PACMAN, name: 'MS PACMAN', personality: PacmanPersonality.AMBUSHER },
+    { score: 40, kind: EnemyKind.GHOST, name: 'PINKY' },
+    { score: 55, kind: EnemyKind.PACMAN, name: 'JR PACMAN', personality: PacmanPersonality.HUNTER },
+    { score: 70, kind: EnemyKind.GHOST, name: 'INKY' },
+    { score: 90, kind: EnemyKind.GHOST, name: 'CLYDE' }
+];
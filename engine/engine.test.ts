@@ -0,0 +1,782 @@
+import { describe, it, expect } from 'vitest';
+import { Enemy, EnemyKind, GameMode, GameState, Level, ObjectiveKind, PacmanPersonality, Powerup, PowerupType, Point, Snake, WinCondition } from '../types';
+import {
+    COLS, ROWS, FREEZE_DURATION, GHOST_DURATION, SHIELD_DURATION, DOUBLE_POINTS_DURATION,
+    SPEED_BOOST_DURATION, START_MOVE_INTERVAL, POWERUP_LIFETIME,
+    GHOST_POINTS, GHOST_RESPAWN_TICKS, ENEMY_SPAWN_DISTANCE, PARTY_TIME_LIMIT, MAX_CATCH_UP_TICKS,
+    TIME_ATTACK_LIMIT, SURVIVAL_OBSTACLE_INTERVAL, SURVIVAL_SAFE_DISTANCE
+} from './constants';
+import { createGame, placeItem, ranking, snakeInterval, step, tickProgress, update, winner } from './engine';
+import { isWall, levelSize, parseLevel } from './levels';
+import { resolveConfig } from './config';
+import { POWERUPS } from './powerups';
+import { DOWN, LEFT, RIGHT, UP, makeSnake, makeState } from './testUtils';
+
+const pickup = (x: number, y: number, type: PowerupType): Powerup => ({ x, y, type, life: POWERUP_LIFETIME });
+
+// `moveTick: 1` makes a Pacman move on the very next tick.
+const pacman = (x: number, y: number, overrides: Partial<Enemy> = {}): Enemy => ({
+    id: 0, kind: EnemyKind.PACMAN, name: 'PACMAN', personality: PacmanPersonality.CHASER,
+    x, y, frozen: 0, moveTick: 0, respawn: 0,
+    ...overrides
+});
+
+const ghost = (x: number, y: number, overrides: Partial<Enemy> = {}): Enemy =>
+    pacman(x, y, { id: 1, kind: EnemyKind.GHOST, name: 'BLINKY', ...overrides });
+
+const position = (e: Enemy) => ({ x: e.x, y: e.y });
+
+const ghostly = (s: Snake): Snake => ({ ...s, effects: { [PowerupType.GHOST]: GHOST_DURATION } });
+
+const levelFields = (level: Level) => ({ level, ...levelSize(level) });
+
+const line = (x: number, y: number, length: number, dir: Point): Point[] =>
+    Array.from({ length }, (_, i) => ({ x: x - dir.x * i, y: y - dir.y * i }));
+
+// Head at (x,10) facing up; turning left runs straight into its own body.
+const coiledAt = (x: number): Point[] =>
+    [{ x, y: 10 }, { x, y: 11 }, { x: x - 1, y: 11 }, { x: x - 1, y: 10 }, { x: x - 1, y: 9 }];
+
+describe('movement', () => {
+    it('moves the head one cell per tick and keeps the length', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 3, UP))] });
+        const { state } = step(s);
+        expect(state.snakes[0].body).toEqual([{ x: 10, y: 9 }, { x: 10, y: 10 }, { x: 10, y: 11 }]);
+        expect(state.tick).toBe(1);
+    });
+
+    it('applies perpendicular turns and ignores reversals', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 3, UP))] });
+        expect(step(s, { 1: [LEFT] }).state.snakes[0].body[0]).toEqual({ x: 9, y: 10 });
+        expect(step(s, { 1: [DOWN] }).state.snakes[0].body[0]).toEqual({ x: 10, y: 9 });
+    });
+
+    it('buffers a quick pair of turns and plays them on consecutive ticks', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 3, RIGHT), RIGHT)] });
+        const first = step(s, { 1: [UP, LEFT] }).state;
+        expect(first.snakes[0].body[0]).toEqual({ x: 10, y: 9 });
+        expect(first.snakes[0].queue).toEqual([LEFT]);
+        const second = step(first).state;
+        expect(second.snakes[0].body[0]).toEqual({ x: 9, y: 9 });
+        expect(second.snakes[0].queue).toEqual([]);
+    });
+
+    it('drops turns past the buffer and turns that would reverse the queued direction', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 3, RIGHT), RIGHT)] });
+        expect(step(s, { 1: [UP, DOWN] }).state.snakes[0].queue).toEqual([]);
+        expect(step(s, { 1: [UP, LEFT, DOWN] }).state.snakes[0].queue).toEqual([LEFT]);
+    });
+
+    it('only moves once the accumulated frame time reaches the interval', () => {
+        let s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 1, UP))] });
+        s = update(s, {}, START_MOVE_INTERVAL - 1).state;
+        expect(s.snakes[0].body[0]).toEqual({ x: 10, y: 10 });
+        s = update(s, {}, 1).state;
+        expect(s.snakes[0].body[0]).toEqual({ x: 10, y: 9 });
+        expect(s.moveTimer).toBe(0);
+    });
+
+    it('carries the leftover frame time into the next tick', () => {
+        let s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 1, UP))] });
+        s = update(s, {}, START_MOVE_INTERVAL * 1.5).state;
+        expect(s.tick).toBe(1);
+        expect(s.moveTimer).toBe(START_MOVE_INTERVAL / 2);
+        expect(tickProgress(s)).toBe(0.5);
+    });
+
+    it('keeps the same pace whatever the frame rate', () => {
+        const run = (frame: number) => {
+            let s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 1, UP))] });
+            for (let t = 0; t < 960; t += frame) s = update(s, {}, frame).state;
+            return s.tick;
+        };
+        expect(run(8)).toBe(8);
+        expect(run(16)).toBe(8);
+        expect(run(40)).toBe(8);
+    });
+
+    it('runs several ticks for a long frame, but only catches up so far', () => {
+        let s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 1, UP))] });
+        s = update(s, {}, START_MOVE_INTERVAL * 2).state;
+        expect(s.tick).toBe(2);
+        s = update(s, {}, START_MOVE_INTERVAL * (MAX_CATCH_UP_TICKS + 3)).state;
+        expect(s.tick).toBe(2 + MAX_CATCH_UP_TICKS);
+        expect(s.moveTimer).toBeLessThan(START_MOVE_INTERVAL);
+    });
+
+    it('does not mutate the state it was given', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 3, UP))] });
+        const before = structuredClone(s);
+        step(s, { 1: [LEFT] });
+        expect(s).toEqual(before);
+    });
+});
+
+describe('wrapping', () => {
+    it.each([
+        ['left', { x: 0, y: 5 }, LEFT, { x: COLS - 1, y: 5 }],
+        ['right', { x: COLS - 1, y: 5 }, RIGHT, { x: 0, y: 5 }],
+        ['top', { x: 5, y: 0 }, UP, { x: 5, y: ROWS - 1 }],
+        ['bottom', { x: 5, y: ROWS - 1 }, DOWN, { x: 5, y: 0 }]
+    ])('teleports across the %s edge', (_, head, dir, expected) => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake([head], dir)] });
+        const { state, events } = step(s);
+        expect(state.snakes[0].body[0]).toEqual(expected);
+        expect(events).toContainEqual({ type: 'wrapped', by: 1, x: head.x + dir.x, y: head.y + dir.y });
+    });
+});
+
+describe('collisions', () => {
+    it('kills a snake that runs into itself', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(coiledAt(10), UP, { queue: [LEFT] })] });
+        const { state, events } = step(s);
+        expect(state.over).toBe(true);
+        expect(events).toContainEqual({ type: 'died', player: 1 });
+    });
+
+    it('kills both snakes on a head-on collision in PVP', () => {
+        const s = makeState(GameMode.PVP, {
+            snakes: [makeSnake(line(11, 5, 3, LEFT), LEFT), makeSnake(line(9, 5, 3, RIGHT), RIGHT)]
+        });
+        const { state, events } = step(s);
+        expect(state.over).toBe(true);
+        expect(events).toContainEqual({ type: 'died', player: 1 });
+        expect(events).toContainEqual({ type: 'died', player: 2 });
+    });
+
+    it('kills only the snake that hits the other body in PVP', () => {
+        const s = makeState(GameMode.PVP, {
+            snakes: [makeSnake(line(10, 5, 3, UP), UP), makeSnake(line(9, 6, 3, RIGHT), RIGHT)]
+        });
+        const { events } = step(s);
+        expect(events.filter(e => e.type === 'died')).toEqual([{ type: 'died', player: 2 }]);
+    });
+});
+
+describe('powerups', () => {
+    it('GHOST only lets the snake that has it pass through itself', () => {
+        const s = makeState(GameMode.PVP, {
+            snakes: [ghostly(makeSnake(coiledAt(10), UP, { queue: [LEFT] })), makeSnake(coiledAt(20), UP, { queue: [LEFT] })],
+            config: resolveConfig({ win: WinCondition.TIMED })
+        });
+        const { state, events } = step(s);
+        expect(state.snakes[0].body[0]).toEqual({ x: 9, y: 10 });
+        expect(events.filter(e => e.type === 'died')).toEqual([{ type: 'died', player: 2 }]);
+    });
+
+    it('lets other snakes pass through a ghost', () => {
+        const s = makeState(GameMode.PVP, {
+            snakes: [ghostly(makeSnake(line(10, 5, 3, UP), UP)), makeSnake(line(9, 6, 3, RIGHT), RIGHT)]
+        });
+        const { state } = step(s);
+        expect(state.over).toBe(false);
+        expect(state.snakes[1].body[0]).toEqual({ x: 10, y: 6 });
+    });
+
+    it('GHOST counts down once per move of its snake, not per frame', () => {
+        let s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 1, UP))], powerups: [pickup(10, 9, PowerupType.GHOST)] });
+        s = step(s).state;
+        expect(s.snakes[0].effects).toEqual({ [PowerupType.GHOST]: GHOST_DURATION });
+        expect(s.eaten.powerups).toBe(1);
+        for (let i = 0; i < 10; i++) s = update(s, {}, 0).state;
+        expect(s.snakes[0].effects).toEqual({ [PowerupType.GHOST]: GHOST_DURATION });
+        for (let i = 0; i < GHOST_DURATION; i++) s = step(s).state;
+        expect(s.snakes[0].effects).toEqual({});
+    });
+
+    it('SPEED only speeds up the snake that picked it up', () => {
+        let s = makeState(GameMode.PVP, {
+            snakes: [makeSnake(line(25, 15, 3, UP), UP), makeSnake(line(5, 15, 3, UP), UP)],
+            powerups: [pickup(5, 14, PowerupType.SPEED)]
+        });
+        s = step(s).state;
+        expect(s.moveInterval).toBe(START_MOVE_INTERVAL / 2);
+        expect(snakeInterval(s, s.snakes[0])).toBe(START_MOVE_INTERVAL);
+        for (let i = 0; i < 4; i++) s = step(s).state;
+        expect(s.snakes[0].body[0]).toEqual({ x: 25, y: 12 });
+        expect(s.snakes[1].body[0]).toEqual({ x: 5, y: 10 });
+    });
+
+    it('SLOW in PVP slows every other snake instead', () => {
+        const s = makeState(GameMode.PVP, {
+            snakes: [makeSnake(line(25, 15, 3, UP), UP), makeSnake(line(5, 15, 3, UP), UP), makeSnake(line(15, 5, 3, UP), UP)],
+            players: 3,
+            powerups: [pickup(25, 14, PowerupType.SLOW)]
+        });
+        const { state } = step(s);
+        expect(state.snakes.map(sn => snakeInterval(state, sn))).toEqual([
+            START_MOVE_INTERVAL, START_MOVE_INTERVAL * 1.5, START_MOVE_INTERVAL * 1.5
+        ]);
+        expect(state.moveInterval).toBe(START_MOVE_INTERVAL);
+    });
+
+    it('SLOW in PVC slows the snake down, and SPEED cancels it', () => {
+        let s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 1, UP))], powerups: [pickup(10, 9, PowerupType.SLOW)] });
+        s = step(s).state;
+        expect(s.moveInterval).toBe(START_MOVE_INTERVAL * 1.5);
+        s = step({ ...s, powerups: [pickup(10, 8, PowerupType.SPEED)] }).state;
+        s = step(s).state;
+        expect(s.snakes[0].effects).toEqual({ [PowerupType.SPEED]: SPEED_BOOST_DURATION - 1 });
+        expect(s.moveInterval).toBe(START_MOVE_INTERVAL / 2);
+    });
+
+    it.each([
+        [10, 5],
+        [7, 3],
+        [5, 3],
+        [3, 3],
+        [2, 2]
+    ])('SHRINK halves a snake of length %i to %i', (length, expected) => {
+        // The pickup itself grows the snake by one, so start one short.
+        const s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 15, length - 1, UP))],
+            powerups: [pickup(10, 14, PowerupType.SHRINK)]
+        });
+        const { state } = step(s);
+        expect(state.snakes[0].body.length).toBe(expected);
+        expect(state.snakes[0].body[0]).toEqual({ x: 10, y: 14 });
+    });
+
+    it('SHRINK only affects the player who picked it up', () => {
+        const s = makeState(GameMode.PVP, {
+            snakes: [makeSnake(line(25, 15, 8, UP), UP), makeSnake(line(5, 15, 9, UP), UP)],
+            powerups: [pickup(5, 14, PowerupType.SHRINK)]
+        });
+        const { state } = step(s);
+        expect(state.snakes[0].body.length).toBe(8);
+        expect(state.snakes[1].body.length).toBe(5);
+    });
+
+    it('FREEZE stops every enemy for the freeze duration', () => {
+        const s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 10, 1, UP))],
+            powerups: [pickup(10, 9, PowerupType.FREEZE)],
+            enemies: [pacman(20, 5, { moveTick: 1 }), ghost(20, 15, { moveTick: 2 })]
+        });
+        let { state } = step(s);
+        expect(state.enemies.map(e => e.frozen)).toEqual([FREEZE_DURATION - 1, FREEZE_DURATION - 1]);
+        state = step(state).state;
+        expect(state.enemies.map(position)).toEqual([{ x: 20, y: 5 }, { x: 20, y: 15 }]);
+        expect(state.enemies[0].frozen).toBe(FREEZE_DURATION - 2);
+    });
+
+    it('MAGNET drags the food a cell towards the head after each move', () => {
+        let s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 15, 1, UP))],
+            powerups: [pickup(10, 14, PowerupType.MAGNET)],
+            food: [{ x: 20, y: 14 }]
+        });
+        s = step(s).state;
+        expect(s.food).toEqual([{ x: 19, y: 14 }]);
+        s = step(s).state;
+        expect(s.food).toEqual([{ x: 18, y: 14 }]);
+    });
+
+    it('SHIELD absorbs one lethal hit and leaves the snake where it was', () => {
+        let s = makeState(GameMode.PVC, {
+            snakes: [{ ...makeSnake(coiledAt(10), UP, { queue: [LEFT] }), effects: { [PowerupType.SHIELD]: SHIELD_DURATION } }]
+        });
+        const { state, events } = step(s);
+        expect(state.over).toBe(false);
+        expect(state.snakes[0].body).toEqual(coiledAt(10));
+        expect(state.snakes[0].effects).toEqual({});
+        expect(events).toContainEqual({ type: 'shielded', player: 1, at: { x: 10, y: 10 } });
+        s = step(state).state;
+        expect(s.over).toBe(true);
+    });
+
+    it('REVERSE turns the tail into the head, heading away from the body', () => {
+        const s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 15, 4, UP))],
+            powerups: [pickup(10, 14, PowerupType.REVERSE)]
+        });
+        let { state } = step(s);
+        expect(state.snakes[0].body[0]).toEqual({ x: 10, y: 18 });
+        expect(state.snakes[0].dir).toEqual(DOWN);
+        state = step(state).state;
+        expect(state.snakes[0].body[0]).toEqual({ x: 10, y: 19 });
+    });
+
+    it('TELEPORT lands the whole snake on one free cell, from where it unrolls', () => {
+        const s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 15, 4, UP))],
+            powerups: [pickup(10, 14, PowerupType.TELEPORT)]
+        });
+        let { state } = step(s);
+        const [head, ...rest] = state.snakes[0].body;
+        expect(rest).toHaveLength(4);
+        expect(rest.every(p => p.x === head.x && p.y === head.y)).toBe(true);
+        expect(state.food).not.toContainEqual(head);
+        state = step(state).state;
+        expect(state.snakes[0].body[1]).toEqual(head);
+        expect(state.snakes[0].body[0]).not.toEqual(head);
+    });
+
+    it('DOUBLE POINTS doubles everything the snake scores while it lasts', () => {
+        const s = makeState(GameMode.PVC, {
+            snakes: [{ ...makeSnake(line(10, 10, 2, UP)), effects: { [PowerupType.DOUBLE_POINTS]: DOUBLE_POINTS_DURATION } }],
+            food: [{ x: 10, y: 9 }]
+        });
+        expect(step(s).state.snakes[0].score).toBe(2);
+    });
+
+    it('registers every powerup, with spawn weights that leave room for none', () => {
+        for (const type of Object.values(PowerupType)) expect(POWERUPS[type].type).toBe(type);
+        const total = Object.values(POWERUPS).reduce((sum, def) => sum + def.weight, 0);
+        expect(total).toBeGreaterThan(0);
+        expect(total).toBeLessThan(1);
+    });
+});
+
+describe('pickups', () => {
+    it('keeps the configured number of food on the board', () => {
+        const s = { ...createGame(GameMode.PVC, 5, undefined, undefined, {}, { pickups: { food: 3 } }), enemies: [] };
+        expect(new Set(s.food.map(f => `${f.x},${f.y}`)).size).toBe(3);
+        const [first] = s.food;
+        const { state } = step({ ...s, snakes: [makeSnake([{ x: first.x, y: first.y + 1 }], UP)] });
+        expect(state.snakes[0].score).toBe(1);
+        expect(state.food).toHaveLength(3);
+        expect(state.food).not.toContainEqual(first);
+    });
+
+    it('blinks out a powerup nobody collects once its life runs out', () => {
+        let s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 1, UP))], powerups: [{ ...pickup(20, 5, PowerupType.SPEED), life: 2 }] });
+        s = step(s).state;
+        expect(s.powerups[0].life).toBe(1);
+        const { state, events } = step(s);
+        expect(state.powerups).toEqual([]);
+        expect(events).toContainEqual({ type: 'powerupExpired', powerup: PowerupType.SPEED, at: { x: 20, y: 5 } });
+    });
+
+    it('drops powerups in on a timer, up to the most the board holds', () => {
+        let s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 18, 1, UP))],
+            config: resolveConfig({ pickups: { food: 1, powerups: 2, powerupEvery: 3 } }),
+            powerupTimer: 3
+        });
+        for (let i = 0; i < 2; i++) s = step(s).state;
+        expect(s.powerups).toEqual([]);
+        s = step(s).state;
+        expect(s.powerups).toHaveLength(1);
+        expect(s.powerups[0].life).toBe(POWERUP_LIFETIME);
+        for (let i = 0; i < 6; i++) s = step(s).state;
+        expect(s.powerups).toHaveLength(2);
+    });
+});
+
+describe('scoring', () => {
+    it('awards 1 point for food, grows the snake and speeds up the game', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 2, UP))], food: [{ x: 10, y: 9 }] });
+        const { state, events } = step(s);
+        expect(state.snakes[0].score).toBe(1);
+        expect(state.snakes[0].body.length).toBe(3);
+        expect(state.baseMoveInterval).toBe(START_MOVE_INTERVAL - 1);
+        expect(state.food).not.toContainEqual({ x: 10, y: 9 });
+        expect(events).toContainEqual({ type: 'ateFood', by: 1, at: { x: 10, y: 9 } });
+    });
+
+    it('awards 5 points for a powerup', () => {
+        const s = makeState(GameMode.PVP, {
+            snakes: [makeSnake(line(25, 10, 1, UP), UP), makeSnake(line(5, 10, 1, UP), UP)],
+            powerups: [pickup(5, 9, PowerupType.SLOW)]
+        });
+        const { state } = step(s);
+        expect(state.snakes.map(snake => snake.score)).toEqual([0, 5]);
+        expect(state.powerups).toEqual([]);
+    });
+
+    it('awards Pacman a point when it reaches the food', () => {
+        const s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 18, 1, UP))],
+            enemies: [pacman(20, 5, { moveTick: 1 })],
+            food: [{ x: 21, y: 5 }]
+        });
+        const { state, events } = step(s);
+        expect(position(state.enemies[0])).toEqual({ x: 21, y: 5 });
+        expect(state.pacmanScore).toBe(1);
+        expect(events).toContainEqual({ type: 'ateFood', by: 'pacman', at: { x: 21, y: 5 } });
+    });
+});
+
+describe('enemies', () => {
+    it('kill the snake when they are not frozen, and are named as the killer', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 1, UP))], enemies: [pacman(10, 9)] });
+        const { state, events } = step(s);
+        expect(state.over).toBe(true);
+        expect(events).toContainEqual({ type: 'died', player: 1, killer: 'PACMAN' });
+    });
+
+    it('eats a frozen Pacman, which respawns away from the snake, food and powerup', () => {
+        const s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 10, 4, UP))],
+            enemies: [pacman(10, 9, { frozen: 50 })],
+            powerups: [pickup(3, 3, PowerupType.SPEED)]
+        });
+        const { state, events } = step(s);
+        expect(state.over).toBe(false);
+        expect(state.snakes[0].score).toBe(5 + 1); // and a quick-kill point, with a third of its freeze left
+        expect(state.enemies[0].frozen).toBe(0);
+        expect(state.snakes[0].body.length).toBe(5);
+        expect(events).toContainEqual({ type: 'ateEnemy', by: 1, kind: EnemyKind.PACMAN, name: 'PACMAN', at: { x: 10, y: 9 } });
+
+        const occupied = [...s.snakes[0].body, ...s.food, ...s.powerups];
+        expect(occupied).not.toContainEqual(position(state.enemies[0]));
+    });
+
+    it('respawns Pacman in the same place for the same seed', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 4, UP))], enemies: [pacman(10, 9, { frozen: 50 })] });
+        expect(step(s).state.enemies).toEqual(step(s).state.enemies);
+    });
+
+    it('keeps an eaten ghost off the board until its respawn timer runs out', () => {
+        const eaten = step(makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 4, UP))], enemies: [ghost(10, 9, { frozen: 50 })] }));
+        let state = eaten.state;
+        expect(state.snakes[0].score).toBe(GHOST_POINTS);
+        // The countdown starts on the tick it was eaten
+        expect(state.enemies[0].respawn).toBe(GHOST_RESPAWN_TICKS - 1);
+        expect(eaten.events).toContainEqual({ type: 'ateEnemy', by: 1, kind: EnemyKind.GHOST, name: 'BLINKY', at: { x: 10, y: 9 } });
+
+        for (let i = 0; i < GHOST_RESPAWN_TICKS - 2; i++) state = step(state).state;
+        expect(state.enemies[0].respawn).toBe(1);
+        const last = step(state);
+        expect(last.state.enemies[0].respawn).toBe(0);
+        expect(last.events.map(e => e.type)).toContain('enemySpawned');
+    });
+
+    it('lets a ghost catch a Pacman, sending it back to respawn', () => {
+        const s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(2, 18, 1, UP))],
+            enemies: [pacman(15, 5), ghost(14, 5, { moveTick: 2 })]
+        });
+        const { state, events } = step(s);
+        expect(events).toContainEqual({ type: 'caught', name: 'PACMAN', by: 'BLINKY', at: { x: 15, y: 5 } });
+        expect(position(state.enemies[0])).not.toEqual({ x: 15, y: 5 });
+        expect(position(state.enemies[1])).toEqual({ x: 15, y: 5 });
+    });
+
+    it('brings in new enemies as the score passes each wave threshold', () => {
+        let s = createGame(GameMode.PVC, 42);
+        expect(s.enemies.map(e => e.name)).toEqual(['PACMAN']);
+        s = { ...s, snakes: [makeSnake(line(10, 10, 2, UP))], food: [{ x: 10, y: 9 }], powerups: [] };
+        s.snakes[0].score = 24;
+        const { state, events } = step(s);
+        expect(state.enemies.map(e => e.name)).toEqual(['PACMAN', 'BLINKY', 'MS PACMAN']);
+        expect(state.wave).toBe(3);
+        expect(events.filter(e => e.type === 'enemySpawned')).toHaveLength(2);
+        for (const e of state.enemies.slice(1)) {
+            expect(Math.abs(e.x - 10) + Math.abs(e.y - 10)).toBeGreaterThanOrEqual(ENEMY_SPAWN_DISTANCE);
+        }
+    });
+});
+
+describe('party', () => {
+    const party = (players: number, win: WinCondition, snakes: Snake[]): GameState => ({
+        ...createGame(GameMode.PVP, 42, undefined, undefined, { players }, { win }),
+        food: [{ x: COLS - 1, y: ROWS - 1 }],
+        powerups: [],
+        snakes
+    });
+
+    it('starts up to four snakes on separate cells', () => {
+        const s = createGame(GameMode.PVP, 42, undefined, undefined, { players: 4 });
+        const heads = s.snakes.map(snake => `${snake.body[0].x},${snake.body[0].y}`);
+        expect(new Set(heads).size).toBe(4);
+        expect(createGame(GameMode.PVP, 42, undefined, undefined, { players: 9 }).snakes).toHaveLength(4);
+        expect(createGame(GameMode.PVC, 42, undefined, undefined, { players: 4 }).snakes).toHaveLength(1);
+    });
+
+    it('keeps a last-snake-standing match going until one snake is left', () => {
+        let s = party(4, WinCondition.LAST_STANDING, [
+            makeSnake(coiledAt(5), UP, { queue: [LEFT] }),
+            makeSnake(line(12, 10, 3, UP)),
+            makeSnake(coiledAt(19), UP, { queue: [LEFT] }),
+            makeSnake(line(26, 10, 3, UP))
+        ]);
+        const first = step(s);
+        expect(first.state.over).toBe(false);
+        expect(first.state.snakes.map(snake => snake.diedAt)).toEqual([1, null, 1, null]);
+        expect(first.events.filter(e => e.type === 'died').map(e => e.type === 'died' && e.player)).toEqual([1, 3]);
+
+        s = first.state;
+        s.snakes[3] = makeSnake(coiledAt(26), UP, { queue: [LEFT] });
+        const { state } = step(s);
+        expect(state.over).toBe(true);
+        expect(ranking(state).map(r => r.player)).toEqual([2, 4, 1, 3]);
+        expect(winner(state)).toBe(2);
+    });
+
+    it('kills two snakes that meet head-on while the rest play on', () => {
+        const s = party(3, WinCondition.LAST_STANDING, [
+            makeSnake(line(11, 5, 3, LEFT), LEFT),
+            makeSnake(line(20, 15, 3, UP)),
+            makeSnake(line(9, 5, 3, RIGHT), RIGHT)
+        ]);
+        const { state } = step(s);
+        expect(state.snakes.map(snake => snake.diedAt)).toEqual([1, null, 1]);
+        expect(state.over).toBe(true);
+        expect(winner(state)).toBe(2);
+    });
+
+    it('lets dead snakes stop blocking the board', () => {
+        const s = party(3, WinCondition.LAST_STANDING, [
+            { ...makeSnake(line(10, 5, 3, RIGHT), RIGHT), diedAt: 0 },
+            makeSnake(line(9, 7, 3, UP)),
+            makeSnake(line(20, 15, 3, UP))
+        ]);
+        const { state } = step(s);
+        expect(state.snakes[1].diedAt).toBeNull();
+        expect(state.snakes[1].body[0]).toEqual({ x: 9, y: 6 });
+    });
+
+    it('ends a timed match on the clock and ranks by score', () => {
+        let s = party(4, WinCondition.TIMED, [
+            makeSnake(line(5, 10, 3, UP)),
+            makeSnake(line(10, 10, 3, UP)),
+            makeSnake(line(15, 10, 3, UP)),
+            makeSnake(coiledAt(25), UP, { queue: [LEFT] })
+        ]);
+        s.snakes[1].score = 3;
+        s.snakes[2].score = 7;
+        expect(s.config.timeLimit).toBe(PARTY_TIME_LIMIT);
+        s.elapsed = PARTY_TIME_LIMIT - s.moveInterval - 1;
+
+        s = step(s).state;
+        expect(s.over).toBe(false);
+        expect(s.snakes[3].diedAt).toBe(1);
+        const last = step(s);
+        s = last.state;
+        expect(s.over).toBe(true);
+        expect(last.events).toEqual([{ type: 'matchOver' }]);
+        expect(ranking(s).map(r => r.player)).toEqual([3, 2, 1, 4]);
+        expect(winner(s)).toBe(3);
+    });
+
+    it('calls a draw when the leaders are level', () => {
+        const s = party(2, WinCondition.TIMED, [makeSnake(line(5, 10, 3, UP)), makeSnake(line(10, 10, 3, UP))]);
+        s.elapsed = PARTY_TIME_LIMIT;
+        expect(winner(step(s).state)).toBeNull();
+    });
+});
+
+describe('match rules', () => {
+    it('takes its speed and score values from the config', () => {
+        const s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 10, 3, UP))],
+            food: [{ x: 10, y: 9 }],
+            config: resolveConfig({ startInterval: 100, minInterval: 95, acceleration: 8, points: { food: 3, powerup: 5, pacman: 5, ghost: 10 } }),
+            baseMoveInterval: 100
+        });
+        const { state } = step(s);
+        expect(state.snakes[0].score).toBe(3);
+        expect(state.baseMoveInterval).toBe(95);
+    });
+
+    it('only drops the powerups the config allows', () => {
+        let s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 18, 1, UP))],
+            config: resolveConfig({ powerups: [PowerupType.SHIELD], pickups: { powerups: 3, powerupEvery: 1 } }),
+            powerupTimer: 1
+        });
+        for (let i = 0; i < 3; i++) s = step(s).state;
+        expect(s.powerups.map(p => p.type)).toEqual([PowerupType.SHIELD, PowerupType.SHIELD, PowerupType.SHIELD]);
+
+        s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 18, 1, UP))],
+            config: resolveConfig({ powerups: [], pickups: { powerupEvery: 1 } }),
+            powerupTimer: 1
+        });
+        for (let i = 0; i < 3; i++) s = step(s).state;
+        expect(s.powerups).toEqual([]);
+    });
+
+    it('plays on a solid-edged arena of the configured size without wrap', () => {
+        const s = createGame(GameMode.PVC, 42, undefined, undefined, {}, { board: { cols: 16, rows: 12, wrap: false } });
+        expect([s.cols, s.rows]).toEqual([16, 12]);
+        const { state } = step({ ...s, enemies: [], snakes: [makeSnake([{ x: 0, y: 5 }, { x: 1, y: 5 }], LEFT)] });
+        expect(state.over).toBe(true);
+    });
+
+    it('ends a first-to match as soon as a snake reaches the target', () => {
+        const s = makeState(GameMode.PVP, {
+            snakes: [makeSnake(line(5, 10, 3, UP)), makeSnake(line(10, 10, 3, UP))],
+            food: [{ x: 10, y: 9 }],
+            config: resolveConfig({ win: WinCondition.FIRST_TO, targetScore: 5 })
+        });
+        s.snakes[0].score = 4;
+        s.snakes[1].score = 4;
+        const { state, events } = step(s);
+        expect(state.over).toBe(true);
+        expect(winner(state)).toBe(2);
+        expect(events.at(-1)).toEqual({ type: 'matchOver' });
+    });
+
+    it('ends a first-to party match on a tick with nothing else in it', () => {
+        const s = makeState(GameMode.PVP, {
+            snakes: [makeSnake(line(5, 10, 3, UP)), makeSnake(line(10, 10, 3, UP))],
+            config: resolveConfig({ win: WinCondition.FIRST_TO, targetScore: 5 })
+        });
+        s.snakes[0].score = 5;
+        const { state, events } = step(s);
+        expect(state.over).toBe(true);
+        expect(events).toEqual([{ type: 'matchOver' }]);
+        expect(winner(state)).toBe(1);
+    });
+
+    it('stops a PVC match on the clock when the config sets one', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(line(10, 10, 3, UP))], config: resolveConfig({ win: WinCondition.TIMED }) });
+        s.elapsed = PARTY_TIME_LIMIT - 1;
+        expect(step(s).state.over).toBe(true);
+    });
+
+    it('only lets in as many enemy waves as the config allows', () => {
+        expect(createGame(GameMode.PVC, 42, undefined, undefined, {}, { waves: 0 }).enemies).toEqual([]);
+
+        const s = createGame(GameMode.PVC, 42, undefined, undefined, {}, { waves: 2 });
+        const { state } = step({ ...s, snakes: [{ ...makeSnake(line(10, 10, 2, UP)), score: 99 }], food: [], powerups: [] });
+        expect(state.enemies.map(e => e.name)).toEqual(['PACMAN', 'BLINKY']);
+    });
+
+    it('ends the match, snake alive, once the objective is met', () => {
+        const s = makeState(GameMode.PVC, {
+            snakes: [makeSnake(line(10, 10, 3, UP))],
+            food: [{ x: 10, y: 9 }],
+            config: resolveConfig({ objective: { kind: ObjectiveKind.FOOD, target: 2 } })
+        });
+        s.eaten.food = 1;
+        const { state } = step(s);
+        expect(state.eaten.food).toBe(2);
+        expect(state.over).toBe(true);
+        expect(state.snakes[0].diedAt).toBeNull();
+    });
+});
+
+describe('modes', () => {
+    it('plays CLASSIC alone on a walled arena with nothing but food', () => {
+        const s = createGame(GameMode.CLASSIC, 42, undefined, undefined, {}, { pickups: { powerups: 3 } });
+        expect(s.enemies).toEqual([]);
+        expect(s.config.powerups).toEqual([]);
+        expect(s.config.pickups.powerups).toBe(0);
+        const { state } = step({ ...s, snakes: [makeSnake([{ x: 0, y: 5 }, { x: 1, y: 5 }], LEFT)] });
+        expect(state.over).toBe(true);
+    });
+
+    it('ends TIME ATTACK when its two minutes are up, even on a tick where nothing else happens', () => {
+        const s = makeState(GameMode.TIME_ATTACK, { snakes: [makeSnake(line(10, 10, 3, UP))] });
+        expect(s.config.win).toBe(WinCondition.TIMED);
+        s.elapsed = TIME_ATTACK_LIMIT - 1;
+        const { state, events } = step(s);
+        expect(state.over).toBe(true);
+        expect(events).toEqual([{ type: 'matchOver' }]);
+    });
+
+    it('raises SURVIVAL obstacles on a timer, away from the snake', () => {
+        let s = makeState(GameMode.SURVIVAL, { snakes: [makeSnake(line(10, 10, 3, RIGHT), RIGHT)] });
+        const walls = (state: GameState) => state.level.map.join('').split('#').length - 1;
+        const obstacles: Point[] = [];
+        for (let i = 0; i < SURVIVAL_OBSTACLE_INTERVAL; i++) {
+            const { state, events } = step(s);
+            s = state;
+            events.forEach(e => { if (e.type === 'obstacle') obstacles.push(e.at); });
+        }
+        expect(obstacles).toHaveLength(1);
+        expect(walls(s)).toBe(1);
+        expect(isWall(s.level, obstacles[0])).toBe(true);
+        const head = s.snakes[0].body[0];
+        expect(Math.abs(obstacles[0].x - head.x) + Math.abs(obstacles[0].y - head.y)).toBeGreaterThanOrEqual(SURVIVAL_SAFE_DISTANCE);
+    });
+
+    it('lets nothing kill the snake in ZEN; it waits until steered clear', () => {
+        const s = makeState(GameMode.ZEN, { snakes: [makeSnake(coiledAt(10), UP, { queue: [LEFT] })] });
+        const { state, events } = step(s);
+        expect(state.over).toBe(false);
+        expect(events.filter(e => e.type === 'died')).toEqual([]);
+        expect(state.snakes[0].body).toEqual(coiledAt(10));
+        expect(step(state, { 1: [UP] }).state.snakes[0].body[0]).toEqual({ x: 10, y: 9 });
+    });
+
+    it('ends a ZEN run once the snake fills the board', () => {
+        const corridor = parseLevel(`
+########
+#...####
+########
+########
+########
+########
+########
+########
+`);
+        const s = makeState(GameMode.ZEN, { ...levelFields(corridor), snakes: [makeSnake(line(2, 1, 2, LEFT), LEFT)], food: [{ x: 1, y: 1 }] });
+        expect(placeItem(s, [...s.snakes[0].body, ...s.food])).toBeNull();
+        const { state } = step(s);
+        expect(state.snakes[0].body).toHaveLength(3);
+        expect(state.food).toEqual([]);
+        expect(state.over).toBe(true);
+    });
+});
+
+describe('determinism', () => {
+    it('produces identical matches from identical seeds and inputs', () => {
+        const inputs = [{}, { 1: [LEFT] }, {}, { 1: [DOWN] }, {}, {}, { 1: [RIGHT] }];
+        const run = (seed: number) => {
+            let s = createGame(GameMode.PVC, seed);
+            for (let i = 0; i < 60 && !s.over; i++) s = step(s, inputs[i % inputs.length]).state;
+            return s;
+        };
+        expect(run(7)).toEqual(run(7));
+        expect(createGame(GameMode.PVC, 7).food).toEqual(createGame(GameMode.PVC, 7).food);
+    });
+});
+
+describe('walls', () => {
+    const walled = parseLevel(`
+##########
+#........#
+#........#
+T........T
+#...##...#
+#........#
+#........#
+#........#
+#........#
+##########
+`);
+
+    it('kills a snake that runs into a wall, even as a ghost', () => {
+        const s = makeState(GameMode.PVC, { ...levelFields(walled), snakes: [ghostly(makeSnake(line(4, 5, 1, UP)))] });
+        const { state, events } = step(s);
+        expect(state.over).toBe(true);
+        expect(events).toContainEqual({ type: 'died', player: 1 });
+    });
+
+    it('treats the board edge as solid outside tunnels', () => {
+        const s = makeState(GameMode.PVC, { ...levelFields(walled), snakes: [makeSnake([{ x: 0, y: 3 }, { x: 1, y: 3 }], LEFT, { queue: [UP] })] });
+        expect(step(s).state.over).toBe(true);
+    });
+
+    it('wraps through tunnel cells', () => {
+        const s = makeState(GameMode.PVC, { ...levelFields(walled), snakes: [makeSnake([{ x: 0, y: 3 }, { x: 1, y: 3 }], LEFT)] });
+        const { state, events } = step(s);
+        expect(state.snakes[0].body[0]).toEqual({ x: 9, y: 3 });
+        expect(events).toContainEqual({ type: 'wrapped', by: 1, x: -1, y: 3 });
+    });
+
+    it('never places food on a wall', () => {
+        let state: GameState = { ...createGame(GameMode.PVC, 3, walled), enemies: [] };
+        for (let i = 0; i < 50; i++) {
+            state = step({ ...state, snakes: [makeSnake([{ x: state.food[0].x, y: state.food[0].y + 1 }], UP)] }).state;
+            expect(isWall(walled, state.food[0])).toBe(false);
+        }
+    });
+
+    it('keeps Pacman out of walls', () => {
+        const s = makeState(GameMode.PVC, {
+            ...levelFields(walled),
+            snakes: [makeSnake(line(1, 8, 1, UP))],
+            enemies: [pacman(4, 3, { moveTick: 1 })],
+            food: [{ x: 4, y: 6 }]
+        });
+        const [moved] = step(s).state.enemies;
+        expect(moved.y).toBe(3);
+        expect([3, 5]).toContain(moved.x);
+    });
+});
@@ -0,0 +1,649 @@
+import {
+    Difficulty, Enemy, EnemyKind, GameEvent, GameMode, GameState, Level, ObjectiveKind, PacmanPersonality,
+    PartySettings, PlayerId, PlayerInput, Point, PowerupType, ScoreSource, Snake, WinCondition
+} from '../types';
+import {
+    MAX_CATCH_UP_TICKS, MIN_SNAKE_INTERVAL, MAX_SNAKE_INTERVAL,
+    GHOST_CADENCE, GHOST_RESPAWN_TICKS, ENEMY_SPAWN_DISTANCE,
+    MAX_PLAYERS, TURN_BUFFER, POWERUP_LIFETIME
+} from './constants';
+import { nextRandom } from './rng';
+import { isWall, levelSize, levelSpawns } from './levels';
+import { ConfigOverrides, configArena } from './config';
+import { MODES, modeConfig } from './modes';
+import { checkCollision, moveFrom } from './grid';
+import { DIFFICULTY_SETTINGS, chooseFleeStep, chooseGhostStep, choosePacmanStep } from './ai';
+import { WAVES } from './enemies';
+import { POWERUPS } from './powerups';
+import { emptyBreakdown, scoreEnemy, scoreFood, scoreNearMisses, scorePoints } from './scoring';
+
+export { wrap, checkCollision, moveFrom } from './grid';
+
+export type UpdateResult = {
+    state: GameState;
+    events: GameEvent[];
+};
+
+export type Standing = {
+    player: PlayerId;
+    score: number;
+    alive: boolean;
+};
+
+// --- Helpers ---
+
+// A snake may only turn 90 degrees; reversing or repeating its heading is ignored.
+export const isValidTurn = (current: Point, next: Point) =>
+    (next.x !== 0 && current.x === 0) || (next.y !== 0 && current.y === 0);
+
+/**
+ * Which of `turns` would join the snake's queue: each must be a valid turn from the one
+ * queued before it, and at most TURN_BUFFER wait at once. Queuing lets a quick up-then-left
+ * from heading right play out as two moves instead of the second press being lost.
+ */
+export const acceptedTurns = (snake: Snake, turns: Point[]): Point[] => {
+    const accepted: Point[] = [];
+    let last = snake.queue[snake.queue.length - 1] ?? snake.dir;
+    for (const turn of turns) {
+        if (snake.queue.length + accepted.length >= TURN_BUFFER) break;
+        if (!isValidTurn(last, turn)) continue;
+        accepted.push({ ...turn });
+        last = turn;
+    }
+    return accepted;
+};
+
+const random = (s: GameState) => {
+    const r = nextRandom(s.rng);
+    s.rng = r.state;
+    return r.value;
+};
+
+// Every cell that isn't wall or in `exclude`.
+const freeCells = (s: GameState, exclude: Point[]): Point[] => {
+    const taken = new Set(exclude.map(p => `${p.x},${p.y}`));
+    const free: Point[] = [];
+    for (let y = 0; y < s.rows; y++) {
+        for (let x = 0; x < s.cols; x++) {
+            if (!taken.has(`${x},${y}`) && !isWall(s.level, { x, y })) free.push({ x, y });
+        }
+    }
+    return free;
+};
+
+// A random free cell, or null once the board is full.
+export const placeItem = (s: GameState, exclude: Point[]): Point | null => {
+    if (freeCells(s, exclude).length === 0) return null;
+    let p: Point;
+    let valid = false;
+    while (!valid) {
+        p = {
+            x: Math.floor(random(s) * s.cols),
+            y: Math.floor(random(s) * s.rows)
+        };
+        valid = !checkCollision(p, exclude) && !isWall(s.level, p);
+    }
+    return p!;
+};
+
+// The powerups this match's rules let turn up, in registry order.
+const enabledPowerups = (s: GameState) => Object.values(POWERUPS).filter(def => s.config.powerups.includes(def.type));
+
+// Picks a powerup by weight. Each weight is that powerup's own chance of turning up after
+// a bite of food, so rolling out of 1 can come up empty; rolling out of the weights' total
+// always picks one. Powerups switched off in the config never come up.
+const choosePowerup = (s: GameState, outOf: number): PowerupType | null => {
+    const enabled = enabledPowerups(s);
+    if (enabled.length === 0) return null;
+    let r = random(s) * outOf;
+    for (const def of enabled) {
+        if (r < def.weight) return def.type;
+        r -= def.weight;
+    }
+    return null;
+};
+
+const totalWeight = (s: GameState) => enabledPowerups(s).reduce((sum, def) => sum + def.weight, 0);
+
+// --- Pickups ---
+
+// Everything food and powerups can't be dropped on.
+const occupiedCells = (s: GameState): Point[] => [...snakeCells(s), ...s.food, ...s.powerups];
+
+const isAt = (p: Point) => (q: Point) => p.x === q.x && p.y === q.y;
+
+// Replaces the food at `index` with a new one somewhere free. Once the snakes have filled
+// the board and the last food is gone, the match is over.
+const replaceFood = (s: GameState, index: number, exclude: Point[]) => {
+    s.food.splice(index, 1);
+    const p = placeItem(s, [...exclude, ...s.food, ...s.powerups]);
+    if (p) s.food.push(p);
+    else if (s.food.length === 0) s.over = true;
+};
+
+const dropPowerup = (s: GameState, type: PowerupType | null) => {
+    const p = type && placeItem(s, occupiedCells(s));
+    if (p) s.powerups.push({ ...p, type: type!, life: POWERUP_LIFETIME });
+};
+
+// Ages the powerups on the board, clears out the ones that have run out and drops a new
+// one in whenever the timer comes round.
+const pickupTick = (s: GameState, events: GameEvent[]) => {
+    for (const p of s.powerups) {
+        if (--p.life <= 0) events.push({ type: 'powerupExpired', powerup: p.type, at: { x: p.x, y: p.y } });
+    }
+    s.powerups = s.powerups.filter(p => p.life > 0);
+
+    const { pickups } = s.config;
+    if (pickups.powerupEvery > 0 && --s.powerupTimer <= 0) {
+        s.powerupTimer = pickups.powerupEvery;
+        if (s.powerups.length < pickups.powerups) dropPowerup(s, choosePowerup(s, totalWeight(s)));
+    }
+};
+
+// --- Snakes ---
+
+export const isAlive = (snake: Snake) => snake.diedAt === null;
+
+export const livingSnakes = (s: GameState) => s.snakes.filter(isAlive);
+
+// Every cell a living snake occupies. Dead snakes are drawn but no longer block anything.
+export const snakeCells = (s: GameState): Point[] => livingSnakes(s).flatMap(snake => snake.body);
+
+export const hasEffect = (snake: Snake, type: PowerupType) => (snake.effects[type] ?? 0) > 0;
+
+/**
+ * How long one snake takes per move: the shared base interval, scaled by the pace of its
+ * own SPEED or SLOW (never both; see changePace in powerups.ts). Each tick lasts as long
+ * as the fastest living snake's interval; slower snakes bank the time and move once they
+ * have waited out their own, so a boost only ever changes the pace of the snake it's on.
+ */
+export const snakeInterval = (s: GameState, snake: Snake) => {
+    const paced = (Object.keys(snake.effects) as PowerupType[]).find(type => POWERUPS[type].pace !== undefined);
+    if (!paced) return s.baseMoveInterval;
+    return Math.min(MAX_SNAKE_INTERVAL, Math.max(MIN_SNAKE_INTERVAL, s.baseMoveInterval * POWERUPS[paced].pace!));
+};
+
+const tickInterval = (s: GameState) => {
+    const living = livingSnakes(s);
+    return living.length > 0 ? Math.min(...living.map(snake => snakeInterval(s, snake))) : s.baseMoveInterval;
+};
+
+/**
+ * Final standings, best first. Last snake standing ranks survivors first, then whoever
+ * died later, with score breaking ties; timed and first-to matches rank by score, then
+ * survival. PVC matches have a single entry.
+ */
+export const ranking = (s: GameState): Standing[] => {
+    const survival = (snake: Snake) => snake.diedAt ?? Infinity;
+    return s.snakes
+        .map((snake, i) => ({ snake, player: (i + 1) as PlayerId }))
+        .sort((a, b) => {
+            const bySurvival = survival(b.snake) - survival(a.snake);
+            const byScore = b.snake.score - a.snake.score;
+            if (s.config.win === WinCondition.LAST_STANDING) return bySurvival || byScore;
+            return byScore || bySurvival;
+        })
+        .map(({ snake, player }) => ({ player, score: snake.score, alive: isAlive(snake) }));
+};
+
+// The winning player, or null for a draw (or while the match is still running).
+// The last snakes to go down together draw however many points they had, while a
+// scored match is only drawn when the leaders are level on both score and survival.
+export const winner = (s: GameState): PlayerId | null => {
+    if (!s.over || !MODES[s.mode].party) return null;
+    const [first, second] = ranking(s);
+    const tied = second
+        && s.snakes[first.player - 1].diedAt === s.snakes[second.player - 1].diedAt
+        && (s.config.win === WinCondition.LAST_STANDING || first.score === second.score);
+    return tied ? null : first.player;
+};
+
+// --- Enemies ---
+
+// Eaten ghosts wait off the board until their respawn timer runs out.
+export const isActive = (e: Enemy) => e.respawn === 0;
+
+// A free cell at least ENEMY_SPAWN_DISTANCE steps from the snake's head, or null if there's none.
+const placeEnemy = (s: GameState): Point | null => {
+    const head = s.snakes[0].body[0];
+    const exclude: Point[] = [...s.snakes[0].body, ...s.food, ...s.powerups, ...s.enemies.filter(isActive)];
+    const far = (p: Point) => Math.abs(p.x - head.x) + Math.abs(p.y - head.y) >= ENEMY_SPAWN_DISTANCE;
+    if (!freeCells(s, exclude).some(far)) return null;
+    let p: Point;
+    do {
+        p = placeItem(s, exclude)!;
+    } while (!far(p));
+    return p;
+};
+
+// Brings in the next enemy from the wave table. The first Pacman uses the level's spawn if it has one.
+// A board with no room for it holds the wave back.
+const spawnNextWave = (s: GameState): Enemy | null => {
+    const wave = WAVES[s.wave];
+    const p = (s.wave === 0 ? levelSpawns(s.level).pacman : undefined) ?? placeEnemy(s);
+    if (!p) return null;
+    const enemy: Enemy = {
+        id: s.wave,
+        kind: wave.kind,
+        name: wave.name,
+        personality: wave.personality ?? DIFFICULTY_SETTINGS[s.difficulty].personality,
+        x: p.x,
+        y: p.y,
+        frozen: 0,
+        moveTick: 0,
+        respawn: 0
+    };
+    s.enemies.push(enemy);
+    s.wave++;
+    return enemy;
+};
+
+// With nowhere to go, the enemy sits out like an eaten ghost and tries again later.
+const respawnEnemy = (s: GameState, e: Enemy) => {
+    const p = placeEnemy(s);
+    if (!p) {
+        e.respawn = GHOST_RESPAWN_TICKS;
+        return;
+    }
+    e.x = p.x;
+    e.y = p.y;
+    e.frozen = 0;
+    e.moveTick = 0;
+};
+
+const enemyCadence = (s: GameState, e: Enemy) =>
+    e.kind === EnemyKind.GHOST ? GHOST_CADENCE : DIFFICULTY_SETTINGS[s.difficulty].cadence;
+
+// --- Setup ---
+
+// Where snakes start on a level without spawn markers: P1 and P2 facing off across the
+// middle as in the classic game, P3 and P4 below and above them.
+const fallbackSpawn = (mode: GameMode, player: number, cols: number, rows: number): Point => {
+    if (!MODES[mode].party) return { x: Math.floor(cols / 2), y: Math.floor(rows / 2) };
+    return [
+        { x: Math.floor(cols * 0.75), y: Math.floor(rows / 2) },
+        { x: Math.floor(cols * 0.25), y: Math.floor(rows / 2) },
+        { x: Math.floor(cols / 2), y: Math.floor(rows * 0.75) },
+        { x: Math.floor(cols / 2), y: Math.floor(rows * 0.25) }
+    ][player - 1];
+};
+
+const newSnake = (head: Point): Snake => ({
+    body: [head],
+    dir: { x: 0, y: -1 },
+    queue: [],
+    score: 0,
+    diedAt: null,
+    effects: {},
+    moveTimer: 0,
+    points: emptyBreakdown(),
+    combo: { count: 0, at: 0 },
+    nearMissAt: null
+});
+
+/**
+ * Sets up a match. PVP takes 2-4 players (default 2); every other mode is one snake. Rules
+ * the config leaves out are the classic ones (see DEFAULT_CONFIG), the mode's own rules
+ * win over both, and without a level the match is played on the config's open arena.
+ */
+export const createGame = (
+    mode: GameMode,
+    seed: number,
+    level?: Level,
+    difficulty: Difficulty = Difficulty.NORMAL,
+    party: Partial<PartySettings> = {},
+    rules: ConfigOverrides = {}
+): GameState => {
+    const config = modeConfig(mode, rules);
+    level ??= configArena(config);
+    const { cols, rows } = levelSize(level);
+    const players = MODES[mode].party ? Math.min(MAX_PLAYERS, Math.max(2, party.players ?? 2)) : 1;
+    const s: GameState = {
+        mode,
+        difficulty,
+        level,
+        cols,
+        rows,
+        rng: seed >>> 0,
+        tick: 0,
+        over: false,
+        players,
+        config,
+        elapsed: 0,
+        moveTimer: 0,
+        moveInterval: config.startInterval,
+        baseMoveInterval: config.startInterval,
+        snakes: [],
+        pacmanScore: 0,
+        food: [],
+        powerups: [],
+        powerupTimer: config.pickups.powerupEvery,
+        enemies: [],
+        wave: 0,
+        eaten: { food: 0, pacman: 0, ghosts: 0, powerups: 0 }
+    };
+
+    const spawns = levelSpawns(level);
+    const marked = [spawns.p1, spawns.p2, spawns.p3, spawns.p4];
+    for (let player = 1; player <= players; player++) {
+        s.snakes.push(newSnake(marked[player - 1] ?? fallbackSpawn(mode, player, cols, rows)));
+    }
+
+    // Place Food
+    while (s.food.length < config.pickups.food) {
+        const p = placeItem(s, [...occupiedCells(s), ...(spawns.pacman ? [spawns.pacman] : [])]);
+        if (!p) break;
+        s.food.push(p);
+    }
+
+    // First Pacman
+    if (MODES[mode].enemies && config.waves > 0) spawnNextWave(s);
+    return s;
+};
+
+// --- Simulation ---
+
+const applyInput = (s: GameState, input: PlayerInput) => {
+    s.snakes.forEach((snake, i) => {
+        const turns = input[(i + 1) as PlayerId];
+        if (turns && isAlive(snake)) snake.queue.push(...acceptedTurns(snake, turns));
+    });
+};
+
+const increaseSpeed = (s: GameState) => {
+    s.baseMoveInterval = Math.max(s.config.minInterval, s.baseMoveInterval - s.config.acceleration);
+};
+
+// Counts down a snake's effects by one of its moves.
+const wearOff = (s: GameState, player: PlayerId) => {
+    const snake = s.snakes[player - 1];
+    for (const type of Object.keys(snake.effects) as PowerupType[]) {
+        const left = snake.effects[type]! - 1;
+        if (left > 0) {
+            snake.effects[type] = left;
+        } else {
+            delete snake.effects[type];
+            POWERUPS[type].expire?.(s, player);
+        }
+    }
+};
+
+// Eats or dies against whatever enemies sit on `head`. Returns whether one was eaten
+// and the name of the first one that killed the snake, if any.
+const meetEnemies = (s: GameState, player: PlayerId, head: Point, events: GameEvent[]) => {
+    let ate = false;
+    let killer: string | undefined;
+    for (const e of s.enemies) {
+        if (!isActive(e) || head.x !== e.x || head.y !== e.y) continue;
+        if (e.frozen > 0) {
+            const ghost = e.kind === EnemyKind.GHOST;
+            scoreEnemy(s, player, e, head, events);
+            s.eaten[ghost ? 'ghosts' : 'pacman']++;
+            events.push({ type: 'ateEnemy', by: player, kind: e.kind, name: e.name, at: { ...head } });
+            ate = true;
+
+            // Pacmen come straight back elsewhere; ghosts sit out for a while
+            if (ghost) {
+                e.frozen = 0;
+                e.respawn = GHOST_RESPAWN_TICKS;
+            } else {
+                respawnEnemy(s, e);
+            }
+        } else {
+            killer ??= e.name;
+        }
+    }
+    return { ate, killer };
+};
+
+// Grows onto `head` and collects whatever is there. A bite of food may bring out a
+// powerup, whoever took it, as long as the board has room for one.
+const advanceSnake = (s: GameState, player: PlayerId, head: Point, grow: boolean, events: GameEvent[]) => {
+    const snake = s.snakes[player - 1];
+    snake.body.unshift(head);
+
+    const food = s.food.findIndex(isAt(head));
+    const powerup = s.powerups.findIndex(isAt(head));
+    if (food >= 0) {
+        scoreFood(s, player, head, events);
+        s.eaten.food++;
+        events.push({ type: 'ateFood', by: player, at: { ...head } });
+        increaseSpeed(s);
+        replaceFood(s, food, snakeCells(s));
+        if (s.powerups.length < s.config.pickups.powerups) dropPowerup(s, choosePowerup(s, 1));
+    }
+    else if (powerup >= 0) {
+        const [{ type }] = s.powerups.splice(powerup, 1);
+        scorePoints(s, player, ScoreSource.POWERUP, s.config.points.powerup, head, events);
+        s.eaten.powerups++;
+        events.push({ type: 'pickedPowerup', by: player, powerup: type, at: { ...head } });
+        POWERUPS[type].apply(s, player);
+    }
+    else if (!grow) {
+        snake.body.pop();
+    }
+};
+
+// How far the match has got towards its objective, in the objective's own units.
+export const objectiveProgress = (s: GameState) => {
+    switch (s.config.objective?.kind) {
+        case ObjectiveKind.FOOD: return s.eaten.food;
+        case ObjectiveKind.PACMAN: return s.eaten.pacman;
+        case ObjectiveKind.SURVIVE: return Math.floor(s.elapsed / 1000);
+        default: return 0;
+    }
+};
+
+export const objectiveMet = (s: GameState) =>
+    s.config.objective !== null && objectiveProgress(s) >= s.config.objective.target;
+
+// Whether the match has been decided after this tick. Every match ends once all the
+// snakes are gone; a lone snake plays on until then unless the clock, the target score
+// or a met objective stops it first.
+const matchOver = (s: GameState) => {
+    const alive = livingSnakes(s).length;
+    if (alive === 0 || objectiveMet(s)) return true;
+    switch (s.config.win) {
+        case WinCondition.TIMED: return s.elapsed >= s.config.timeLimit;
+        case WinCondition.FIRST_TO: return s.snakes.some(snake => snake.score >= s.config.targetScore);
+        default: return MODES[s.mode].party && alive <= 1;
+    }
+};
+
+const moveTick = (s: GameState, events: GameEvent[]) => {
+    s.tick++;
+    s.elapsed += s.moveInterval;
+
+    const dead = new Map<PlayerId, string | undefined>();
+    const heads: { player: PlayerId; head: Point; ghost: boolean }[] = [];
+
+    // --- Move Snakes ---
+    // In player order: each snake sees the ones before it already moved this tick.
+    // A snake only moves on the ticks that complete its own interval.
+    s.snakes.forEach((snake, i) => {
+        if (!isAlive(snake)) return;
+        const interval = snakeInterval(s, snake);
+        snake.moveTimer += s.moveInterval;
+        if (snake.moveTimer < interval) return;
+        snake.moveTimer -= interval;
+        const player = (i + 1) as PlayerId;
+        wearOff(s, player);
+
+        snake.dir = snake.queue.shift() ?? snake.dir;
+
+        const move = moveFrom(s, snake.body[0], snake.dir);
+        const head = move.head;
+        if (move.wrapped) events.push({ type: 'wrapped', by: player, x: snake.body[0].x + snake.dir.x, y: snake.body[0].y + snake.dir.y });
+
+        // A ghost passes through snakes, and snakes through it, but walls stay solid
+        const ghost = hasEffect(snake, PowerupType.GHOST);
+        let died = move.blocked;
+        if (!ghost) {
+            const solid = livingSnakes(s).filter(other => !hasEffect(other, PowerupType.GHOST)).flatMap(other => other.body);
+            if (checkCollision(head, solid)) died = true;
+            // Meeting head-on takes out both snakes
+            for (const other of heads) {
+                if (!other.ghost && other.head.x === head.x && other.head.y === head.y) {
+                    died = true;
+                    dead.set(other.player, undefined);
+                }
+            }
+        }
+
+        // Handle Enemy Interaction (Eat or Die)
+        const { ate, killer } = meetEnemies(s, player, head, events);
+        if (killer) died = true;
+
+        if (died) {
+            dead.set(player, killer);
+        } else {
+            advanceSnake(s, player, head, ate, events);
+            heads.push({ player, head, ghost });
+            for (const type of Object.keys(snake.effects) as PowerupType[]) POWERUPS[type].tick?.(s, player);
+        }
+    });
+
+    pickupTick(s, events);
+
+    // New enemies join as the score climbs
+    if (MODES[s.mode].enemies) {
+        while (s.wave < s.config.waves && s.snakes[0].score >= WAVES[s.wave].score) {
+            const e = spawnNextWave(s);
+            if (!e) break;
+            events.push({ type: 'enemySpawned', kind: e.kind, name: e.name, at: { x: e.x, y: e.y } });
+        }
+    }
+
+    // --- AI ---
+    if (MODES[s.mode].enemies) {
+        for (const e of s.enemies) {
+            if (enemyTick(s, e, events)) dead.set(1, dead.get(1) ?? e.name);
+        }
+    }
+
+    MODES[s.mode].tick?.(s, events);
+
+    // Snakes killed this tick all die together, after everyone has moved. A SHIELD takes
+    // the hit instead; the snake stays where it was and carries on next move. In a
+    // deathless mode every hit goes that way.
+    for (const [player, killer] of [...dead].sort(([a], [b]) => a - b)) {
+        const snake = s.snakes[player - 1];
+        if (MODES[s.mode].deathless) continue;
+        if (hasEffect(snake, PowerupType.SHIELD)) {
+            delete snake.effects[PowerupType.SHIELD];
+            events.push({ type: 'shielded', player, at: { ...snake.body[0] } });
+            continue;
+        }
+        snake.diedAt = s.tick;
+        events.push({ type: 'died', player, killer });
+    }
+    if (MODES[s.mode].enemies) scoreNearMisses(s, events);
+    // A clock, a target or an objective can end the match on a tick where nothing else
+    // happened, so the end is always announced
+    if (s.over || matchOver(s)) {
+        s.over = true;
+        events.push({ type: 'matchOver' });
+    }
+    s.moveInterval = tickInterval(s);
+};
+
+// Runs one tick of an enemy's timers and, on its cadence, moves it.
+// Returns true if the enemy ran into the snake's head.
+const enemyTick = (s: GameState, e: Enemy, events: GameEvent[]) => {
+    if (e.respawn > 0) {
+        e.respawn--;
+        if (e.respawn === 0) {
+            respawnEnemy(s, e);
+            events.push({ type: 'enemySpawned', kind: e.kind, name: e.name, at: { x: e.x, y: e.y } });
+        }
+        return false;
+    }
+
+    const cadence = enemyCadence(s, e);
+    if (e.frozen > 0) {
+        e.frozen--;
+        // A coward doesn't freeze solid; it keeps running at half pace
+        if (e.kind === EnemyKind.PACMAN && e.personality === PacmanPersonality.COWARD && s.tick % (cadence * 2) === 0) {
+            return moveEnemy(s, e, chooseFleeStep(s, e), events);
+        }
+        return false;
+    }
+
+    e.moveTick++;
+    if (e.moveTick % cadence !== 0) return false;
+    const dir = e.kind === EnemyKind.GHOST ? chooseGhostStep(s, e) : choosePacmanStep(s, e, e.personality);
+    return moveEnemy(s, e, dir, events);
+};
+
+// Moves an enemy one cell in `dir` (null stays put) and resolves what it lands on.
+// Only a ghost may step onto another enemy, and only to catch a Pacman.
+const moveEnemy = (s: GameState, e: Enemy, dir: Point | null, events: GameEvent[]) => {
+    if (dir) {
+        const move = moveFrom(s, e, dir);
+        const crowded = s.enemies.some(o =>
+            o !== e && isActive(o) && o.x === move.head.x && o.y === move.head.y
+            && !(e.kind === EnemyKind.GHOST && o.kind === EnemyKind.PACMAN)
+        );
+        if (!move.blocked && !crowded && !checkCollision(move.head, s.snakes[0].body.slice(1))) {
+            e.x = move.head.x;
+            e.y = move.head.y;
+        }
+    }
+
+    if (e.kind === EnemyKind.GHOST) {
+        for (const o of s.enemies) {
+            if (o.kind !== EnemyKind.PACMAN || !isActive(o) || o.x !== e.x || o.y !== e.y) continue;
+            events.push({ type: 'caught', name: o.name, by: e.name, at: { x: e.x, y: e.y } });
+            respawnEnemy(s, o);
+        }
+    } else {
+        const food = s.food.findIndex(isAt(e));
+        if (food >= 0) {
+            s.pacmanScore += 1;
+            events.push({ type: 'ateFood', by: 'pacman', at: { x: e.x, y: e.y } });
+            replaceFood(s, food, s.snakes[0].body);
+        }
+
+        const powerup = s.powerups.findIndex(isAt(e));
+        if (powerup >= 0) {
+            events.push({ type: 'pickedPowerup', by: 'pacman', powerup: s.powerups[powerup].type, at: { x: e.x, y: e.y } });
+            s.powerups.splice(powerup, 1);
+        }
+    }
+
+    // Check if ran into Snake (Normal death)
+    const head = s.snakes[0].body[0];
+    return e.x === head.x && e.y === head.y;
+};
+
+/**
+ * Advances the match by one rendered frame. Movement happens whenever the
+ * accumulated time exceeds the move interval; everything else, powerup timers
+ * included, counts movement ticks so a match replays identically from its inputs.
+ * The input state is never mutated.
+ */
+export const update = (prev: GameState, input: PlayerInput, dt: number): UpdateResult => {
+    const s = structuredClone(prev);
+    const events: GameEvent[] = [];
+    if (s.over) return { state: s, events };
+
+    applyInput(s, input);
+    s.moveTimer += dt;
+
+    // Fixed timestep: every whole interval is one tick and the remainder carries over, so
+    // the pace doesn't depend on the frame rate. After a stall only a few ticks catch up.
+    for (let i = 0; i < MAX_CATCH_UP_TICKS && s.moveTimer >= s.moveInterval && !s.over; i++) {
+        s.moveTimer -= s.moveInterval;
+        moveTick(s, events);
+    }
+    if (s.moveTimer >= s.moveInterval) s.moveTimer %= s.moveInterval;
+    return { state: s, events };
+};
+
+// Advances exactly one movement tick (one frame that is just long enough to move).
+export const step = (prev: GameState, input: PlayerInput = {}): UpdateResult =>
+    update(prev, input, prev.moveInterval - prev.moveTimer);
+
+// How far the clock is from the last tick to the next, 0 to 1, for drawing in between.
+export const tickProgress = (s: GameState) => Math.min(1, s.moveTimer / s.moveInterval);
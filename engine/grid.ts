@@ -0,0 +1,55 @@
+import { GameState, Point } from '../types';
+import { isTunnel, isWall } from './levels';
+
+// Board geometry shared by the simulation and the AI.
+
+export const DIRECTIONS: Point[] = [
+    { x: 0, y: -1 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+    { x: 1, y: 0 }
+];
+
+export const wrap = (val: number, max: number) => {
+    if (val < 0) return max - 1;
+    if (val >= max) return 0;
+    return val;
+};
+
+export const checkCollision = (head: Point, body: Point[]) => {
+    for (const part of body) {
+        if (head.x === part.x && head.y === part.y) return true;
+    }
+    return false;
+};
+
+// Board distance that knows about wraparound but not about walls.
+export const crowDistance = (s: GameState, a: Point, b: Point) => {
+    const dx = Math.abs(a.x - b.x);
+    const dy = Math.abs(a.y - b.y);
+    return Math.min(dx, s.cols - dx) + Math.min(dy, s.rows - dy);
+};
+
+// Whichever of `points` is closest to `from` as the crow flies; the earliest on a tie.
+export const nearestPoint = (s: GameState, from: Point, points: Point[]): Point =>
+    points.reduce((best, p) => crowDistance(s, from, p) < crowDistance(s, from, best) ? p : best);
+
+export type Move = {
+    head: Point;
+    wrapped: boolean;
+    blocked: boolean;
+};
+
+// Resolves one step from `from`. Leaving the board wraps only from a tunnel cell;
+// anywhere else the edge is as solid as a wall.
+export const moveFrom = (s: GameState, from: Point, dir: Point): Move => {
+    const raw = { x: from.x + dir.x, y: from.y + dir.y };
+    if (raw.x >= 0 && raw.x < s.cols && raw.y >= 0 && raw.y < s.rows) {
+        return { head: raw, wrapped: false, blocked: isWall(s.level, raw) };
+    }
+    if (!isTunnel(s.level, from)) {
+        return { head: raw, wrapped: false, blocked: true };
+    }
+    const head = { x: wrap(raw.x, s.cols), y: wrap(raw.y, s.rows) };
+    return { head, wrapped: true, blocked: isWall(s.level, head) };
+};
@@ -0,0 +1,21 @@
+// --- Type Guards ---
+// Anything read from a file, storage or the network is `unknown` until these have looked
+// at it, so a field is only used once its type has been checked.
+
+// Arrays count too; a field read from one is just missing.
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isInt = (value: unknown): value is number => Number.isInteger(value);
+
+export const isIntIn = (value: unknown, min: number, max: number): value is number =>
+    isInt(value) && value >= min && value <= max;
+
+export const isList = (value: unknown): value is unknown[] => Array.isArray(value);
+
+export const isOneOf = <T>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+// `guard`, letting null through as well
+export const orNull = <T>(guard: (value: unknown) => value is T) =>
+    (value: unknown): value is T | null => value === null || guard(value);
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { LEVELS, OPEN_ARENA, isTunnel, isWall, levelSize, levelSpawns, parseLevel } from './levels';
+
+const SMALL = `
+; comments and blank lines are skipped
+########
+
+#1....P#
+T......T
+#..2...#
+#......#
+#......#
+#......#
+###TT###
+`;
+
+describe('parseLevel', () => {
+    it('reads walls, tunnels and spawns', () => {
+        const level = parseLevel(SMALL, 'SMALL', 'small');
+        expect(levelSize(level)).toEqual({ cols: 8, rows: 8 });
+        expect(isWall(level, { x: 0, y: 0 })).toBe(true);
+        expect(isTunnel(level, { x: 0, y: 2 })).toBe(true);
+        expect(isWall(level, { x: 1, y: 1 })).toBe(false);
+        expect(levelSpawns(level)).toEqual({ p1: { x: 1, y: 1 }, p2: { x: 3, y: 3 }, pacman: { x: 6, y: 1 } });
+    });
+
+    it('reads spawns for a four-snake party', () => {
+        const level = parseLevel('########\n#1....2#\n' + '#......#\n'.repeat(4) + '#3....4#\n########');
+        expect(levelSpawns(level)).toEqual({ p1: { x: 1, y: 1 }, p2: { x: 6, y: 1 }, p3: { x: 1, y: 6 }, p4: { x: 6, y: 6 } });
+    });
+
+    it.each([
+        ['', 'Map is empty'],
+        ['########\n#......#\n#.....#', 'Map rows must all be the same width'],
+        ['####\n####', 'Map must be between 8x8 and 60x40'],
+        [SMALL.replace('P', 'X'), "Unknown map cell 'X'"],
+        [SMALL.replace('#..2', '#.22'), "Map has more than one '2' spawn"],
+        ['########\n'.repeat(8), 'Map has no floor']
+    ])('rejects %j', (text, message) => {
+        expect(() => parseLevel(text)).toThrow(message);
+    });
+});
+
+describe('built-in levels', () => {
+    it('keeps the classic open arena wrapping on every edge', () => {
+        const { cols, rows } = levelSize(OPEN_ARENA);
+        expect({ cols, rows }).toEqual({ cols: 30, rows: 20 });
+        expect(OPEN_ARENA.map.join('')).not.toContain('#');
+        for (let x = 0; x < cols; x++) {
+            expect(isTunnel(OPEN_ARENA, { x, y: 0 })).toBe(true);
+            expect(isTunnel(OPEN_ARENA, { x, y: rows - 1 })).toBe(true);
+        }
+    });
+
+    it.each(LEVELS.map(l => [l.name, l]))('%s has unique ids and playable spawns', (_, level) => {
+        expect(LEVELS.filter(l => l.id === level.id)).toHaveLength(1);
+        const spawns = levelSpawns(level);
+        for (const p of Object.values(spawns)) {
+            expect(isWall(level, p)).toBe(false);
+            // Snakes start heading up, so the cell above must be open too.
+            expect(isWall(level, { x: p.x, y: p.y - 1 })).toBe(false);
+        }
+    });
+});
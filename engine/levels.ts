@@ -0,0 +1,168 @@
+import { Level, Point } from '../types';
+import { COLS, ROWS } from './constants';
+
+// --- Map Format ---
+// One text row per board row, all the same width:
+//   #  wall
+//   .  floor
+//   T  tunnel: floor from which a snake (or Pacman) may leave the board and wrap
+//      around to the opposite edge. Leaving the board anywhere else is a crash.
+//   1-4  P1-P4 spawns     P  Pacman spawn
+// Spawns are optional; without them the classic starting positions are used.
+// Blank lines and lines starting with ';' are ignored.
+
+export const WALL = '#';
+export const FLOOR = '.';
+export const TUNNEL = 'T';
+
+const SPAWNS = { p1: '1', p2: '2', p3: '3', p4: '4', pacman: 'P' } as const;
+const LEGAL = new Set([WALL, FLOOR, TUNNEL, ...Object.values(SPAWNS)]);
+
+export const MIN_SIZE = 8;
+export const MAX_COLS = 60;
+export const MAX_ROWS = 40;
+
+export const parseLevel = (text: string, name: string = 'CUSTOM', id: string = 'custom'): Level => {
+    const map = text
+        .split(/\r?\n/)
+        .map(row => row.trim())
+        .filter(row => row.length > 0 && !row.startsWith(';'));
+
+    if (map.length === 0) throw new Error('Map is empty');
+    const width = map[0].length;
+    if (map.some(row => row.length !== width)) throw new Error('Map rows must all be the same width');
+    if (width < MIN_SIZE || map.length < MIN_SIZE || width > MAX_COLS || map.length > MAX_ROWS) {
+        throw new Error(`Map must be between ${MIN_SIZE}x${MIN_SIZE} and ${MAX_COLS}x${MAX_ROWS}`);
+    }
+
+    for (const row of map) {
+        for (const cell of row) {
+            if (!LEGAL.has(cell)) throw new Error(`Unknown map cell '${cell}'`);
+        }
+    }
+    for (const marker of Object.values(SPAWNS)) {
+        if (map.join('').split(marker).length > 2) throw new Error(`Map has more than one '${marker}' spawn`);
+    }
+    if (!map.join('').match(/[.T1234P]/)) throw new Error('Map has no floor');
+
+    return { id, name, map };
+};
+
+// --- Queries ---
+
+export const levelSize = (level: Level) => ({ cols: level.map[0].length, rows: level.map.length });
+
+const cellAt = (level: Level, p: Point) => level.map[p.y]?.[p.x];
+
+export const isWall = (level: Level, p: Point) => cellAt(level, p) === WALL;
+
+export const isTunnel = (level: Level, p: Point) => cellAt(level, p) === TUNNEL;
+
+// Turns one cell of the level into wall. Used by modes that change the board mid-match.
+export const addWall = (level: Level, p: Point) => {
+    const row = level.map[p.y];
+    level.map[p.y] = row.slice(0, p.x) + WALL + row.slice(p.x + 1);
+};
+
+export type LevelSpawns = Partial<Record<keyof typeof SPAWNS, Point>>;
+
+export const levelSpawns = (level: Level): LevelSpawns => {
+    const spawns: LevelSpawns = {};
+    const markers = Object.entries(SPAWNS) as [keyof typeof SPAWNS, string][];
+    level.map.forEach((row, y) => {
+        for (let x = 0; x < row.length; x++) {
+            for (const [key, marker] of markers) {
+                if (row[x] === marker) spawns[key] = { x, y };
+            }
+        }
+    });
+    return spawns;
+};
+
+// --- Built-in Levels ---
+
+// A board with no walls. With `wrap` every edge is a tunnel, as on the original board;
+// without it running off any edge is a crash.
+export const arenaLevel = (cols: number, rows: number, wrap: boolean = true): Level => {
+    const edge = wrap ? TUNNEL : FLOOR;
+    const map = Array.from({ length: rows }, (_, y) =>
+        y === 0 || y === rows - 1 ? edge.repeat(cols) : edge + FLOOR.repeat(cols - 2) + edge
+    );
+    return wrap && cols === COLS && rows === ROWS
+        ? { id: 'open', name: 'OPEN', map }
+        : { id: `arena-${cols}x${rows}${wrap ? '' : '-solid'}`, name: 'ARENA', map };
+};
+
+export const OPEN_ARENA: Level = arenaLevel(COLS, ROWS);
+
+export const LEVELS: Level[] = [
+    OPEN_ARENA,
+    parseLevel(`
+##############TT##############
+#............................#
+#............................#
+#............................#
+#............................#
+#..............P.............#
+#............................#
+#............................#
+#............................#
+T............................T
+T......2..............1......T
+#............................#
+#............................#
+#............................#
+#............................#
+#............................#
+#............................#
+#............................#
+#............................#
+##############TT##############
+`, 'BOX', 'box'),
+    parseLevel(`
+TTTTTTTTTTTTTTTTTTTTTTTTTTTTTT
+T............................T
+T............................T
+T..............P.............T
+T...##.....##.....##.....##..T
+T...##.....##.....##.....##..T
+T............................T
+T............................T
+T............................T
+T............................T
+T......2..............1......T
+T............................T
+T............................T
+T............................T
+T...##.....##.....##.....##..T
+T...##.....##.....##.....##..T
+T............................T
+T............................T
+T............................T
+TTTTTTTTTTTTTTTTTTTTTTTTTTTTTT
+`, 'PILLARS', 'pillars'),
+    parseLevel(`
+##############################
+#............................#
+#..............P.............#
+#............................#
+T..............#.............T
+T..............#.............T
+#......2.......#.............#
+#..............#.............#
+#..............#.............#
+#............................#
+#.....########..########.....#
+#............................#
+#..............#.............#
+#..............#.............#
+T..............#......1......T
+T..............#.............T
+#..............#.............#
+#............................#
+#............................#
+##############################
+`, 'CROSS', 'cross')
+];
+
+export const getLevel = (id: string) => LEVELS.find(l => l.id === id);
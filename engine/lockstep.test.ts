@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { GameMode, GameState, PlayerId, Point } from '../types';
+import { createGame } from './engine';
+import { nextRandom } from './rng';
+import { INPUT_DELAY, Lockstep, TickInput, advance, canAdvance, createLockstep, hashState, receiveInput } from './lockstep';
+
+const TURNS = [{ x: 0, y: -1 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 0 }];
+
+type Peer = { player: PlayerId; ls: Lockstep; state: GameState; inbox: { at: number; msg: TickInput }[] };
+
+const peer = (player: PlayerId, seed: number): Peer =>
+    ({ player, ls: createLockstep(player), state: createGame(GameMode.PVP, seed), inbox: [] });
+
+// Two peers on a network that delivers each message `latency` frames after it was sent.
+const playNetworked = (seed: number, frames: number, latency: number, tamper?: (p: Peer, frame: number) => void) => {
+    const peers = [peer(1, seed), peer(2, seed)];
+    let noise = seed;
+    const roll = () => {
+        const r = nextRandom(noise);
+        noise = r.state;
+        return r.value;
+    };
+
+    for (let frame = 0; frame < frames; frame++) {
+        for (const [i, p] of peers.entries()) {
+            const other = peers[1 - i];
+            p.inbox.filter(m => m.at <= frame).forEach(m => receiveInput(p.ls, m.msg));
+            p.inbox = p.inbox.filter(m => m.at > frame);
+
+            tamper?.(p, frame);
+            if (p.state.over || !canAdvance(p.ls, p.state)) continue;
+            const turns: Point[] = roll() < 0.2 ? [TURNS[Math.floor(roll() * 4)]] : [];
+            const { result, outgoing } = advance(p.ls, p.state, turns);
+            p.state = result.state;
+            other.inbox.push({ at: frame + latency, msg: outgoing });
+        }
+    }
+    return peers;
+};
+
+describe('lockstep', () => {
+    it('starts with the first INPUT_DELAY ticks already settled', () => {
+        const ls = createLockstep(1);
+        expect([...ls.local.keys()]).toEqual([...Array(INPUT_DELAY).keys()]);
+        expect(canAdvance(ls, createGame(GameMode.PVP, 1))).toBe(true);
+    });
+
+    it('schedules a turn INPUT_DELAY ticks ahead and waits for the peer', () => {
+        const ls = createLockstep(2);
+        const { result, outgoing } = advance(ls, createGame(GameMode.PVP, 1), [{ x: -1, y: 0 }]);
+        expect(outgoing).toMatchObject({ tick: INPUT_DELAY, turns: ['L'], hashTick: 1, hash: hashState(result.state) });
+        expect(ls.local.get(INPUT_DELAY)).toEqual([{ x: -1, y: 0 }]);
+
+        let s = result.state;
+        for (let i = 1; i < INPUT_DELAY; i++) s = advance(ls, s).result.state;
+        expect(canAdvance(ls, s)).toBe(false);
+        receiveInput(ls, { tick: INPUT_DELAY, turns: [], hashTick: 1, hash: hashState(result.state) });
+        expect(canAdvance(ls, s)).toBe(true);
+    });
+
+    it.each([1, 4])('keeps both peers in the same match with %i frames of latency', latency => {
+        const [a, b] = playNetworked(8, 3000, latency);
+        expect(a.state.tick).toBeGreaterThan(20);
+        expect(Math.abs(a.state.tick - b.state.tick)).toBeLessThanOrEqual(INPUT_DELAY);
+        expect(a.ls.desyncTick).toBeNull();
+        expect(b.ls.desyncTick).toBeNull();
+        if (a.state.over && b.state.over) expect(a.state).toEqual(b.state);
+    });
+
+    it('catches a desync on the tick it happens', () => {
+        let broke = -1;
+        const [a, b] = playNetworked(8, 400, 2, (p, frame) => {
+            if (p.player === 2 && frame === 30) {
+                p.state = { ...p.state, rng: p.state.rng + 1 };
+                broke = p.state.tick;
+            }
+        });
+        // The first hash computed from the tampered state is the one after the next tick.
+        expect(a.ls.desyncTick).toBe(broke + 1);
+        expect(b.ls.desyncTick).toBe(broke + 1);
+    });
+});
@@ -0,0 +1,108 @@
+import { GameState, PlayerId, PlayerInput, Point } from '../types';
+import { step, UpdateResult } from './engine';
+import { DirectionCode, decodeDirection, encodeDirection } from './replay';
+
+// --- Lockstep ---
+// Both browsers run the same engine from the same seed and only ever exchange turns.
+// A tick is simulated once both players' turns for it are known; a player's turn is
+// scheduled INPUT_DELAY ticks ahead so it has time to cross the network before it's due.
+// Every turn message also carries a hash of the sender's state, so a desync is caught
+// on the tick it happens instead of showing up as two different matches.
+
+export const INPUT_DELAY = 3;
+
+// One player's turns for one tick, plus the hash of their state after tick `hashTick`.
+export type TickInput = {
+    tick: number;
+    turns: DirectionCode[];
+    hashTick: number;
+    hash: number;
+};
+
+export type Lockstep = {
+    player: PlayerId;
+    local: Map<number, Point[]>;
+    remote: Map<number, Point[]>;
+    hashes: Map<number, number>;       // ours, by tick, until the peer's arrives
+    remoteHashes: Map<number, number>; // theirs, by tick, until ours is computed
+    desyncTick: number | null;
+};
+
+// FNV-1a over the whole state. Both sides build their states identically, so the
+// JSON text (key order included) is identical exactly when the states are.
+export const hashState = (s: GameState): number => {
+    const text = JSON.stringify(s);
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+export const createLockstep = (player: PlayerId): Lockstep => {
+    const ls: Lockstep = {
+        player,
+        local: new Map(),
+        remote: new Map(),
+        hashes: new Map(),
+        remoteHashes: new Map(),
+        desyncTick: null
+    };
+    // Nobody can have turned before the match started.
+    for (let tick = 0; tick < INPUT_DELAY; tick++) {
+        ls.local.set(tick, []);
+        ls.remote.set(tick, []);
+    }
+    return ls;
+};
+
+const compareHash = (ls: Lockstep, tick: number) => {
+    const ours = ls.hashes.get(tick);
+    const theirs = ls.remoteHashes.get(tick);
+    if (ours === undefined || theirs === undefined) return;
+    ls.hashes.delete(tick);
+    ls.remoteHashes.delete(tick);
+    if (ours !== theirs && ls.desyncTick === null) ls.desyncTick = tick;
+};
+
+// Whether both turns for the next tick have arrived.
+export const canAdvance = (ls: Lockstep, state: GameState) =>
+    ls.local.has(state.tick) && ls.remote.has(state.tick);
+
+// Stores a turn message from the peer and checks its hash against ours.
+export const receiveInput = (ls: Lockstep, msg: TickInput) => {
+    ls.remote.set(msg.tick, msg.turns.map(decodeDirection));
+    ls.remoteHashes.set(msg.hashTick, msg.hash);
+    compareHash(ls, msg.hashTick);
+};
+
+/**
+ * Simulates the next tick with both players' turns and schedules `turns` as this player's
+ * turns INPUT_DELAY ticks from now. Returns the engine result, the combined input that was
+ * played (for the recording) and the message to send to the peer.
+ * Only call this when canAdvance() is true.
+ */
+export const advance = (ls: Lockstep, state: GameState, turns: Point[] = []) => {
+    const tick = state.tick;
+    const mine = ls.local.get(tick) ?? [];
+    const theirs = ls.remote.get(tick) ?? [];
+    const input: PlayerInput = { [ls.player]: mine, [ls.player === 1 ? 2 : 1]: theirs };
+    ls.local.delete(tick);
+    ls.remote.delete(tick);
+
+    const result: UpdateResult = step(state, input);
+    const hash = hashState(result.state);
+    ls.hashes.set(result.state.tick, hash);
+    compareHash(ls, result.state.tick);
+
+    const scheduled = tick + INPUT_DELAY;
+    ls.local.set(scheduled, turns);
+    const outgoing: TickInput = {
+        tick: scheduled,
+        turns: turns.map(encodeDirection),
+        hashTick: result.state.tick,
+        hash
+    };
+    return { result, input, outgoing };
+};
@@ -0,0 +1,118 @@
+import { GameConfig, GameEvent, GameMode, GameState, Point, WinCondition } from '../types';
+import {
+    TIME_ATTACK_LIMIT, SURVIVAL_OBSTACLE_INTERVAL, SURVIVAL_SAFE_DISTANCE, SURVIVAL_MAX_FILL
+} from './constants';
+import { ConfigOverrides, DEFAULT_CONFIG, resolveConfig } from './config';
+import { addWall } from './levels';
+import { placeItem, snakeCells } from './engine';
+
+// --- Registry ---
+// What sets each mode apart. The engine reads the flags and calls the hooks; like the
+// powerup registry, this module and engine.ts import each other, so nothing here may run
+// engine code at import time.
+
+export type ModeDef = {
+    mode: GameMode;
+    name: string;
+    description: string;
+    party: boolean;   // 2-4 snakes instead of one
+    enemies: boolean; // Pacman and the waves that follow him
+    arena: boolean;   // played on the config's open arena rather than the picked map
+    deathless: boolean; // nothing kills the snake; a blocked one waits to be steered clear
+    rules: ConfigOverrides; // always applied on top of the match's own config
+    tick?: (s: GameState, events: GameEvent[]) => void; // after every tick
+};
+
+// Every SURVIVAL_OBSTACLE_INTERVAL ticks a free cell turns to wall, never right in front
+// of the snake, until they cover SURVIVAL_MAX_FILL of the board. A board too crowded to
+// find a safe cell skips a turn.
+const growObstacles = (s: GameState, events: GameEvent[]) => {
+    const placed = s.tick / SURVIVAL_OBSTACLE_INTERVAL;
+    if (!Number.isInteger(placed) || placed > s.cols * s.rows * SURVIVAL_MAX_FILL) return;
+
+    const head = s.snakes[0].body[0];
+    const exclude: Point[] = [...snakeCells(s), ...s.food, ...s.powerups, ...s.enemies];
+    for (let tries = 0; tries < 10; tries++) {
+        const p = placeItem(s, exclude);
+        if (!p) return;
+        if (Math.abs(p.x - head.x) + Math.abs(p.y - head.y) < SURVIVAL_SAFE_DISTANCE) continue;
+        addWall(s.level, p);
+        events.push({ type: 'obstacle', at: p });
+        return;
+    }
+};
+
+const solo = { party: false, enemies: false, arena: false, deathless: false, rules: {} };
+
+export const MODES: Record<GameMode, ModeDef> = {
+    [GameMode.PVC]: {
+        ...solo,
+        mode: GameMode.PVC,
+        name: 'VS PACMAN',
+        description: 'EAT, GROW AND KEEP AWAY FROM PACMAN',
+        enemies: true
+    },
+    [GameMode.PVP]: {
+        ...solo,
+        mode: GameMode.PVP,
+        name: 'PARTY',
+        description: 'UP TO FOUR SNAKES ON ONE BOARD',
+        party: true
+    },
+    [GameMode.CLASSIC]: {
+        ...solo,
+        mode: GameMode.CLASSIC,
+        name: 'CLASSIC',
+        description: 'JUST YOU, THE FOOD AND FOUR WALLS',
+        arena: true,
+        rules: { board: { ...DEFAULT_CONFIG.board, wrap: false }, powerups: [], pickups: { powerups: 0 } }
+    },
+    [GameMode.TIME_ATTACK]: {
+        ...solo,
+        mode: GameMode.TIME_ATTACK,
+        name: 'TIME ATTACK',
+        description: 'AS MANY POINTS AS YOU CAN IN TWO MINUTES',
+        rules: { win: WinCondition.TIMED, timeLimit: TIME_ATTACK_LIMIT }
+    },
+    [GameMode.SURVIVAL]: {
+        ...solo,
+        mode: GameMode.SURVIVAL,
+        name: 'SURVIVAL',
+        description: 'THE WALLS KEEP COMING. LAST AS LONG AS YOU CAN',
+        tick: growObstacles
+    },
+    [GameMode.ZEN]: {
+        ...solo,
+        mode: GameMode.ZEN,
+        name: 'ZEN',
+        description: 'NO PACMAN, NO DEATH. JUST GROW',
+        deathless: true
+    },
+    // Always the classic game, so everyone's run that day is comparable; see daily.ts
+    [GameMode.DAILY]: {
+        ...solo,
+        mode: GameMode.DAILY,
+        name: 'DAILY',
+        description: 'TODAY\'S BOARD, THE SAME FOR EVERYONE',
+        enemies: true,
+        arena: true,
+        rules: DEFAULT_CONFIG
+    },
+    // The stage brings its own level, rules, enemies and objective; see campaign.ts
+    [GameMode.CAMPAIGN]: {
+        ...solo,
+        mode: GameMode.CAMPAIGN,
+        name: 'CAMPAIGN',
+        description: 'STAGE BY STAGE, STAR BY STAR',
+        enemies: true
+    }
+};
+
+// The solo modes beyond the original PVC, in menu order.
+export const SOLO_MODES = [GameMode.CLASSIC, GameMode.TIME_ATTACK, GameMode.SURVIVAL, GameMode.ZEN];
+
+// A match's config with its mode's own rules laid over the top.
+export const modeConfig = (mode: GameMode, rules: ConfigOverrides = {}): GameConfig => {
+    const forced = MODES[mode].rules;
+    return resolveConfig({ ...rules, ...forced, pickups: { ...rules.pickups, ...forced.pickups } });
+};
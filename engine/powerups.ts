@@ -0,0 +1,190 @@
+import { GameMode, GameState, PlayerId, PowerupType, Snake } from '../types';
+import {
+    FREEZE_DURATION, SPEED_BOOST_DURATION, GHOST_DURATION,
+    MAGNET_DURATION, SHIELD_DURATION, DOUBLE_POINTS_DURATION
+} from './constants';
+import { checkCollision, nearestPoint } from './grid';
+import { isWall } from './levels';
+import { isActive, livingSnakes, placeItem, snakeCells } from './engine';
+
+// --- Registry ---
+// Everything the game knows about a powerup lives in its entry here: how it looks, how
+// often it turns up and what it does. The engine only calls the hooks; the hooks must not
+// run anything at import time, as this module and engine.ts import each other.
+
+export type PowerupDef = {
+    type: PowerupType;
+    name: string;
+    color: string;
+    icon: string[];  // 5x5 sprite, '#' for a lit pixel
+    duration: number; // moves of the snake it works on; 0 for powerups that act once
+    weight: number;   // chance, per bite of food, that this is the powerup that appears
+    pace?: number;            // scales the snake's move interval while it lasts
+    scoreMultiplier?: number; // scales every point the snake scores while it lasts
+    apply: (s: GameState, player: PlayerId) => void;  // on pickup
+    tick?: (s: GameState, player: PlayerId) => void;   // after each move of a snake that has it
+    expire?: (s: GameState, player: PlayerId) => void; // once it has worn off
+};
+
+// Starts (or restarts) a timed powerup on one snake.
+const grant = (snake: Snake, type: PowerupType) => {
+    snake.effects[type] = POWERUPS[type].duration;
+};
+
+const grantToPicker = (type: PowerupType) => (s: GameState, player: PlayerId) => grant(s.snakes[player - 1], type);
+
+// SPEED and SLOW cancel each other out; whichever arrived last is the one that counts.
+const changePace = (snake: Snake, type: PowerupType.SPEED | PowerupType.SLOW) => {
+    delete snake.effects[type === PowerupType.SPEED ? PowerupType.SLOW : PowerupType.SPEED];
+    grant(snake, type);
+};
+
+export const POWERUPS: Record<PowerupType, PowerupDef> = {
+    [PowerupType.FREEZE]: {
+        type: PowerupType.FREEZE,
+        name: 'FREEZE',
+        color: '#29adff', // Cyan
+        icon: ['#.#.#', '.###.', '##.##', '.###.', '#.#.#'],
+        duration: 0,
+        weight: 0.03,
+        apply: s => {
+            for (const e of s.enemies) {
+                if (isActive(e)) e.frozen = FREEZE_DURATION;
+            }
+        }
+    },
+    [PowerupType.SPEED]: {
+        type: PowerupType.SPEED,
+        name: 'SPEED',
+        color: '#ffcc00', // Gold
+        icon: ['#.#..', '.#.#.', '..#.#', '.#.#.', '#.#..'],
+        duration: SPEED_BOOST_DURATION,
+        weight: 0.025,
+        pace: 0.5,
+        apply: (s, player) => changePace(s.snakes[player - 1], PowerupType.SPEED)
+    },
+    [PowerupType.SLOW]: {
+        type: PowerupType.SLOW,
+        name: 'SLOW',
+        color: '#83769c', // Purple
+        icon: ['#####', '.###.', '..#..', '.###.', '#####'],
+        duration: SPEED_BOOST_DURATION,
+        weight: 0.025,
+        pace: 1.5,
+        // In PVP it hits every other snake still in the match instead of the one that took it
+        apply: (s, player) => {
+            const snake = s.snakes[player - 1];
+            if (s.mode === GameMode.PVP) {
+                livingSnakes(s).filter(other => other !== snake).forEach(other => changePace(other, PowerupType.SLOW));
+            } else {
+                changePace(snake, PowerupType.SLOW);
+            }
+        }
+    },
+    [PowerupType.GHOST]: {
+        type: PowerupType.GHOST,
+        name: 'GHOST',
+        color: '#ffffff', // White
+        icon: ['.###.', '#####', '#.#.#', '#####', '#.#.#'],
+        duration: GHOST_DURATION,
+        weight: 0.02,
+        apply: grantToPicker(PowerupType.GHOST)
+    },
+    [PowerupType.SHRINK]: {
+        type: PowerupType.SHRINK,
+        name: 'SHRINK',
+        color: '#ff77a8', // Pink
+        icon: ['#...#', '.#.#.', '.....', '.#.#.', '#...#'],
+        duration: 0,
+        weight: 0.02,
+        apply: (s, player) => {
+            const snake = s.snakes[player - 1];
+            if (snake.body.length > 3) {
+                snake.body = snake.body.slice(0, Math.max(3, Math.floor(snake.body.length / 2)));
+            }
+        }
+    },
+    [PowerupType.MAGNET]: {
+        type: PowerupType.MAGNET,
+        name: 'MAGNET',
+        color: '#ff004d', // Red
+        icon: ['.###.', '#...#', '#...#', '##.##', '##.##'],
+        duration: MAGNET_DURATION,
+        weight: 0.02,
+        apply: grantToPicker(PowerupType.MAGNET),
+        // Drags the nearest food a cell towards the head, along whichever axis it is further
+        // off on. It stops next to the head rather than on it, and anything in the way holds it up.
+        tick: (s, player) => {
+            const head = s.snakes[player - 1].body[0];
+            const food = nearestPoint(s, head, s.food);
+            const dx = head.x - food.x;
+            const dy = head.y - food.y;
+            if (Math.abs(dx) + Math.abs(dy) <= 1) return;
+            const to = Math.abs(dx) >= Math.abs(dy)
+                ? { x: food.x + Math.sign(dx), y: food.y }
+                : { x: food.x, y: food.y + Math.sign(dy) };
+            const blocked = [...snakeCells(s), ...s.food, ...s.powerups, ...s.enemies.filter(isActive)];
+            if (isWall(s.level, to) || checkCollision(to, blocked)) return;
+            food.x = to.x;
+            food.y = to.y;
+        }
+    },
+    [PowerupType.SHIELD]: {
+        type: PowerupType.SHIELD,
+        name: 'SHIELD',
+        color: '#00e436', // Green
+        icon: ['#####', '#...#', '#...#', '.#.#.', '..#..'],
+        duration: SHIELD_DURATION,
+        weight: 0.015,
+        // The engine spends it on the next hit that would kill the snake
+        apply: grantToPicker(PowerupType.SHIELD)
+    },
+    [PowerupType.REVERSE]: {
+        type: PowerupType.REVERSE,
+        name: 'REVERSE',
+        color: '#ffa300', // Orange
+        icon: ['.#...', '#####', '.....', '#####', '...#.'],
+        duration: 0,
+        weight: 0.015,
+        // The tail becomes the head and sets off the way the tail end was pointing
+        apply: (s, player) => {
+            const snake = s.snakes[player - 1];
+            snake.body.reverse();
+            snake.queue = [];
+            const [head] = snake.body;
+            const neck = snake.body.find(p => p.x !== head.x || p.y !== head.y);
+            if (!neck) {
+                snake.dir = { x: -snake.dir.x, y: -snake.dir.y };
+                return;
+            }
+            // A gap wider than one cell means the snake wraps round the board there
+            const away = (d: number) => Math.abs(d) > 1 ? -Math.sign(d) : d;
+            snake.dir = { x: away(head.x - neck.x), y: away(head.y - neck.y) };
+        }
+    },
+    [PowerupType.TELEPORT]: {
+        type: PowerupType.TELEPORT,
+        name: 'TELEPORT',
+        color: '#c2c3c7', // Light gray
+        icon: ['.###.', '#...#', '#.#.#', '#...#', '.###.'],
+        duration: 0,
+        weight: 0.015,
+        // The whole snake lands coiled up on one free cell and unrolls as it moves off
+        apply: (s, player) => {
+            const snake = s.snakes[player - 1];
+            const to = placeItem(s, [...snakeCells(s), ...s.food, ...s.powerups, ...s.enemies.filter(isActive)]);
+            if (!to) return;
+            snake.body = snake.body.map(() => ({ ...to }));
+        }
+    },
+    [PowerupType.DOUBLE_POINTS]: {
+        type: PowerupType.DOUBLE_POINTS,
+        name: 'DOUBLE POINTS',
+        color: '#ffccaa', // Peach
+        icon: ['.###.', '#...#', '..##.', '.#...', '#####'],
+        duration: DOUBLE_POINTS_DURATION,
+        weight: 0.015,
+        scoreMultiplier: 2,
+        apply: grantToPicker(PowerupType.DOUBLE_POINTS)
+    }
+};
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { Difficulty, GameMode, GameState, Level, PartySettings, PlayerId, PlayerInput, PowerupType, WinCondition } from '../types';
+import { UpdateResult, createGame, step, update } from './engine';
+import { nextRandom } from './rng';
+import { OPEN_ARENA, getLevel, parseLevel } from './levels';
+import { ConfigOverrides, DEFAULT_CONFIG } from './config';
+import { SOLO_MODES } from './modes';
+import {
+    Recording, createRecording, recordInput, finishRecording,
+    indexInputs, replayToEnd, replayToEndInSlices, serializeRecording, parseRecording, startReplay
+} from './replay';
+
+const TURNS = [{ x: 0, y: -1 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 0 }];
+
+// Plays a match the way Game.tsx does: uneven frame times, turns arriving mid-tick, and
+// now and then a stall long enough to run several ticks in one update.
+const playLive = (
+    mode: GameMode, seed: number, frames: number,
+    level?: Level, difficulty = Difficulty.NORMAL, party: Partial<PartySettings> = {},
+    rules: ConfigOverrides = {}
+) => {
+    let state: GameState = createGame(mode, seed, level, difficulty, party, rules);
+    const rec = createRecording(seed, mode, level, difficulty, party, rules);
+    let noise = 12345;
+    const roll = () => {
+        const r = nextRandom(noise);
+        noise = r.state;
+        return r.value;
+    };
+
+    for (let i = 0; i < frames && !state.over; i++) {
+        const input: PlayerInput = {};
+        for (let player = 1; player <= state.players; player++) {
+            if (roll() < 0.08) input[player as PlayerId] = [TURNS[Math.floor(roll() * 4)]];
+        }
+        recordInput(rec, state, input);
+        state = update(state, input, roll() < 0.02 ? 150 + roll() * 300 : 8 + roll() * 30).state;
+    }
+    finishRecording(rec, state);
+    return { state, rec };
+};
+
+const summary = (s: GameState) => ({
+    tick: s.tick, rng: s.rng, over: s.over, snakes: s.snakes,
+    pacmanScore: s.pacmanScore, food: s.food, enemies: s.enemies, powerups: s.powerups
+});
+
+describe('replay', () => {
+    it.each([GameMode.PVC, GameMode.PVP])('re-simulates a %s match exactly from its inputs', mode => {
+        const { state, rec } = playLive(mode, 99, 3000);
+        expect(rec.ticks).toBeGreaterThan(0);
+        expect(summary(replayToEnd(rec))).toEqual(summary(state));
+    });
+
+    it.each(Object.values(Difficulty))('re-simulates a PVC match against a %s Pacman', difficulty => {
+        const { state, rec } = playLive(GameMode.PVC, 11, 3000, getLevel('pillars')!, difficulty);
+        expect(summary(replayToEnd(parseRecording(serializeRecording(rec))))).toEqual(summary(state));
+    });
+
+    it.each(SOLO_MODES)('re-simulates a %s match exactly from its inputs', mode => {
+        const { state, rec } = playLive(mode, 31, 3000);
+        expect(summary(replayToEnd(parseRecording(serializeRecording(rec))))).toEqual(summary(state));
+        expect(replayToEnd(rec).level).toEqual(state.level);
+    });
+
+    it('replays on the level it was recorded on', () => {
+        const { state, rec } = playLive(GameMode.PVP, 3, 3000, getLevel('cross')!);
+        expect(summary(replayToEnd(parseRecording(serializeRecording(rec))))).toEqual(summary(state));
+    });
+
+    it('replays a four-snake timed party match', () => {
+        const { state, rec } = playLive(GameMode.PVP, 8, 3000, OPEN_ARENA, Difficulty.NORMAL, { players: 4 }, { win: WinCondition.TIMED });
+        expect(state.snakes).toHaveLength(4);
+        expect(summary(replayToEnd(parseRecording(serializeRecording(rec))))).toEqual(summary(state));
+    });
+
+    it('plays back the end of a run that runs out of time on a quiet tick', () => {
+        const rec = createRecording(42, GameMode.TIME_ATTACK);
+        let live = createGame(GameMode.TIME_ATTACK, 42);
+        while (!live.over) live = step(live).state;
+        finishRecording(rec, live);
+
+        // Tick by tick, the way playback in Game.tsx does
+        const inputs = indexInputs(rec);
+        let last: UpdateResult = { state: startReplay(rec), events: [] };
+        while (!last.state.over && last.state.tick < rec.ticks) last = step(last.state, inputs.get(last.state.tick));
+        expect(last.state.over).toBe(true);
+        expect(last.state.tick).toBe(rec.ticks);
+        expect(last.events).toContainEqual({ type: 'matchOver' });
+    });
+
+    it('replays a match with a crowded board of food and powerups', () => {
+        const { state, rec } = playLive(GameMode.PVC, 21, 3000, OPEN_ARENA, Difficulty.NORMAL, {}, { pickups: { food: 4, powerups: 3, powerupEvery: 10 } });
+        expect(summary(replayToEnd(parseRecording(serializeRecording(rec))))).toEqual(summary(state));
+    });
+
+    it('replays a first-to match on a custom arena with its own rules', () => {
+        const rules: ConfigOverrides = {
+            board: { cols: 20, rows: 14, wrap: false },
+            startInterval: 90, acceleration: 3, powerups: [PowerupType.SPEED, PowerupType.SHIELD],
+            win: WinCondition.FIRST_TO, targetScore: 10
+        };
+        const { state, rec } = playLive(GameMode.PVP, 17, 3000, undefined, Difficulty.NORMAL, {}, rules);
+        expect([state.cols, state.rows]).toEqual([20, 14]);
+        expect(summary(replayToEnd(parseRecording(serializeRecording(rec))))).toEqual(summary(state));
+    });
+
+    it('replays in slices to the same end, pausing between them', async () => {
+        const { state, rec } = playLive(GameMode.PVC, 99, 3000);
+        let pauses = 0;
+        const end = await replayToEndInSlices(rec, Infinity, 100, async () => { pauses++; });
+        expect(summary(end)).toEqual(summary(state));
+        expect(pauses).toBe(Math.ceil(state.tick / 100));
+        await expect(replayToEndInSlices(rec, rec.ticks - 1, 100, async () => {})).rejects.toThrow('Replay is longer than');
+    });
+
+    it('keeps every turn within a tick in order', () => {
+        const rec = createRecording(1, GameMode.PVC);
+        rec.inputs.push([4, 1, 'U'], [4, 1, 'L'], [4, 2, 'U'], [5, 1, 'D']);
+        const inputs = indexInputs(rec);
+        expect(inputs.get(4)).toEqual({ 1: [{ x: 0, y: -1 }, { x: -1, y: 0 }], 2: [{ x: 0, y: -1 }] });
+        expect(inputs.get(5)).toEqual({ 1: [{ x: 0, y: 1 }] });
+    });
+});
+
+// The default rules as a recording stores them
+const CONFIG = `"config":${JSON.stringify(DEFAULT_CONFIG)}`;
+
+describe('recording files', () => {
+    it('round-trips through JSON', () => {
+        const { rec } = playLive(GameMode.PVP, 5, 500);
+        expect(parseRecording(serializeRecording(rec))).toEqual(rec);
+    });
+
+    it.each([
+        ['not json', 'Replay file is not valid JSON'],
+        ['{"version":99}', 'Unsupported replay version: 99'],
+        ['{"version":1,"seed":1,"ticks":2,"mode":"maze","inputs":[]}', 'Unknown game mode: maze'],
+        [`{"version":12,"seed":1,"ticks":2,"mode":"pvp","players":2,${CONFIG},"inputs":[[0,3,"U"]]}`, 'Replay input log is corrupt'],
+        [`{"version":12,"seed":1,"ticks":2,"mode":"pvp","players":2,${CONFIG},"inputs":[[0,1,"toString"]]}`, 'Replay input log is corrupt'],
+        [`{"version":12,"seed":1,"ticks":2,"mode":"pvp","players":5,${CONFIG},"inputs":[]}`, 'Unsupported player count: 5'],
+        [`{"version":12,"seed":1,"ticks":2,"mode":"pvp","players":3,${CONFIG},"inputs":[[0,4,"U"]]}`, 'Replay input log is corrupt'],
+        [`{"version":12,"seed":1,"ticks":2,"mode":"pvc","players":1,"config":${JSON.stringify({ ...DEFAULT_CONFIG, pickups: { food: 0, powerups: 1, powerupEvery: 100 } })},"inputs":[]}`, 'Replay has invalid rules: Config has invalid pickup settings'],
+        ['{"version":12,"seed":1,"ticks":2,"mode":"pvc","players":1,"inputs":[]}', 'Replay has invalid rules: Config is missing']
+    ])('rejects %s', (json, message) => {
+        expect(() => parseRecording(json)).toThrow(message);
+    });
+
+    it.each([1, 4, 7, 10, 11])('rejects version %i recordings made under older rules', version => {
+        expect(() => parseRecording(`{"version":${version},"seed":7,"mode":"pvc","ticks":3,"players":1,${CONFIG},"inputs":[]}`))
+            .toThrow('Replay was recorded with older game rules');
+    });
+
+    it('is compact', () => {
+        const level = parseLevel('T'.repeat(8) + '\n' + 'T......T\n'.repeat(6) + 'T'.repeat(8), 'TINY', 'tiny');
+        const rec: Recording = { ...createRecording(7, GameMode.PVC, level), ticks: 3, inputs: [[0, 1, 'L'], [2, 1, 'U']] };
+        expect(serializeRecording(rec)).toBe(
+            '{"version":12,"seed":7,"mode":"pvc","level":{"id":"tiny","name":"TINY","map":["TTTTTTTT",' +
+            '"T......T","T......T","T......T","T......T","T......T","T......T","TTTTTTTT"]},' +
+            `"difficulty":"normal","players":1,${CONFIG},` +
+            '"ticks":3,"inputs":[[0,1,"L"],[2,1,"U"]]}'
+        );
+    });
+});
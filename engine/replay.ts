@@ -0,0 +1,205 @@
+import {
+    Difficulty, GameConfig, GameMode, GameState, Level, PartySettings, PlayerId, PlayerInput, Point
+} from '../types';
+import { acceptedTurns, createGame, step, update } from './engine';
+import { parseLevel } from './levels';
+import { ConfigOverrides, configArena, validateConfig } from './config';
+import { MODES, modeConfig } from './modes';
+import { MAX_PLAYERS } from './constants';
+import { isInt, isIntIn, isList, isOneOf, isRecord } from './guards';
+
+// --- Recording Format ---
+// A match is fully described by its seed, mode, level, difficulty, rules and
+// the turns each player made. Inputs are stored as [tick, player, direction] tuples, where `tick` is
+// the number of movement ticks completed when the turn was requested.
+// No older version replays under the current rules: versions 1 to 3 predate the
+// pathfinding Pacman and its enemy waves, versions before 7 had one snake's SPEED or GHOST
+// work on every snake, versions before 8 drew from a smaller set of powerups with
+// different odds, so the same seed turns up different powerups, versions before 9
+// kept powerups on the board forever and only let P1's food bring them out, versions
+// before 10 had no match rules to record, and versions before 12 scored without combos,
+// multipliers or bonuses, which also changes when each enemy wave joins.
+
+export const RECORDING_VERSION = 12;
+
+export type DirectionCode = 'U' | 'D' | 'L' | 'R';
+
+export type RecordedInput = [tick: number, player: PlayerId, dir: DirectionCode];
+
+export type Recording = {
+    version: number;
+    seed: number;
+    mode: GameMode;
+    level: Level;
+    difficulty: Difficulty;
+    players: number;
+    config: GameConfig;
+    ticks: number;
+    inputs: RecordedInput[];
+};
+
+const DIRECTIONS: Record<DirectionCode, Point> = {
+    U: { x: 0, y: -1 },
+    D: { x: 0, y: 1 },
+    L: { x: -1, y: 0 },
+    R: { x: 1, y: 0 }
+};
+
+export const encodeDirection = (dir: Point): DirectionCode =>
+    dir.x < 0 ? 'L' : dir.x > 0 ? 'R' : dir.y < 0 ? 'U' : 'D';
+
+export const decodeDirection = (code: DirectionCode): Point => ({ ...DIRECTIONS[code] });
+
+export const isDirectionCode = (value: unknown): value is DirectionCode =>
+    typeof value === 'string' && Object.keys(DIRECTIONS).includes(value);
+
+// --- Recorder ---
+
+// Takes the same match settings as createGame, so the recording starts the same match.
+export const createRecording = (
+    seed: number,
+    mode: GameMode,
+    level?: Level,
+    difficulty: Difficulty = Difficulty.NORMAL,
+    party: Partial<PartySettings> = {},
+    rules: ConfigOverrides = {}
+): Recording => {
+    const config = modeConfig(mode, rules);
+    return {
+        version: RECORDING_VERSION,
+        seed,
+        mode,
+        level: level ?? configArena(config),
+        difficulty,
+        players: MODES[mode].party ? party.players ?? 2 : 1,
+        config,
+        ticks: 0,
+        inputs: []
+    };
+};
+
+// Appends this frame's turns. Called with the state the input is about to be applied to;
+// only turns the engine will queue are kept, so playback can apply a tick's turns all at once.
+export const recordInput = (rec: Recording, state: GameState, input: PlayerInput) => {
+    state.snakes.forEach((snake, i) => {
+        const player = (i + 1) as PlayerId;
+        const turns = input[player];
+        if (!turns || snake.diedAt !== null) return;
+        for (const turn of acceptedTurns(snake, turns)) {
+            rec.inputs.push([state.tick, player, encodeDirection(turn)]);
+        }
+    });
+};
+
+export const finishRecording = (rec: Recording, state: GameState) => {
+    rec.ticks = state.tick;
+};
+
+// --- Playback ---
+
+// Groups the recorded turns into one input per tick, keeping their order.
+// Apply each tick's input once: the turns are already in the snake's queue after that.
+export const indexInputs = (rec: Recording): Map<number, PlayerInput> => {
+    const byTick = new Map<number, PlayerInput>();
+    for (const [tick, player, dir] of rec.inputs) {
+        const input = byTick.get(tick) ?? {};
+        (input[player] ??= []).push(decodeDirection(dir));
+        byTick.set(tick, input);
+    }
+    return byTick;
+};
+
+export const startReplay = (rec: Recording): GameState =>
+    createGame(rec.mode, rec.seed, rec.level, rec.difficulty, { players: rec.players }, rec.config);
+
+const replayUntil = (state: GameState, inputs: Map<number, PlayerInput>, tick: number) => {
+    while (!state.over && state.tick < tick) {
+        state = step(state, inputs.get(state.tick)).state;
+    }
+    return state;
+};
+
+// Turns made during the last, unfinished tick are still waiting in the queues.
+const settleReplay = (state: GameState, inputs: Map<number, PlayerInput>) =>
+    state.over ? state : update(state, inputs.get(state.tick) ?? {}, 0).state;
+
+const checkLength = (rec: Recording, maxTicks: number) => {
+    if (rec.ticks > maxTicks) throw new Error(`Replay is longer than ${maxTicks} ticks`);
+};
+
+// Re-simulates a whole recording tick by tick and returns the final state. A recording
+// claiming more than `maxTicks` is refused before anything runs.
+export const replayToEnd = (rec: Recording, maxTicks = Infinity): GameState => {
+    checkLength(rec, maxTicks);
+    const inputs = indexInputs(rec);
+    return settleReplay(replayUntil(startReplay(rec), inputs, rec.ticks), inputs);
+};
+
+// The same, awaiting `pause` after every `slice` ticks so a long replay can share its
+// thread with other work.
+export const replayToEndInSlices = async (
+    rec: Recording, maxTicks: number, slice: number, pause: () => Promise<void>
+): Promise<GameState> => {
+    checkLength(rec, maxTicks);
+    const inputs = indexInputs(rec);
+    let state = startReplay(rec);
+    while (!state.over && state.tick < rec.ticks) {
+        state = replayUntil(state, inputs, Math.min(rec.ticks, state.tick + slice));
+        await pause();
+    }
+    return settleReplay(state, inputs);
+};
+
+// --- Import / Export ---
+
+export const serializeRecording = (rec: Recording) => JSON.stringify(rec);
+
+// One [tick, player, direction] entry of an input log, for a match of `players` snakes
+const isRecordedInput = (entry: unknown, players: number): entry is RecordedInput =>
+    isList(entry) && isInt(entry[0]) && isIntIn(entry[1], 1, players) && isDirectionCode(entry[2]);
+
+export const parseRecording = (json: string): Recording => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Replay file is not valid JSON');
+    }
+    if (!isRecord(data)) throw new Error('Replay file is empty');
+    const { version, seed, ticks, mode, players, inputs, level, difficulty } = data;
+    if (!isIntIn(version, 1, RECORDING_VERSION)) throw new Error(`Unsupported replay version: ${version}`);
+    if (!isInt(seed) || !isInt(ticks)) throw new Error('Replay is missing its seed or length');
+    if (!isOneOf(Object.values(GameMode), mode)) throw new Error(`Unknown game mode: ${mode}`);
+    if (version < RECORDING_VERSION) throw new Error('Replay was recorded with older game rules');
+    if (!isList(inputs)) throw new Error('Replay has no input log');
+
+    const valid = MODES[mode].party ? isIntIn(players, 2, MAX_PLAYERS) : players === 1;
+    if (typeof players !== 'number' || !valid) throw new Error(`Unsupported player count: ${players}`);
+
+    let config: GameConfig;
+    try {
+        config = validateConfig(data.config);
+    } catch (e) {
+        throw new Error(`Replay has invalid rules: ${(e as Error).message}`);
+    }
+
+    if (!inputs.every((entry): entry is RecordedInput => isRecordedInput(entry, players))) {
+        throw new Error('Replay input log is corrupt');
+    }
+
+    if (!isRecord(level) || !isList(level.map)) throw new Error('Replay is missing its level');
+    const played = parseLevel(level.map.join('\n'), String(level.name), String(level.id));
+    if (!isOneOf(Object.values(Difficulty), difficulty)) throw new Error(`Unknown difficulty: ${difficulty}`);
+
+    return {
+        version: RECORDING_VERSION,
+        seed: seed >>> 0,
+        mode,
+        level: played,
+        difficulty,
+        players,
+        config,
+        ticks,
+        inputs
+    };
+};
@@ -0,0 +1,22 @@
+// Seedable PRNG (mulberry32). The generator state is a plain 32-bit integer so it
+// can live inside GameState and be serialized alongside the rest of the match.
+
+export const randomSeed = (): number => (Math.random() * 0x100000000) >>> 0;
+
+export const nextRandom = (state: number): { value: number; state: number } => {
+    const next = (state + 0x6D2B79F5) >>> 0;
+    let t = next;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+};
+
+// A seed that is always the same for the same text (FNV-1a), for matches everyone should
+// get alike, such as the daily challenge.
+export const seedFromText = (text: string): number => {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+};
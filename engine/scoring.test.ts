@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { Enemy, EnemyKind, GameEvent, GameMode, PacmanPersonality, Point, PowerupType, ScoreSource, Snake } from '../types';
+import {
+    COMBO_WINDOW, DOUBLE_POINTS_DURATION, FREEZE_DURATION, MAX_MULTIPLIER, NEAR_MISS_COOLDOWN,
+    NEAR_MISS_POINTS, QUICK_KILL_POINTS, START_MOVE_INTERVAL
+} from './constants';
+import { step } from './engine';
+import { scoreMultiplier, scoreNearMisses } from './scoring';
+import { makeSnake, makeState } from './testUtils';
+
+const column = (x: number, y: number, length: number): Point[] => Array.from({ length }, (_, i) => ({ x, y: y + i }));
+
+const pacman = (x: number, y: number, frozen = 0): Enemy => ({
+    id: 0, kind: EnemyKind.PACMAN, name: 'PACMAN', personality: PacmanPersonality.CHASER,
+    x, y, frozen, moveTick: 0, respawn: 0
+});
+
+const total = (s: Snake) => Object.values(s.points).reduce((a, b) => a + b, 0);
+
+describe('multiplier', () => {
+    it('grows a quarter with every ten segments', () => {
+        const s = makeState(GameMode.PVC);
+        expect(scoreMultiplier(s, makeSnake(column(10, 5, 9)))).toBe(1);
+        expect(scoreMultiplier(s, makeSnake(column(10, 5, 10)))).toBe(1.25);
+        expect(scoreMultiplier(s, makeSnake(column(10, 0, 20)))).toBe(1.5);
+    });
+
+    it('grows a quarter for every fifth faster than the match started', () => {
+        const s = makeState(GameMode.PVC, { baseMoveInterval: START_MOVE_INTERVAL / 1.2 });
+        expect(scoreMultiplier(s, makeSnake(column(10, 5, 1)))).toBe(1.25);
+        expect(scoreMultiplier({ ...s, baseMoveInterval: START_MOVE_INTERVAL / 2 }, makeSnake(column(10, 5, 1)))).toBe(2.25);
+    });
+
+    it(`stops at x${MAX_MULTIPLIER}`, () => {
+        const s = makeState(GameMode.PVC, { baseMoveInterval: 10 });
+        expect(scoreMultiplier(s, makeSnake(column(10, 0, 20)))).toBe(MAX_MULTIPLIER);
+    });
+});
+
+describe('points', () => {
+    it('chains food eaten in quick succession into a combo', () => {
+        let s = makeState(GameMode.PVC, { snakes: [makeSnake(column(10, 10, 2))], food: [{ x: 10, y: 9 }] });
+        s = step(s).state;
+        s = step({ ...s, food: [{ x: 10, y: 8 }] }).state;
+        const { state, events } = step({ ...s, food: [{ x: 10, y: 7 }] });
+        expect(state.snakes[0].points).toMatchObject({ [ScoreSource.FOOD]: 3, [ScoreSource.COMBO]: 1 + 2 });
+        expect(events).toContainEqual({ type: 'scored', by: 1, source: ScoreSource.COMBO, points: 2, at: { x: 10, y: 7 } });
+    });
+
+    it('lets a combo lapse once the window has passed', () => {
+        let s = makeState(GameMode.PVC, { snakes: [makeSnake(column(10, 10, 2))], food: [{ x: 10, y: 9 }] });
+        s = step(s).state;
+        s = step({ ...s, elapsed: s.elapsed + COMBO_WINDOW, food: [{ x: 10, y: 8 }] }).state;
+        expect(s.snakes[0].combo.count).toBe(1);
+        expect(s.snakes[0].points[ScoreSource.COMBO]).toBe(0);
+    });
+
+    it('pays more for a Pacman eaten early in its freeze', () => {
+        const early = step(makeState(GameMode.PVC, { snakes: [makeSnake(column(10, 10, 2))], enemies: [pacman(10, 9, FREEZE_DURATION)] })).state;
+        const late = step(makeState(GameMode.PVC, { snakes: [makeSnake(column(10, 10, 2))], enemies: [pacman(10, 9, 10)] })).state;
+        expect(early.snakes[0].points[ScoreSource.QUICK_KILL]).toBe(QUICK_KILL_POINTS);
+        expect(late.snakes[0].points[ScoreSource.QUICK_KILL]).toBe(0);
+    });
+
+    it('books what DOUBLE POINTS adds under the multiplier', () => {
+        const doubled = { ...makeSnake(column(10, 10, 2)), effects: { [PowerupType.DOUBLE_POINTS]: DOUBLE_POINTS_DURATION } };
+        const { state } = step(makeState(GameMode.PVC, { snakes: [doubled], food: [{ x: 10, y: 9 }] }));
+        expect(state.snakes[0].score).toBe(2);
+        expect(state.snakes[0].points).toMatchObject({ [ScoreSource.FOOD]: 1, [ScoreSource.MULTIPLIER]: 1 });
+        expect(total(state.snakes[0])).toBe(state.snakes[0].score);
+    });
+});
+
+describe('near misses', () => {
+    it('pays a snake that ends its move beside a hungry Pacman, then not again for a while', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(column(10, 10, 2))], enemies: [pacman(11, 9)] });
+        const events: GameEvent[] = [];
+        scoreNearMisses(s, events);
+        expect(s.snakes[0].score).toBe(NEAR_MISS_POINTS);
+        expect(events).toEqual([{ type: 'scored', by: 1, source: ScoreSource.NEAR_MISS, points: NEAR_MISS_POINTS, at: { x: 10, y: 10 } }]);
+
+        scoreNearMisses({ ...s, tick: s.tick + NEAR_MISS_COOLDOWN - 1 }, events);
+        expect(s.snakes[0].score).toBe(NEAR_MISS_POINTS);
+        scoreNearMisses({ ...s, tick: s.tick + NEAR_MISS_COOLDOWN }, events);
+        expect(s.snakes[0].score).toBe(NEAR_MISS_POINTS * 2);
+    });
+
+    it('ignores a frozen Pacman and one further off', () => {
+        const s = makeState(GameMode.PVC, { snakes: [makeSnake(column(10, 10, 2))], enemies: [pacman(11, 9, 20), pacman(12, 10)] });
+        scoreNearMisses(s, []);
+        expect(s.snakes[0].score).toBe(0);
+    });
+});
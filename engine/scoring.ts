@@ -0,0 +1,87 @@
+import { Enemy, EnemyKind, GameEvent, GameState, PlayerId, Point, PowerupType, ScoreBreakdown, ScoreSource, Snake } from '../types';
+import {
+    COMBO_WINDOW, FREEZE_DURATION, MAX_COMBO_BONUS, MAX_MULTIPLIER, MULTIPLIER_LENGTH_STEP, MULTIPLIER_SPEED_STEP,
+    NEAR_MISS_COOLDOWN, NEAR_MISS_POINTS, QUICK_KILL_POINTS
+} from './constants';
+import { POWERUPS } from './powerups';
+import { isActive, isAlive, snakeInterval } from './engine';
+
+// --- Scoring ---
+// Every point a snake scores goes through `scorePoints`, which scales it by the snake's
+// multiplier, books it under where it came from and reports it for the score popups.
+// Like powerups.ts, this module and engine.ts import each other, so nothing here may run
+// at import time.
+
+// In the order the game-over screen lists them.
+export const SCORE_SOURCES: { source: ScoreSource; name: string }[] = [
+    { source: ScoreSource.FOOD, name: 'FOOD' },
+    { source: ScoreSource.POWERUP, name: 'POWERUPS' },
+    { source: ScoreSource.PACMAN, name: 'PACMEN' },
+    { source: ScoreSource.GHOST, name: 'GHOSTS' },
+    { source: ScoreSource.COMBO, name: 'COMBOS' },
+    { source: ScoreSource.NEAR_MISS, name: 'NEAR MISSES' },
+    { source: ScoreSource.QUICK_KILL, name: 'QUICK KILLS' },
+    { source: ScoreSource.MULTIPLIER, name: 'MULTIPLIER' }
+];
+
+export const emptyBreakdown = (): ScoreBreakdown =>
+    Object.fromEntries(Object.values(ScoreSource).map(source => [source, 0])) as ScoreBreakdown;
+
+/**
+ * What a snake's points are worth right now: a quarter more for every
+ * MULTIPLIER_LENGTH_STEP segments, and a quarter more for every MULTIPLIER_SPEED_STEP
+ * percent it moves faster than the match started, up to MAX_MULTIPLIER. Counted in
+ * whole quarters so every machine in a lockstep match gets the same score.
+ */
+export const scoreMultiplier = (s: GameState, snake: Snake) => {
+    const interval = snakeInterval(s, snake);
+    const faster = Math.max(0, s.config.startInterval - interval) * 100;
+    const quarters = Math.floor(snake.body.length / MULTIPLIER_LENGTH_STEP)
+        + Math.floor(faster / (interval * MULTIPLIER_SPEED_STEP));
+    return Math.min(MAX_MULTIPLIER, 1 + quarters / 4);
+};
+
+export const scorePoints = (s: GameState, player: PlayerId, source: ScoreSource, base: number, at: Point, events: GameEvent[]) => {
+    const snake = s.snakes[player - 1];
+    let points = base * scoreMultiplier(s, snake);
+    for (const type of Object.keys(snake.effects) as PowerupType[]) points *= POWERUPS[type].scoreMultiplier ?? 1;
+    points = Math.round(points);
+    if (points === 0) return;
+    snake.score += points;
+    snake.points[source] += base;
+    snake.points[ScoreSource.MULTIPLIER] += points - base;
+    events.push({ type: 'scored', by: player, source, points, at: { ...at } });
+};
+
+// A bite of food within COMBO_WINDOW of the last one keeps the chain going; the chain's
+// bonus is a point for each bite after the first.
+export const scoreFood = (s: GameState, player: PlayerId, at: Point, events: GameEvent[]) => {
+    const snake = s.snakes[player - 1];
+    const chained = snake.combo.count > 0 && s.elapsed - snake.combo.at <= COMBO_WINDOW;
+    snake.combo = { count: chained ? snake.combo.count + 1 : 1, at: s.elapsed };
+    scorePoints(s, player, ScoreSource.FOOD, s.config.points.food, at, events);
+    scorePoints(s, player, ScoreSource.COMBO, Math.min(MAX_COMBO_BONUS, snake.combo.count - 1), at, events);
+};
+
+// The sooner a frozen Pacman is eaten, the more it's worth on top of its usual points.
+export const scoreEnemy = (s: GameState, player: PlayerId, e: Enemy, at: Point, events: GameEvent[]) => {
+    if (e.kind === EnemyKind.GHOST) return scorePoints(s, player, ScoreSource.GHOST, s.config.points.ghost, at, events);
+    scorePoints(s, player, ScoreSource.PACMAN, s.config.points.pacman, at, events);
+    const quick = Math.floor(QUICK_KILL_POINTS * Math.min(e.frozen, FREEZE_DURATION) / FREEZE_DURATION);
+    scorePoints(s, player, ScoreSource.QUICK_KILL, quick, at, events);
+};
+
+// A snake still alive at the end of a tick with a hungry Pacman right beside its head,
+// diagonals included, earned a near miss. Run after the tick's deaths are settled.
+export const scoreNearMisses = (s: GameState, events: GameEvent[]) => {
+    s.snakes.forEach((snake, i) => {
+        if (!isAlive(snake)) return;
+        if (snake.nearMissAt !== null && s.tick - snake.nearMissAt < NEAR_MISS_COOLDOWN) return;
+        const head = snake.body[0];
+        const close = s.enemies.some(e => e.kind === EnemyKind.PACMAN && isActive(e) && e.frozen === 0
+            && Math.max(Math.abs(e.x - head.x), Math.abs(e.y - head.y)) === 1);
+        if (!close) return;
+        snake.nearMissAt = s.tick;
+        scorePoints(s, (i + 1) as PlayerId, ScoreSource.NEAR_MISS, NEAR_MISS_POINTS, head, events);
+    });
+};
@@ -0,0 +1,30 @@
+import { GameMode, GameState, Level, Point, Snake } from '../types';
+import { createGame } from './engine';
+import { emptyBreakdown } from './scoring';
+
+// --- Test Fixtures ---
+// Shared by the engine's tests, so a new Snake or GameState field is filled in here once.
+
+export const UP = { x: 0, y: -1 };
+export const DOWN = { x: 0, y: 1 };
+export const LEFT = { x: -1, y: 0 };
+export const RIGHT = { x: 1, y: 0 };
+
+export const cells = (...points: [number, number][]): Point[] => points.map(([x, y]) => ({ x, y }));
+
+export const makeSnake = (body: Point[], dir: Point = UP, overrides: Partial<Snake> = {}): Snake => ({
+    body, dir, queue: [], score: 0, diedAt: null, effects: {}, moveTimer: 0,
+    points: emptyBreakdown(), combo: { count: 0, at: 0 }, nearMissAt: null,
+    ...overrides
+});
+
+// A quiet board: no enemies, food tucked in the far corner, no powerups on it or dropping
+// in on their own, then the scenario's overrides.
+export const makeState = (
+    mode: GameMode,
+    overrides: Partial<GameState> = {},
+    { seed = 42, level }: { seed?: number; level?: Level } = {}
+): GameState => {
+    const s = createGame(mode, seed, level, undefined, {}, { pickups: { powerupEvery: 0 } });
+    return { ...s, enemies: [], food: [{ x: s.cols - 1, y: s.rows - 1 }], powerups: [], ...overrides };
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_BINDINGS, assignPad, padDirection, parseBindings, rebindButton, rebindKey, keyTurns } from './controls';
+
+const pad = (pressed: number[] = [], axes: number[] = [0, 0]) =>
+    ({ buttons: Array.from({ length: 16 }, (_, i) => ({ pressed: pressed.includes(i) })), axes }) as unknown as Gamepad;
+
+describe('bindings storage', () => {
+    it.each([null, 'not json', '[]', '[{"keys":{}}]'])('falls back to the defaults for %s', json => {
+        expect(parseBindings(json)).toEqual(DEFAULT_BINDINGS);
+    });
+
+    it('loads saved bindings', () => {
+        const saved = rebindKey(DEFAULT_BINDINGS, 1, 'up', 'x');
+        expect(parseBindings(JSON.stringify(saved))).toEqual(saved);
+    });
+});
+
+describe('rebinding', () => {
+    it('swaps a key with whichever action already had it', () => {
+        const b = rebindKey(DEFAULT_BINDINGS, 1, 'up', 'w');
+        expect(b[0].keys.up).toBe('w');
+        expect(b[1].keys.up).toBe('arrowup');
+        expect(DEFAULT_BINDINGS[0].keys.up).toBe('arrowup');
+    });
+
+    it('keeps the pause keys off the directions', () => {
+        expect(() => rebindKey(DEFAULT_BINDINGS, 1, 'up', 'p')).toThrow('P is kept for pause');
+        expect(() => rebindKey(DEFAULT_BINDINGS, 2, 'left', 'escape')).toThrow('ESCAPE is kept for pause');
+        const saved = structuredClone(DEFAULT_BINDINGS);
+        saved[0].keys.up = 'p';
+        expect(parseBindings(JSON.stringify(saved))).toEqual(DEFAULT_BINDINGS);
+    });
+
+    it('swaps buttons only within the player\'s own pad', () => {
+        const b = rebindButton(DEFAULT_BINDINGS, 1, 'up', 13);
+        expect(b[0].buttons).toMatchObject({ up: 13, down: 12 });
+        expect(b[1].buttons).toEqual(DEFAULT_BINDINGS[1].buttons);
+    });
+
+    it('takes a pad away from whoever held it', () => {
+        const b = assignPad(DEFAULT_BINDINGS, 3, 0);
+        expect(b[2].pad).toBe(0);
+        expect(b[0].pad).toBeNull();
+    });
+});
+
+describe('reading input', () => {
+    it('maps a key to every player bound to it, ignoring case', () => {
+        expect(keyTurns(DEFAULT_BINDINGS, 'W')).toEqual([{ player: 2, dir: { x: 0, y: -1 } }]);
+        expect(keyTurns(DEFAULT_BINDINGS, 'q')).toEqual([]);
+    });
+
+    it('reads bound buttons before the stick, and ignores the stick inside the deadzone', () => {
+        const b = DEFAULT_BINDINGS[0];
+        expect(padDirection(pad([14], [0, 1]), b)).toEqual({ x: -1, y: 0 });
+        expect(padDirection(pad([], [0.2, 0.9]), b)).toEqual({ x: 0, y: 1 });
+        expect(padDirection(pad([], [0.3, -0.4]), b)).toBeNull();
+    });
+});
@@ -0,0 +1,144 @@
+import { PlayerId, Point } from '../types';
+import { MAX_PLAYERS } from '../engine/constants';
+import { isInt, isList, isRecord } from '../engine/guards';
+
+// --- Bindings ---
+// Every player has one key and one gamepad button per direction, plus the pad they hold.
+// The left stick of that pad always steers too. Bindings live in localStorage and are
+// checked on load, so a hand-edited or outdated entry falls back to the defaults.
+
+export const ACTIONS = ['up', 'down', 'left', 'right'] as const;
+export type Action = typeof ACTIONS[number];
+
+export const ACTION_DIRECTIONS: Record<Action, Point> = {
+    up: { x: 0, y: -1 },
+    down: { x: 0, y: 1 },
+    left: { x: -1, y: 0 },
+    right: { x: 1, y: 0 }
+};
+
+export type PlayerBindings = {
+    keys: Record<Action, string>;    // KeyboardEvent.key, lower-cased
+    buttons: Record<Action, number>; // standard-mapping button index
+    pad: number | null;              // navigator.getGamepads() slot, null for none
+};
+
+export type Bindings = PlayerBindings[]; // bindings[player - 1]
+
+// Pause and resume, for every player; never bound to a direction.
+export const RESERVED_KEYS = ['p', 'escape'];
+
+export const STORAGE_KEY = 'snake_vs_pacman_controls';
+export const STICK_DEADZONE = 0.5;
+
+// The standard mapping puts the d-pad on buttons 12-15.
+const DPAD = { up: 12, down: 13, left: 14, right: 15 };
+
+export const DEFAULT_BINDINGS: Bindings = [
+    { keys: { up: 'arrowup', down: 'arrowdown', left: 'arrowleft', right: 'arrowright' }, buttons: { ...DPAD }, pad: 0 },
+    { keys: { up: 'w', down: 's', left: 'a', right: 'd' }, buttons: { ...DPAD }, pad: 1 },
+    { keys: { up: 'i', down: 'k', left: 'j', right: 'l' }, buttons: { ...DPAD }, pad: 2 },
+    { keys: { up: '8', down: '5', left: '4', right: '6' }, buttons: { ...DPAD }, pad: 3 } // numpad
+];
+
+const isPlayerBindings = (value: unknown): value is PlayerBindings => {
+    if (!isRecord(value) || !isRecord(value.keys) || !isRecord(value.buttons)) return false;
+    const { keys, buttons } = value;
+    return ACTIONS.every(a => {
+        const key = keys[a];
+        return typeof key === 'string' && !RESERVED_KEYS.includes(key) && isInt(buttons[a]);
+    }) && (value.pad === null || isInt(value.pad));
+};
+
+export const parseBindings = (json: string | null): Bindings => {
+    if (!json) return structuredClone(DEFAULT_BINDINGS);
+    try {
+        const data: unknown = JSON.parse(json);
+        if (isList(data) && data.length === MAX_PLAYERS && data.every(isPlayerBindings)) return data;
+    } catch {
+        // Fall through to the defaults
+    }
+    return structuredClone(DEFAULT_BINDINGS);
+};
+
+export const loadBindings = (): Bindings => parseBindings(localStorage.getItem(STORAGE_KEY));
+
+export const saveBindings = (bindings: Bindings) => localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+
+// --- Rebinding ---
+
+/**
+ * Binds `key` to one player's action. A key can only do one thing, so whichever
+ * action had it before swaps over to the key this action is giving up. Throws for the
+ * pause keys.
+ */
+export const rebindKey = (bindings: Bindings, player: PlayerId, action: Action, key: string): Bindings => {
+    if (RESERVED_KEYS.includes(key)) throw new Error(`${keyLabel(key)} is kept for pause`);
+    const next = structuredClone(bindings);
+    const previous = next[player - 1].keys[action];
+    for (const b of next) {
+        for (const a of ACTIONS) {
+            if (b.keys[a] === key) b.keys[a] = previous;
+        }
+    }
+    next[player - 1].keys[action] = key;
+    return next;
+};
+
+// Buttons only clash within one pad, so only that player's own buttons swap.
+export const rebindButton = (bindings: Bindings, player: PlayerId, action: Action, button: number): Bindings => {
+    const next = structuredClone(bindings);
+    const own = next[player - 1].buttons;
+    const clash = ACTIONS.find(a => own[a] === button);
+    if (clash) own[clash] = own[action];
+    own[action] = button;
+    return next;
+};
+
+// Hands a pad to a player; whoever held it before is left without one.
+export const assignPad = (bindings: Bindings, player: PlayerId, pad: number | null): Bindings => {
+    const next = structuredClone(bindings);
+    if (pad !== null) {
+        for (const b of next) {
+            if (b.pad === pad) b.pad = null;
+        }
+    }
+    next[player - 1].pad = pad;
+    return next;
+};
+
+// --- Reading Input ---
+
+// Every player whose binding includes `key`, with the direction it means for them.
+export const keyTurns = (bindings: Bindings, key: string): { player: PlayerId; dir: Point }[] => {
+    const turns: { player: PlayerId; dir: Point }[] = [];
+    bindings.forEach((b, i) => {
+        const action = ACTIONS.find(a => b.keys[a] === key.toLowerCase());
+        if (action) turns.push({ player: (i + 1) as PlayerId, dir: ACTION_DIRECTIONS[action] });
+    });
+    return turns;
+};
+
+// The direction a pad is held in: a bound button first, otherwise the left stick past the deadzone.
+export const padDirection = (pad: Gamepad, b: PlayerBindings): Point | null => {
+    const pressed = ACTIONS.find(a => pad.buttons[b.buttons[a]]?.pressed);
+    if (pressed) return ACTION_DIRECTIONS[pressed];
+    const [ax = 0, ay = 0] = pad.axes;
+    if (Math.max(Math.abs(ax), Math.abs(ay)) < STICK_DEADZONE) return null;
+    return Math.abs(ax) > Math.abs(ay) ? { x: Math.sign(ax), y: 0 } : { x: 0, y: Math.sign(ay) };
+};
+
+// First button held down on a pad, for the rebinding screen to capture.
+export const pressedButton = (pad: Gamepad): number | null => {
+    const i = pad.buttons.findIndex(button => button.pressed);
+    return i === -1 ? null : i;
+};
+
+export const connectedPads = (): (Gamepad | null)[] => Array.from(navigator.getGamepads?.() ?? []);
+
+// Short names for the settings screen.
+export const keyLabel = (key: string) => ({
+    arrowup: '↑', arrowdown: '↓', arrowleft: '←', arrowright: '→', ' ': 'SPACE'
+} as Record<string, string>)[key] ?? key.toUpperCase();
+
+export const buttonLabel = (button: number) => ({ 12: 'D↑', 13: 'D↓', 14: 'D←', 15: 'D→' } as Record<number, string>)[button] ?? `B${button}`;
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { GameMode, Level, Point } from '../types';
+import { createGame } from '../engine/engine';
+import { parseLevel } from '../engine/levels';
+import { DEFAULT_TOUCH, parseTouchSettings, swipeDirection, touchPlayer } from './touch';
+
+describe('swipes', () => {
+    it('waits until the finger has travelled the minimum distance', () => {
+        expect(swipeDirection(10, 5, 32)).toBeNull();
+        expect(swipeDirection(30, 20, 32)).toEqual({ x: 1, y: 0 });
+    });
+
+    it('snaps to the axis the finger mostly moved along', () => {
+        expect(swipeDirection(-12, 40, 32)).toEqual({ x: 0, y: 1 });
+        expect(swipeDirection(-40, -39, 32)).toEqual({ x: -1, y: 0 });
+    });
+
+    // A canvas 100px wide, 100px from the left of the screen, with a finger on each snake's head.
+    const heads = (level?: Level) => {
+        const s = createGame(GameMode.PVP, 42, level);
+        const screenX = (head: Point) => 100 + (head.x + 0.5) * 100 / s.cols;
+        const [p1, p2] = s.snakes.map(snake => snake.body[0]);
+        return { p1: screenX(p1), p2: screenX(p2), p1Left: p1.x < p2.x };
+    };
+
+    it('gives each half of a split canvas to the snake that starts on it', () => {
+        const classic = heads();
+        expect(classic.p1Left).toBe(false);
+        expect(touchPlayer(classic.p1, 100, 100, true, classic.p1Left)).toBe(1);
+        expect(touchPlayer(classic.p2, 100, 100, true, classic.p1Left)).toBe(2);
+
+        const mirrored = heads(parseLevel(`
+########
+#......#
+#.1..2.#
+#......#
+#......#
+#......#
+#......#
+########
+`));
+        expect(mirrored.p1Left).toBe(true);
+        expect(touchPlayer(mirrored.p1, 100, 100, true, mirrored.p1Left)).toBe(1);
+        expect(touchPlayer(mirrored.p2, 100, 100, true, mirrored.p1Left)).toBe(2);
+    });
+
+    it('leaves an unsplit canvas to P1', () => {
+        expect(touchPlayer(190, 100, 100, false)).toBe(1);
+    });
+});
+
+describe('touch settings', () => {
+    it.each([null, 'nope', '{"swipeDistance":7,"dpad":"left","haptics":true}', '{"swipeDistance":16,"dpad":"up","haptics":true}'])(
+        'falls back to the defaults for %s', json => {
+            expect(parseTouchSettings(json)).toEqual(DEFAULT_TOUCH);
+        }
+    );
+
+    it('loads saved settings', () => {
+        const saved = { swipeDistance: 16, dpad: 'hidden', haptics: false };
+        expect(parseTouchSettings(JSON.stringify(saved))).toEqual(saved);
+    });
+});
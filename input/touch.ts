@@ -0,0 +1,64 @@
+import { PlayerId, Point } from '../types';
+import { isOneOf, isRecord } from '../engine/guards';
+
+// --- Touch Settings ---
+// How far a finger has to travel before it counts as a swipe, where the on-screen d-pad
+// sits (or whether it shows at all), and whether eating and dying buzz the phone.
+
+export const DPAD_LAYOUTS = ['right', 'left', 'hidden'] as const;
+export type DpadLayout = typeof DPAD_LAYOUTS[number];
+
+// Minimum swipe length in screen pixels, shortest first.
+export const SWIPE_DISTANCES = [16, 32, 56];
+
+export type TouchSettings = {
+    swipeDistance: number;
+    dpad: DpadLayout;
+    haptics: boolean;
+};
+
+export const TOUCH_STORAGE_KEY = 'snake_vs_pacman_touch';
+
+export const DEFAULT_TOUCH: TouchSettings = { swipeDistance: SWIPE_DISTANCES[1], dpad: 'right', haptics: true };
+
+export const parseTouchSettings = (json: string | null): TouchSettings => {
+    try {
+        const data: unknown = JSON.parse(json ?? '');
+        if (isRecord(data)
+            && isOneOf(SWIPE_DISTANCES, data.swipeDistance)
+            && isOneOf(DPAD_LAYOUTS, data.dpad)
+            && typeof data.haptics === 'boolean') {
+            return { swipeDistance: data.swipeDistance, dpad: data.dpad, haptics: data.haptics };
+        }
+    } catch {
+        // Fall through to the defaults
+    }
+    return { ...DEFAULT_TOUCH };
+};
+
+export const loadTouchSettings = (): TouchSettings => parseTouchSettings(localStorage.getItem(TOUCH_STORAGE_KEY));
+
+export const saveTouchSettings = (settings: TouchSettings) =>
+    localStorage.setItem(TOUCH_STORAGE_KEY, JSON.stringify(settings));
+
+// --- Gestures ---
+
+/**
+ * Snaps a drag to the axis it mostly moved along, or null while it is still shorter than
+ * `minDistance`. A drag that has turned into a direction starts over from where the finger
+ * is, so one long drag can steer round several corners.
+ */
+export const swipeDirection = (dx: number, dy: number, minDistance: number): Point | null => {
+    if (Math.hypot(dx, dy) < minDistance) return null;
+    return Math.abs(dx) > Math.abs(dy) ? { x: Math.sign(dx), y: 0 } : { x: 0, y: Math.sign(dy) };
+};
+
+// With the canvas split, each half steers the snake that started on it: P1 on the right
+// in the classic face-off, but a map's own spawns can put it on the left.
+export const touchPlayer = (x: number, left: number, width: number, split: boolean, p1Left = false): PlayerId =>
+    !split || (x < left + width / 2) === p1Left ? 1 : 2;
+
+// Short buzz for a bite, a longer one for a death. Browsers without the Vibration API skip it.
+export const vibrate = (pattern: number | number[]) => {
+    navigator.vibrate?.(pattern);
+};
@@ -0,0 +1,49 @@
+import { ClientMessage, RELAY_PORT, ServerMessage } from './protocol';
+
+export type RelayConnection = {
+    send: (msg: ClientMessage) => void;
+    close: () => void;
+};
+
+export const defaultRelayUrl = () => `ws://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+// Opens a socket to the relay. Messages sent before it connects are queued;
+// `onClose` gets a reason when the connection drops or can't be made.
+export const connectRelay = (
+    url: string,
+    onMessage: (msg: ServerMessage) => void,
+    onClose: (reason: string) => void
+): RelayConnection => {
+    const queue: ClientMessage[] = [];
+    let closedByUs = false;
+    let opened = false;
+    const socket = new WebSocket(url);
+
+    socket.onopen = () => {
+        opened = true;
+        queue.splice(0).forEach(msg => socket.send(JSON.stringify(msg)));
+    };
+    socket.onmessage = e => {
+        let msg: ServerMessage;
+        try {
+            msg = JSON.parse(e.data);
+        } catch {
+            return; // Ignore anything that isn't protocol JSON
+        }
+        onMessage(msg);
+    };
+    socket.onclose = () => {
+        if (!closedByUs) onClose(opened ? 'Lost connection to the relay' : `Can't reach a relay at ${url}`);
+    };
+
+    return {
+        send: msg => {
+            if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+            else if (socket.readyState === WebSocket.CONNECTING) queue.push(msg);
+        },
+        close: () => {
+            closedByUs = true;
+            socket.close();
+        }
+    };
+};
@@ -0,0 +1,42 @@
+import { BoardScores, LEADERBOARD_PORT, ScoreSubmission, SubmitResult } from './protocol';
+
+// --- Leaderboard Client ---
+// Talks to the optional leaderboard server (`npm run leaderboard`). With no server set
+// the game only keeps its local boards.
+
+const STORAGE_KEY = 'snake_vs_pacman_leaderboard_url';
+
+export const defaultLeaderboardUrl = () => `http://${window.location.hostname || 'localhost'}:${LEADERBOARD_PORT}`;
+
+export const loadLeaderboardUrl = () => localStorage.getItem(STORAGE_KEY) ?? '';
+
+export const saveLeaderboardUrl = (url: string) => {
+    if (url) localStorage.setItem(STORAGE_KEY, url);
+    else localStorage.removeItem(STORAGE_KEY);
+};
+
+// Resolves with the server's answer, or rejects with a message fit for the screen.
+const request = async <T>(server: string, path: string, init?: RequestInit): Promise<T> => {
+    let res: Response;
+    try {
+        res = await fetch(`${server.replace(/\/+$/, '')}${path}`, init);
+    } catch {
+        throw new Error(`Can't reach a leaderboard at ${server}`);
+    }
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(body?.error ?? `Leaderboard answered ${res.status}`);
+    return body as T;
+};
+
+export const sendScore = (server: string, submission: ScoreSubmission) =>
+    request<SubmitResult>(server, '/scores', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(submission)
+    });
+
+export const fetchTopScores = (server: string, board: string, limit: number) =>
+    request<BoardScores>(server, `/scores?${new URLSearchParams({ board, limit: String(limit) })}`);
+
+export const fetchScoresAround = (server: string, board: string, name: string, span: number) =>
+    request<BoardScores>(server, `/scores/around?${new URLSearchParams({ board, name, span: String(span) })}`);
@@ -0,0 +1,59 @@
+import { HighScore, Level, PlayerId } from '../types';
+import { TickInput } from '../engine/lockstep';
+
+// --- Relay Protocol ---
+// Shared by the browser client and the relay server. Every message is one JSON object.
+// The relay only runs lobbies and forwards match traffic; it never simulates anything.
+
+export const RELAY_PORT = 8787;
+
+export type LobbyInfo = {
+    code: string;
+    player: PlayerId;           // which snake the recipient plays
+    players: number;            // how many seats are taken
+    ready: [boolean, boolean];  // by player
+};
+
+export type ClientMessage =
+    | { type: 'create'; level: Level }
+    | { type: 'join'; code: string }
+    | { type: 'ready'; ready: boolean }
+    | { type: 'leave' }
+    | ({ type: 'input' } & TickInput)
+    | { type: 'ping'; t: number }
+    | { type: 'pong'; t: number };
+
+export type ServerMessage =
+    | ({ type: 'lobby' } & LobbyInfo)
+    | { type: 'start'; seed: number; level: Level }
+    | ({ type: 'input' } & TickInput)
+    | { type: 'ping'; t: number }
+    | { type: 'pong'; t: number }
+    | { type: 'left' }
+    | { type: 'error'; message: string };
+
+// --- Leaderboard API ---
+// The optional leaderboard server is plain HTTP with JSON bodies:
+//   POST /scores                                  submit a run (ScoreSubmission)
+//   GET  /scores?board=KEY&limit=N                the board's top N
+//   GET  /scores/around?board=KEY&name=ABC&span=N  ABC's best run, with N runs either side
+// A board is named by the key it has in the browser (see storage/scores.ts), so both sides
+// agree on which runs compete. Failures answer { error } with a 4xx status.
+
+export const LEADERBOARD_PORT = 8788;
+export const MAX_LIMIT = 100;
+
+// The replay is a serialized recording: its seed and input log let the server play the
+// run again and check the score rather than take it on trust.
+export type ScoreSubmission = {
+    name: string;
+    score: number;
+    replay: string;
+};
+
+export type RankedScore = HighScore & { rank: number };
+
+export type BoardScores = { board: string; scores: RankedScore[] };
+
+// `rank` is null when the run didn't make the stored part of the board.
+export type SubmitResult = { board: string; rank: number | null; entry: HighScore };
@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GameMode } from '../types';
+import { BoardScores, SubmitResult } from '../net/protocol';
+import { Recording, createRecording, replayToEnd, serializeRecording } from '../engine/replay';
+import { arenaLevel } from '../engine/levels';
+import { dailySeed } from '../engine/daily';
+import { boardKey, standardBoard } from '../storage/scores';
+import { startLeaderboard, verifySubmission } from './leaderboard';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+// A run left to play itself out: the snake goes straight on until it hits a wall.
+const playOut = (rec: Recording) => {
+    const state = replayToEnd({ ...rec, ticks: 10_000 });
+    rec.ticks = state.tick;
+    return { replay: serializeRecording(rec), score: state.snakes[0].score };
+};
+
+const classicRun = () => playOut(createRecording(42, GameMode.CLASSIC));
+
+describe('verifySubmission', () => {
+    it('ranks a genuine run on the board it was played on', async () => {
+        const { replay, score } = classicRun();
+        const { key, entry } = await verifySubmission({ name: 'abc', score, replay }, NOW);
+        expect(key).toBe(boardKey(standardBoard(GameMode.CLASSIC)));
+        expect(entry).toMatchObject({ name: 'ABC', score, date: NOW.toISOString(), replay: null });
+        expect(entry.stats?.seconds).toBeGreaterThan(0);
+    });
+
+    it('turns away a score the replay does not reach', async () => {
+        const { replay, score } = classicRun();
+        await expect(verifySubmission({ name: 'ABC', score: score + 500, replay }, NOW))
+            .rejects.toThrow(`Score doesn't match its replay (replays to ${score})`);
+    });
+
+    it('turns away modes without a leaderboard and custom maps', async () => {
+        const pvp = playOut(createRecording(42, GameMode.PVP));
+        await expect(verifySubmission({ name: 'ABC', ...pvp }, NOW)).rejects.toThrow('has no leaderboard');
+        const custom = playOut(createRecording(42, GameMode.PVC, arenaLevel(20, 20)));
+        await expect(verifySubmission({ name: 'ABC', ...custom }, NOW)).rejects.toThrow('Runs on custom maps are not ranked');
+    });
+
+    it('only takes the daily challenge of today or yesterday', async () => {
+        const today = playOut(createRecording(dailySeed('2026-03-01'), GameMode.DAILY));
+        expect((await verifySubmission({ name: 'ABC', ...today }, NOW)).key).toBe('snake_vs_pacman_daily_2026-03-01');
+        const yesterday = playOut(createRecording(dailySeed('2026-02-28'), GameMode.DAILY));
+        expect((await verifySubmission({ name: 'ABC', ...yesterday }, NOW)).key).toBe('snake_vs_pacman_daily_2026-02-28');
+        const old = playOut(createRecording(dailySeed('2026-02-01'), GameMode.DAILY));
+        await expect(verifySubmission({ name: 'ABC', ...old }, NOW)).rejects.toThrow('Not a current daily challenge');
+    });
+
+    it('ranks a Zen run well past ten minutes', async () => {
+        const zen = { ...createRecording(42, GameMode.ZEN), ticks: 20_000 };
+        const { score } = replayToEnd(zen).snakes[0];
+        const { entry } = await verifySubmission({ name: 'ABC', score, replay: serializeRecording(zen) }, NOW);
+        expect(entry.stats?.seconds).toBeGreaterThan(10 * 60);
+    });
+
+    it.each([
+        [{ name: '', score: 0, replay: '{}' }, 'Name must be 1 to 3 characters'],
+        [{ name: 'ABCD', score: 0, replay: '{}' }, 'Name must be 1 to 3 characters'],
+        [{ name: 'ABC', score: 1.5, replay: '{}' }, 'Score must be a whole number'],
+        [{ name: 'ABC', score: 0, replay: '{' }, 'Replay file is not valid JSON']
+    ])('rejects %o', async (sub, message) => {
+        await expect(verifySubmission(sub, NOW)).rejects.toThrow(message);
+    });
+});
+
+describe('leaderboard server', () => {
+    let server: Server | null = null;
+
+    const start = async (file: string | null) => {
+        server = startLeaderboard(0, file);
+        await new Promise(resolve => server!.on('listening', resolve));
+        return `http://localhost:${(server.address() as AddressInfo).port}`;
+    };
+
+    const stop = () => new Promise<void>(resolve => {
+        if (server) server.close(() => resolve());
+        else resolve();
+        server = null;
+    });
+
+    afterEach(stop);
+
+    const post = (url: string, body: unknown) =>
+        fetch(`${url}/scores`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+    it('takes runs, serves the top of a board and the runs around a name', async () => {
+        const url = await start(null);
+        const run = classicRun();
+        for (const name of ['AAA', 'BBB', 'CCC']) {
+            const res = await post(url, { name, ...run });
+            expect(res.status).toBe(201);
+            expect(((await res.json()) as SubmitResult).entry.name).toBe(name);
+        }
+        const key = encodeURIComponent(boardKey(standardBoard(GameMode.CLASSIC)));
+
+        const top = (await (await fetch(`${url}/scores?board=${key}&limit=2`)).json()) as BoardScores;
+        expect(top.scores.map(s => [s.rank, s.name])).toEqual([[1, 'AAA'], [2, 'BBB']]);
+
+        const around = (await (await fetch(`${url}/scores/around?board=${key}&name=ccc&span=1`)).json()) as BoardScores;
+        expect(around.scores.map(s => s.name)).toEqual(['BBB', 'CCC']);
+
+        const missing = await fetch(`${url}/scores/around?board=${key}&name=ZZZ`);
+        expect(missing.status).toBe(404);
+    });
+
+    it('turns away a replay too long to check without replaying it', async () => {
+        const url = await start(null);
+        const zen = { ...createRecording(42, GameMode.ZEN), ticks: 1_000_000 };
+        const res = await post(url, { name: 'ABC', score: 0, replay: serializeRecording(zen) });
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toBe('Replay is longer than 480000 ticks');
+    });
+
+    it('answers a bad submission with the reason', async () => {
+        const url = await start(null);
+        const res = await post(url, { name: 'ABC', score: 99_999, replay: classicRun().replay });
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toMatch(/^Score doesn't match its replay/);
+    });
+
+    it('keeps its boards in its file across restarts', async () => {
+        const file = join(mkdtempSync(join(tmpdir(), 'svp-')), 'leaderboard.json');
+        let url = await start(file);
+        await post(url, { name: 'AAA', ...classicRun() });
+        await stop();
+
+        url = await start(file);
+        const key = encodeURIComponent(boardKey(standardBoard(GameMode.CLASSIC)));
+        const { scores } = (await (await fetch(`${url}/scores?board=${key}`)).json()) as BoardScores;
+        expect(scores.map(s => s.name)).toEqual(['AAA']);
+    });
+});
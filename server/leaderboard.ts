@@ -0,0 +1,215 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { GameMode, HighScore, Level } from '../types';
+import { MIN_SNAKE_INTERVAL, TIME_ATTACK_LIMIT } from '../engine/constants';
+import { BoardScores, MAX_LIMIT, RankedScore, SubmitResult } from '../net/protocol';
+import { parseRecording, replayToEndInSlices } from '../engine/replay';
+import { LEVELS } from '../engine/levels';
+import { configArena } from '../engine/config';
+import { MODES } from '../engine/modes';
+import { dailyKey, dailySeed } from '../engine/daily';
+import { isIntIn, isRecord } from '../engine/guards';
+import {
+    BoardId, MAX_HIGH_SCORES, NAME_LENGTH, SCORE_MODES, addScore, boardKey, boardOf, isStandardBoard, newScore,
+    parseLeaderboard, runStats, serializeLeaderboard
+} from '../storage/scores';
+
+// --- Leaderboard Server ---
+// A reference server for the leaderboard API in net/protocol.ts, small enough to run on
+// a LAN. Every submission is replayed from its seed and inputs before it counts, and the
+// boards live in one JSON file, rewritten after each run that makes it.
+
+const MAX_SCORES = 1000; // kept per board
+const MAX_BODY = 2_000_000; // bytes; a long run's input log fits many times over
+const DEFAULT_SPAN = 2;
+const STORE_VERSION = 1;
+
+// The longest run each mode ranks, in ms of play. Time attack stops at its clock; every
+// other mode goes on as long as the snake does, so it gets a few hours.
+const MAX_RUN_TIME = 4 * 60 * 60 * 1000;
+const MODE_MAX_RUN_TIME: Partial<Record<GameMode, number>> = {
+    [GameMode.TIME_ATTACK]: TIME_ATTACK_LIMIT
+};
+// No snake moves faster than MIN_SNAKE_INTERVAL, so no run of that length takes more ticks
+const maxRunTicks = (mode: GameMode) => Math.ceil((MODE_MAX_RUN_TIME[mode] ?? MAX_RUN_TIME) / MIN_SNAKE_INTERVAL);
+
+// Ticks replayed between turns of the event loop, so a long verify never holds up the
+// requests around it for more than a few milliseconds
+const VERIFY_SLICE = 2_000;
+const nextTurn = () => new Promise<void>(resolve => setImmediate(resolve));
+
+type Board = { board: BoardId; scores: HighScore[]; day: Date }; // `day` picks a daily board's day
+
+// --- Verification ---
+
+const sameMap = (a: Level, b: Level) => JSON.stringify(a.map) === JSON.stringify(b.map);
+
+// The day a daily run was played, from its seed. Yesterday's still counts, for a run
+// started just before midnight UTC.
+const dailyDay = (seed: number, now: Date) =>
+    [now, new Date(now.getTime() - 24 * 60 * 60 * 1000)].map(dailyKey).find(day => dailySeed(day) === seed);
+
+/**
+ * Plays a submitted run again and returns the entry it earns, with the key of its board.
+ * Throws with the reason when the run can't be ranked or doesn't score what it claims.
+ */
+export const verifySubmission = async (
+    sub: unknown, now: Date = new Date()
+): Promise<{ key: string; board: BoardId; day: Date; entry: HighScore }> => {
+    if (!isRecord(sub)) throw new Error('Submission is empty');
+    const name = typeof sub.name === 'string' ? sub.name.trim().toUpperCase() : '';
+    if (!name || name.length > NAME_LENGTH) throw new Error(`Name must be 1 to ${NAME_LENGTH} characters`);
+    if (!isIntIn(sub.score, 0, Infinity)) throw new Error('Score must be a whole number');
+    if (typeof sub.replay !== 'string') throw new Error('Submission has no replay');
+
+    const rec = parseRecording(sub.replay);
+    if (!SCORE_MODES.includes(rec.mode) || rec.players !== 1) throw new Error(`${MODES[rec.mode].name} has no leaderboard`);
+    if (![...LEVELS, configArena(rec.config)].some(l => sameMap(l, rec.level))) throw new Error('Runs on custom maps are not ranked');
+
+    let day = now;
+    if (rec.mode === GameMode.DAILY) {
+        const played = dailyDay(rec.seed, now);
+        if (!played) throw new Error('Not a current daily challenge');
+        day = new Date(`${played}T00:00:00.000Z`);
+    }
+
+    const state = await replayToEndInSlices(rec, maxRunTicks(rec.mode), VERIFY_SLICE, nextTurn);
+    if (!state.over && !MODES[rec.mode].deathless) throw new Error('Replay stops before the run is over');
+    const board = boardOf(state);
+    if (rec.mode === GameMode.DAILY && !isStandardBoard(board)) throw new Error('Daily challenge was played with other rules');
+    const score = state.snakes[0].score;
+    if (score !== sub.score) throw new Error(`Score doesn't match its replay (replays to ${score})`);
+
+    return { key: boardKey(board, day), board, day, entry: newScore(name, score, runStats(state), null, now) };
+};
+
+// --- Storage ---
+// { version, boards: { [key]: leaderboard document } }, each board in the same format the
+// browser stores and downloads.
+
+const loadStore = (file: string | null): Map<string, Board> => {
+    const boards = new Map<string, Board>();
+    if (!file || !existsSync(file)) return boards;
+    const data: unknown = JSON.parse(readFileSync(file, 'utf8'));
+    if (!isRecord(data) || data.version !== STORE_VERSION || !isRecord(data.boards)) {
+        throw new Error(`${file} is not a leaderboard store`);
+    }
+    for (const [key, doc] of Object.entries(data.boards)) {
+        const { board, day, scores } = parseLeaderboard(JSON.stringify(doc), MAX_SCORES);
+        if (board) boards.set(key, { board, scores, day: day ? new Date(`${day}T00:00:00.000Z`) : new Date() });
+    }
+    return boards;
+};
+
+// Written beside the file and moved over it, so a crash mid-write can't lose the boards.
+const saveStore = (file: string | null, boards: Map<string, Board>) => {
+    if (!file) return;
+    const docs: Record<string, unknown> = {};
+    boards.forEach(({ board, scores, day }, key) => { docs[key] = JSON.parse(serializeLeaderboard(board, scores, undefined, day)); });
+    writeFileSync(`${file}.tmp`, JSON.stringify({ version: STORE_VERSION, boards: docs }));
+    renameSync(`${file}.tmp`, file);
+};
+
+// --- HTTP ---
+
+// An error with the status to answer it with; anything else thrown is a 500.
+type HttpError = Error & { status: number };
+
+const httpError = (status: number, message: string): HttpError => Object.assign(new Error(message), { status });
+
+const fail = (status: number, message: string): never => {
+    throw httpError(status, message);
+};
+
+const isHttpError = (e: unknown): e is HttpError => e instanceof Error && typeof (e as HttpError).status === 'number';
+
+const reply = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type'
+    });
+    res.end(body === null ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+        if (body.length > MAX_BODY) return; // already rejected; let the rest drain
+        body += chunk;
+        if (body.length > MAX_BODY) reject(httpError(413, 'Submission is too large'));
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+});
+
+const count = (value: string | null, fallback: number, max: number) => {
+    const n = value === null ? fallback : Number(value);
+    return Number.isInteger(n) ? Math.max(0, Math.min(max, n)) : fallback;
+};
+
+const ranked = (scores: HighScore[], from: number, to: number): RankedScore[] =>
+    scores.slice(from, to).map((s, i) => ({ ...s, rank: from + i + 1 }));
+
+/** Serves the leaderboard API on `port`, keeping the boards in `file` (in memory only if null). */
+export const startLeaderboard = (port: number, file: string | null): Server => {
+    const boards = loadStore(file);
+
+    const submit = async (req: IncomingMessage): Promise<SubmitResult> => {
+        let sub: unknown;
+        try {
+            sub = JSON.parse(await readBody(req));
+        } catch (e) {
+            if (isHttpError(e)) throw e;
+            return fail(400, 'Submission is not valid JSON');
+        }
+        let verified: Awaited<ReturnType<typeof verifySubmission>>;
+        try {
+            verified = await verifySubmission(sub);
+        } catch (e) {
+            return fail(400, (e as Error).message);
+        }
+        const { key, board, day, entry } = verified;
+        const scores = addScore(boards.get(key)?.scores ?? [], entry, MAX_SCORES);
+        const rank = scores.indexOf(entry) + 1;
+        if (rank > 0) {
+            boards.set(key, { board, scores, day });
+            saveStore(file, boards);
+        }
+        return { board: key, rank: rank || null, entry };
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (req.method === 'OPTIONS') return reply(res, 204, null);
+        if (req.method === 'POST' && url.pathname === '/scores') return reply(res, 201, await submit(req));
+        if (req.method !== 'GET') return fail(405, 'Method not allowed');
+
+        const key = url.searchParams.get('board');
+        if (url.pathname !== '/scores' && url.pathname !== '/scores/around') return fail(404, 'Not found');
+        if (!key) return fail(400, 'Which board? Pass ?board=KEY');
+        const scores = boards.get(key)?.scores ?? [];
+
+        if (url.pathname === '/scores') {
+            const limit = count(url.searchParams.get('limit'), MAX_HIGH_SCORES, MAX_LIMIT);
+            return reply(res, 200, { board: key, scores: ranked(scores, 0, limit) } satisfies BoardScores);
+        }
+        const name = (url.searchParams.get('name') ?? '').toUpperCase();
+        const span = count(url.searchParams.get('span'), DEFAULT_SPAN, MAX_LIMIT / 2);
+        const i = scores.findIndex(s => s.name === name);
+        if (i < 0) return fail(404, `No runs by ${name || 'that name'} on this board`);
+        return reply(res, 200, { board: key, scores: ranked(scores, Math.max(0, i - span), i + span + 1) } satisfies BoardScores);
+    };
+
+    const server = createServer((req, res) => {
+        handle(req, res).catch(e => {
+            if (isHttpError(e)) return reply(res, e.status, { error: e.message });
+            console.error(e);
+            reply(res, 500, { error: 'Leaderboard server error' });
+        });
+    });
+    server.listen(port);
+    return server;
+};
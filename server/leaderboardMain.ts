@@ -0,0 +1,10 @@
+import { LEADERBOARD_PORT } from '../net/protocol';
+import { startLeaderboard } from './leaderboard';
+
+// Run with `npm run leaderboard`; set PORT to listen somewhere other than the default and
+// LEADERBOARD_FILE to keep the boards somewhere other than ./leaderboard.json.
+const port = Number(process.env.PORT) || LEADERBOARD_PORT;
+const file = process.env.LEADERBOARD_FILE || 'leaderboard.json';
+startLeaderboard(port, file).on('listening', () => {
+    console.log(`Snake vs Pacman leaderboard listening on http://localhost:${port}, saving to ${file}`);
+});
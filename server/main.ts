@@ -0,0 +1,8 @@
+import { RELAY_PORT } from '../net/protocol';
+import { startRelay } from './relay';
+
+// Run with `npm run relay`; set PORT to listen somewhere other than the default.
+const port = Number(process.env.PORT) || RELAY_PORT;
+startRelay(port).on('listening', () => {
+    console.log(`Snake vs Pacman relay listening on ws://localhost:${port}`);
+});
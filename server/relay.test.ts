@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ClientMessage, ServerMessage } from '../net/protocol';
+import { OPEN_ARENA } from '../engine/levels';
+import { startRelay } from './relay';
+
+let relay: WebSocketServer;
+let url: string;
+
+beforeAll(async () => {
+    relay = startRelay(0);
+    await new Promise(resolve => relay.on('listening', resolve));
+    url = `ws://localhost:${(relay.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => relay.close(() => resolve())));
+
+// A test client that keeps every message so tests can wait for the next one of a type.
+const connect = async () => {
+    const socket = new WebSocket(url);
+    const inbox: ServerMessage[] = [];
+    const waiters: (() => void)[] = [];
+    socket.on('message', data => {
+        inbox.push(JSON.parse(String(data)));
+        waiters.splice(0).forEach(w => w());
+    });
+    await new Promise(resolve => socket.on('open', resolve));
+
+    const next = async <T extends ServerMessage['type']>(type: T): Promise<Extract<ServerMessage, { type: T }>> => {
+        for (;;) {
+            const i = inbox.findIndex(m => m.type === type);
+            if (i >= 0) return inbox.splice(i, 1)[0] as Extract<ServerMessage, { type: T }>;
+            await new Promise<void>(resolve => waiters.push(resolve));
+        }
+    };
+    return {
+        send: (msg: ClientMessage) => socket.send(JSON.stringify(msg)),
+        next,
+        close: () => socket.close()
+    };
+};
+
+const openLobby = async () => {
+    const host = await connect();
+    const guest = await connect();
+    host.send({ type: 'create', level: OPEN_ARENA });
+    const { code } = await host.next('lobby');
+    guest.send({ type: 'join', code });
+    return { host, guest, code };
+};
+
+describe('relay', () => {
+    it('seats the creator as P1 and the joiner as P2', async () => {
+        const { host, guest, code } = await openLobby();
+        expect(code).toMatch(/^[A-Z2-9]{4}$/);
+        expect(await guest.next('lobby')).toMatchObject({ code, player: 2, players: 2 });
+        expect(await host.next('lobby')).toMatchObject({ code, player: 1, players: 2 });
+        host.close();
+        guest.close();
+    });
+
+    it('starts both players on the same seed and level once both are ready', async () => {
+        const { host, guest } = await openLobby();
+        host.send({ type: 'ready', ready: true });
+        guest.send({ type: 'ready', ready: true });
+        const [a, b] = await Promise.all([host.next('start'), guest.next('start')]);
+        expect(a).toEqual(b);
+        expect(a.level).toEqual(OPEN_ARENA);
+        host.close();
+        guest.close();
+    });
+
+    it('forwards turns and pings to the other seat only', async () => {
+        const { host, guest } = await openLobby();
+        host.send({ type: 'input', tick: 3, turns: ['L'], hashTick: 1, hash: 42 });
+        expect(await guest.next('input')).toEqual({ type: 'input', tick: 3, turns: ['L'], hashTick: 1, hash: 42 });
+        guest.send({ type: 'ping', t: 7 });
+        expect(await host.next('ping')).toEqual({ type: 'ping', t: 7 });
+        host.close();
+        guest.close();
+    });
+
+    it('rejects unknown codes and full lobbies', async () => {
+        const { host, guest, code } = await openLobby();
+        const third = await connect();
+        third.send({ type: 'join', code: 'IIII' });
+        expect(await third.next('error')).toEqual({ type: 'error', message: 'No lobby with code IIII' });
+        third.send({ type: 'join', code });
+        expect(await third.next('error')).toEqual({ type: 'error', message: 'Lobby is full' });
+        host.close();
+        guest.close();
+        third.close();
+    });
+
+    it('tells the other player when someone leaves', async () => {
+        const { host, guest } = await openLobby();
+        await guest.next('lobby');
+        guest.close();
+        expect(await host.next('left')).toEqual({ type: 'left' });
+        host.close();
+    });
+});
@@ -0,0 +1,138 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { Level, PlayerId } from '../types';
+import { ClientMessage, ServerMessage } from '../net/protocol';
+
+// --- Lobbies ---
+// A lobby has two seats. The creator plays P1 and picks the level; whoever joins with
+// the code plays P2. Once both are ready the relay rolls the seed and starts the match,
+// then forwards turns, pings and hashes between the two seats until someone leaves.
+
+type Lobby = {
+    code: string;
+    level: Level;
+    seats: [WebSocket | null, WebSocket | null];
+    ready: [boolean, boolean];
+};
+
+type Seat = { lobby: Lobby; player: PlayerId };
+
+// No I/O/0/1, so codes can be read out loud.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+
+const send = (socket: WebSocket | null, msg: ServerMessage) => {
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+};
+
+const parseMessage = (data: unknown): ClientMessage | null => {
+    try {
+        const msg = JSON.parse(String(data));
+        return msg && typeof msg.type === 'string' ? msg : null;
+    } catch {
+        return null;
+    }
+};
+
+export const startRelay = (port: number): WebSocketServer => {
+    const lobbies = new Map<string, Lobby>();
+    const seats = new Map<WebSocket, Seat>();
+
+    const newCode = () => {
+        let code: string;
+        do {
+            code = Array.from({ length: CODE_LENGTH }, () =>
+                CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+            ).join('');
+        } while (lobbies.has(code));
+        return code;
+    };
+
+    const broadcastLobby = (lobby: Lobby) => {
+        const players = lobby.seats.filter(Boolean).length;
+        lobby.seats.forEach((socket, i) => send(socket, {
+            type: 'lobby',
+            code: lobby.code,
+            player: (i + 1) as PlayerId,
+            players,
+            ready: [...lobby.ready]
+        }));
+    };
+
+    const peerOf = (socket: WebSocket) => {
+        const seat = seats.get(socket);
+        return seat ? seat.lobby.seats[seat.player === 1 ? 1 : 0] : null;
+    };
+
+    // Either player leaving ends the lobby: a lockstep match can't go on with one side.
+    const leave = (socket: WebSocket) => {
+        const seat = seats.get(socket);
+        if (!seat) return;
+        const peer = peerOf(socket);
+        seats.delete(socket);
+        if (peer) {
+            seats.delete(peer);
+            send(peer, { type: 'left' });
+        }
+        lobbies.delete(seat.lobby.code);
+    };
+
+    const handle = (socket: WebSocket, msg: ClientMessage) => {
+        switch (msg.type) {
+            case 'create': {
+                if (!msg.level || !Array.isArray(msg.level.map)) return send(socket, { type: 'error', message: 'Lobby needs a level' });
+                leave(socket);
+                const lobby: Lobby = { code: newCode(), level: msg.level, seats: [socket, null], ready: [false, false] };
+                lobbies.set(lobby.code, lobby);
+                seats.set(socket, { lobby, player: 1 });
+                broadcastLobby(lobby);
+                break;
+            }
+            case 'join': {
+                const code = String(msg.code).toUpperCase();
+                const lobby = lobbies.get(code);
+                if (!lobby) return send(socket, { type: 'error', message: `No lobby with code ${code}` });
+                if (lobby.seats[1] || lobby.seats[0] === socket) return send(socket, { type: 'error', message: 'Lobby is full' });
+                leave(socket);
+                lobby.seats[1] = socket;
+                seats.set(socket, { lobby, player: 2 });
+                broadcastLobby(lobby);
+                break;
+            }
+            case 'ready': {
+                const seat = seats.get(socket);
+                if (!seat) return send(socket, { type: 'error', message: 'Not in a lobby' });
+                const { lobby } = seat;
+                lobby.ready[seat.player - 1] = !!msg.ready;
+                broadcastLobby(lobby);
+                if (lobby.seats[1] && lobby.ready[0] && lobby.ready[1]) {
+                    // Ready flags reset so the next rematch needs a fresh ready-up
+                    lobby.ready = [false, false];
+                    const start: ServerMessage = { type: 'start', seed: Math.floor(Math.random() * 0x100000000), level: lobby.level };
+                    lobby.seats.forEach(s => send(s, start));
+                }
+                break;
+            }
+            case 'leave':
+                leave(socket);
+                break;
+            case 'input':
+            case 'ping':
+            case 'pong':
+                send(peerOf(socket), msg);
+                break;
+            default:
+                send(socket, { type: 'error', message: 'Unknown message' });
+        }
+    };
+
+    const wss = new WebSocketServer({ port });
+    wss.on('connection', socket => {
+        socket.on('message', data => {
+            const msg = parseMessage(data);
+            if (msg) handle(socket, msg);
+            else send(socket, { type: 'error', message: 'Unknown message' });
+        });
+        socket.on('close', () => leave(socket));
+    });
+    return wss;
+};
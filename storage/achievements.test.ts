@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { AchievementId } from '../types';
+import { NO_PROGRESS } from '../engine/achievements';
+import { ACHIEVEMENTS_VERSION, parseAchievements } from './achievements';
+
+describe('achievement progress', () => {
+    it('reads damaged progress as none and skips damaged entries', () => {
+        expect(parseAchievements(null)).toEqual(NO_PROGRESS);
+        expect(parseAchievements('{')).toEqual(NO_PROGRESS);
+        expect(parseAchievements(JSON.stringify({ version: ACHIEVEMENTS_VERSION + 1, unlocked: {}, best: {} }))).toEqual(NO_PROGRESS);
+        const text = JSON.stringify({
+            version: ACHIEVEMENTS_VERSION,
+            unlocked: { [AchievementId.FIRST_PACMAN]: '2026-03-01T12:00:00.000Z', [AchievementId.PURE_WIN]: 'yesterday', other: '2026-03-01T12:00:00.000Z' },
+            best: { [AchievementId.LENGTH_50]: 80, [AchievementId.SURVIVE_5]: 1.5, [AchievementId.FREEZE_CHAIN]: 2 }
+        });
+        expect(parseAchievements(text)).toEqual({
+            unlocked: { [AchievementId.FIRST_PACMAN]: '2026-03-01T12:00:00.000Z' },
+            best: { [AchievementId.LENGTH_50]: 50, [AchievementId.FREEZE_CHAIN]: 2 }
+        });
+    });
+});
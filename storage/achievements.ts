@@ -0,0 +1,39 @@
+import { AchievementId } from '../types';
+import { ACHIEVEMENTS, AchievementProgress, NO_PROGRESS } from '../engine/achievements';
+import { isInt, isRecord } from '../engine/guards';
+
+// --- Achievement Progress ---
+// What has been unlocked, when, and how close the rest have come. Stored as a versioned
+// document like the PVP record; anything that can't be read counts as no progress, and
+// an entry that makes no sense is dropped on its own.
+
+export const ACHIEVEMENTS_VERSION = 1;
+const STORAGE_KEY = 'snake_vs_pacman_achievements';
+
+const isIsoDate = (date: unknown): date is string =>
+    typeof date === 'string' && !Number.isNaN(Date.parse(date)) && new Date(date).toISOString() === date;
+
+export const parseAchievements = (json: string | null): AchievementProgress => {
+    if (!json) return NO_PROGRESS;
+    try {
+        const data: unknown = JSON.parse(json);
+        if (!isRecord(data) || data.version !== ACHIEVEMENTS_VERSION) return NO_PROGRESS;
+        const unlockedOn = isRecord(data.unlocked) ? data.unlocked : {};
+        const bests = isRecord(data.best) ? data.best : {};
+        const progress: AchievementProgress = { unlocked: {}, best: {} };
+        for (const id of Object.values(AchievementId)) {
+            const unlocked = unlockedOn[id];
+            const best = bests[id];
+            if (isIsoDate(unlocked)) progress.unlocked[id] = unlocked;
+            if (isInt(best) && best > 0) progress.best[id] = Math.min(best, ACHIEVEMENTS[id].target);
+        }
+        return progress;
+    } catch {
+        return NO_PROGRESS;
+    }
+};
+
+export const loadAchievements = (): AchievementProgress => parseAchievements(localStorage.getItem(STORAGE_KEY));
+
+export const saveAchievements = (progress: AchievementProgress) =>
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: ACHIEVEMENTS_VERSION, ...progress }));
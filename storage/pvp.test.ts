@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { PVP_VERSION, parsePvpRecord, pvpStandings, recordPvpMatch } from './pvp';
+
+describe('pvp record', () => {
+    it('tallies each named player once per match', () => {
+        let record = recordPvpMatch({}, [{ name: 'AAA', outcome: 'win' }, { name: 'BBB', outcome: 'loss' }]);
+        record = recordPvpMatch(record, [{ name: 'AAA', outcome: 'draw' }, { name: 'AAA', outcome: 'draw' }]);
+        expect(record).toEqual({
+            AAA: { wins: 1, losses: 0, draws: 1 },
+            BBB: { wins: 0, losses: 1, draws: 0 }
+        });
+    });
+
+    it('ranks by wins, then fewest losses', () => {
+        const standings = pvpStandings({
+            AAA: { wins: 1, losses: 3, draws: 0 },
+            BBB: { wins: 2, losses: 0, draws: 0 },
+            CCC: { wins: 1, losses: 1, draws: 5 }
+        });
+        expect(standings.map(p => p.name)).toEqual(['BBB', 'CCC', 'AAA']);
+    });
+
+    it('reads a damaged record as empty and skips damaged players', () => {
+        expect(parsePvpRecord(null)).toEqual({});
+        expect(parsePvpRecord('{')).toEqual({});
+        expect(parsePvpRecord(JSON.stringify({ version: PVP_VERSION + 1, players: {} }))).toEqual({});
+        const text = JSON.stringify({
+            version: PVP_VERSION,
+            players: { AAA: { wins: 1, losses: 0, draws: 0 }, TOOLONG: { wins: 1, losses: 0, draws: 0 }, BBB: { wins: -1 } }
+        });
+        expect(parsePvpRecord(text)).toEqual({ AAA: { wins: 1, losses: 0, draws: 0 } });
+    });
+});
@@ -0,0 +1,60 @@
+import { isRecord } from '../engine/guards';
+import { NAME_LENGTH } from './scores';
+
+// --- PVP Record ---
+// Wins, losses and draws by player name, across every PVP match the players chose to
+// record. Stored as a versioned document like the leaderboards, and read as empty if
+// it can't be.
+
+export const PVP_VERSION = 1;
+const STORAGE_KEY = 'snake_vs_pacman_pvp';
+
+export type PvpTally = { wins: number; losses: number; draws: number };
+export type PvpRecord = Record<string, PvpTally>;
+export type PvpOutcome = 'win' | 'loss' | 'draw';
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+export const parsePvpRecord = (json: string | null): PvpRecord => {
+    if (!json) return {};
+    try {
+        const data: unknown = JSON.parse(json);
+        if (!isRecord(data) || data.version !== PVP_VERSION || !isRecord(data.players)) return {};
+        const record: PvpRecord = {};
+        for (const [name, t] of Object.entries(data.players)) {
+            if (name.length > NAME_LENGTH || !isRecord(t) || !isCount(t.wins) || !isCount(t.losses) || !isCount(t.draws)) continue;
+            record[name] = { wins: t.wins, losses: t.losses, draws: t.draws };
+        }
+        return record;
+    } catch {
+        return {};
+    }
+};
+
+export const loadPvpRecord = (): PvpRecord => parsePvpRecord(localStorage.getItem(STORAGE_KEY));
+
+export const savePvpRecord = (record: PvpRecord) =>
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: PVP_VERSION, players: record }));
+
+// One match's result for each named player. The same name twice in a match counts once.
+export const recordPvpMatch = (record: PvpRecord, outcomes: { name: string; outcome: PvpOutcome }[]): PvpRecord => {
+    const next = { ...record };
+    const seen = new Set<string>();
+    for (const { name, outcome } of outcomes) {
+        if (seen.has(name)) continue;
+        seen.add(name);
+        const t = next[name] ?? { wins: 0, losses: 0, draws: 0 };
+        next[name] = {
+            wins: t.wins + (outcome === 'win' ? 1 : 0),
+            losses: t.losses + (outcome === 'loss' ? 1 : 0),
+            draws: t.draws + (outcome === 'draw' ? 1 : 0)
+        };
+    }
+    return next;
+};
+
+// Most wins first, then fewest losses.
+export const pvpStandings = (record: PvpRecord) =>
+    Object.entries(record)
+        .map(([name, tally]) => ({ name, ...tally }))
+        .sort((a, b) => b.wins - a.wins || a.losses - b.losses || a.name.localeCompare(b.name));
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { Difficulty, GameMode, HighScore } from '../types';
+import { modeConfig } from '../engine/modes';
+import {
+    BoardId, LEADERBOARD_VERSION, MAX_HIGH_SCORES, addScore, boardKey, boardLabel, importLeaderboard, mergeScores, newScore, parseLeaderboard,
+    serializeLeaderboard, standardBoard
+} from './scores';
+
+const score = (name: string, points: number, date: string | null = '2026-03-01T12:00:00.000Z'): HighScore =>
+    ({ name, score: points, date, stats: null, replay: null });
+
+const hard: BoardId = { ...standardBoard(GameMode.PVC), difficulty: Difficulty.HARD };
+
+describe('leaderboard storage', () => {
+    it('round-trips a board through its versioned document', () => {
+        const scores = [
+            { ...score('AAA', 30), stats: { length: 12, seconds: 95, pacmen: 2, powerups: 3 }, replay: 'abc' },
+            score('BBB', 20, null)
+        ];
+        const text = serializeLeaderboard(hard, scores);
+        expect(JSON.parse(text).version).toBe(LEADERBOARD_VERSION);
+        expect(parseLeaderboard(text)).toEqual({ version: LEADERBOARD_VERSION, board: hard, day: null, scores });
+    });
+
+    it('upgrades an old bare array, keeping the dates it can read', () => {
+        const old = JSON.stringify([
+            { name: 'PAC', score: 100, date: '3/1/2026' },
+            { name: 'ELF', score: 25, date: '1. März 2026' }
+        ]);
+        const { board, scores: [pac, elf] } = parseLeaderboard(old);
+        expect(board).toBeNull();
+        expect(pac).toEqual({ name: 'PAC', score: 100, date: new Date(2026, 2, 1).toISOString(), stats: null, replay: null });
+        expect(elf.date).toBeNull();
+    });
+
+    it('reads a version 2 document as entries without stats', () => {
+        const v2 = JSON.stringify({ version: 2, scores: [{ name: 'SNK', score: 50, date: null }] });
+        expect(parseLeaderboard(v2)).toEqual({ version: LEADERBOARD_VERSION, board: null, day: null, scores: [score('SNK', 50, null)] });
+    });
+
+    it('sorts best first, older first on a tie', () => {
+        const { scores } = parseLeaderboard(serializeLeaderboard(hard, [
+            score('NEW', 50, '2026-03-02T00:00:00.000Z'), score('LOW', 10), score('OLD', 50, '2026-03-01T00:00:00.000Z')
+        ]));
+        expect(scores.map(s => s.name)).toEqual(['OLD', 'NEW', 'LOW']);
+    });
+
+    it.each([
+        ['{', 'Leaderboard file is damaged'],
+        ['{"hello":1}', 'Not a leaderboard file'],
+        [`{"version":${LEADERBOARD_VERSION + 1},"scores":[]}`, `Unsupported leaderboard version: ${LEADERBOARD_VERSION + 1}`],
+        ['[{"name":"AAA","score":-5,"date":null}]', 'Leaderboard has a damaged entry'],
+        ['[{"name":"TOOLONG","score":5,"date":null}]', 'Leaderboard has a damaged entry'],
+        [`{"version":${LEADERBOARD_VERSION},"scores":[{"name":"AAA","score":5,"date":"yesterday"}]}`, 'Leaderboard has a damaged entry'],
+        [`{"version":${LEADERBOARD_VERSION},"scores":[{"name":"AAA","score":5,"date":null,"stats":{"length":-1},"replay":null}]}`, 'Leaderboard has a damaged entry'],
+        [`{"version":${LEADERBOARD_VERSION},"board":{"mode":"chess"},"scores":[]}`, 'Leaderboard is for an unknown board']
+    ])('rejects %s', (text, message) => {
+        expect(() => parseLeaderboard(text)).toThrow(message);
+    });
+
+    it('keeps only the top ten', () => {
+        let scores: HighScore[] = [];
+        for (let i = 0; i < MAX_HIGH_SCORES + 2; i++) scores = addScore(scores, newScore('AAA', i, null, null, new Date(i)));
+        expect(scores).toHaveLength(MAX_HIGH_SCORES);
+        expect(scores[0]).toEqual(score('AAA', MAX_HIGH_SCORES + 1, new Date(MAX_HIGH_SCORES + 1).toISOString()));
+    });
+
+    it('merges an import without doubling up scores it already has', () => {
+        const mine = [score('AAA', 30), score('BBB', 20)];
+        const theirs = [score('AAA', 30), score('CCC', 25)];
+        expect(mergeScores(mine, theirs).map(s => s.name)).toEqual(['AAA', 'CCC', 'BBB']);
+        expect(mergeScores(mine, mine)).toEqual(mine);
+    });
+
+    it('imports a file only into the board it was saved from', () => {
+        const mine = [score('AAA', 30)];
+        const zen = serializeLeaderboard(standardBoard(GameMode.ZEN), [score('ZZZ', 90)]);
+        expect(() => importLeaderboard(standardBoard(GameMode.CLASSIC), mine, zen)).toThrow('That file is the ZEN STANDARD board');
+        expect(() => importLeaderboard(standardBoard(GameMode.PVC), mine, serializeLeaderboard(hard, [])))
+            .toThrow('That file is the VS PACMAN HARD · STANDARD board');
+        expect(importLeaderboard(standardBoard(GameMode.ZEN), mine, zen).map(s => s.name)).toEqual(['ZZZ', 'AAA']);
+        expect(importLeaderboard(hard, mine, JSON.stringify([score('OLD', 10)])).map(s => s.name)).toEqual(['AAA', 'OLD']);
+    });
+
+    it('imports a daily challenge file only on the day it was saved', () => {
+        const daily = standardBoard(GameMode.DAILY);
+        const saved = new Date('2026-03-01T12:00:00.000Z');
+        const file = serializeLeaderboard(daily, [score('DAY', 40)], 2, saved);
+        expect(parseLeaderboard(file).day).toBe('2026-03-01');
+        expect(importLeaderboard(daily, [], file, new Date('2026-03-01T23:00:00.000Z')).map(s => s.name)).toEqual(['DAY']);
+        expect(() => importLeaderboard(daily, [], file, new Date('2026-03-02T01:00:00.000Z')))
+            .toThrow("That file is the daily challenge of 2026-03-01, not today's");
+        const undated = JSON.stringify({ ...JSON.parse(file), day: undefined });
+        expect(() => importLeaderboard(daily, [], undated, saved)).toThrow("That file doesn't say which day it is from");
+    });
+});
+
+describe('boards', () => {
+    it('keeps the standard boards on the keys they had before', () => {
+        expect(boardKey(standardBoard(GameMode.PVC))).toBe('snake_vs_pacman_scores');
+        expect(boardKey(standardBoard(GameMode.CLASSIC))).toBe('snake_vs_pacman_scores_classic');
+    });
+
+    it('gives other difficulties and rules boards of their own', () => {
+        const custom: BoardId = { ...standardBoard(GameMode.PVC), config: modeConfig(GameMode.PVC, { pickups: { food: 5 } }) };
+        const keys = new Set([standardBoard(GameMode.PVC), hard, custom, { ...custom, difficulty: Difficulty.HARD }].map(b => boardKey(b)));
+        expect(keys.size).toBe(4);
+        expect(boardLabel(hard)).toBe('HARD · STANDARD');
+        expect(boardLabel(custom)).toBe('NORMAL · CUSTOM RULES');
+    });
+
+    it('ignores the difficulty of modes without Pacman', () => {
+        expect(boardLabel(standardBoard(GameMode.CLASSIC))).toBe('STANDARD');
+    });
+});
@@ -0,0 +1,268 @@
+import { Difficulty, GameConfig, GameMode, GameState, HighScore, RunStats } from '../types';
+import { encodeConfig, presetOf, validateConfig } from '../engine/config';
+import { MODES, SOLO_MODES, modeConfig } from '../engine/modes';
+import { seedFromText } from '../engine/rng';
+import { dailyKey } from '../engine/daily';
+import { isList, isOneOf, isRecord, isString, orNull } from '../engine/guards';
+
+// --- Leaderboard Storage ---
+// Each leaderboard is stored under its own key as a versioned document. Version 1 was a
+// bare array of scores dated with the browser's locale string, version 2 the same scores
+// with ISO dates but no run stats; both are still read, and upgraded the next time the
+// board is saved. The same document is what DOWNLOAD writes and IMPORT reads, so a file
+// from any version can be imported.
+
+export const LEADERBOARD_VERSION = 3;
+export const MAX_HIGH_SCORES = 10;
+export const NAME_LENGTH = 3;
+
+const BOARD_PREFIX = 'snake_vs_pacman_board_';
+const REPLAY_PREFIX = 'snake_vs_pacman_replay_';
+
+// --- Boards ---
+// Every single-snake mode but the campaign keeps high scores, and a run only competes
+// with runs of the same mode, Pacman difficulty and rules. Modes without Pacman ignore
+// the difficulty. The standard board of each mode (NORMAL, the mode's own rules) keeps
+// the key it had before there were others, so old scores stay on it; the daily
+// challenge has one board a day whatever else.
+
+export const SCORE_MODES = [GameMode.PVC, ...SOLO_MODES, GameMode.DAILY];
+
+export type BoardId = {
+    mode: GameMode;
+    difficulty: Difficulty;
+    config: GameConfig;
+};
+
+export type Leaderboard = {
+    version: number;
+    board: BoardId | null; // null for documents from before boards were told apart
+    day: string | null;    // the daily challenge's day; null on every other board
+    scores: HighScore[];
+};
+
+export const boardOf = (s: GameState): BoardId => ({
+    mode: s.mode,
+    difficulty: MODES[s.mode].enemies ? s.difficulty : Difficulty.NORMAL,
+    config: s.config
+});
+
+export const standardBoard = (mode: GameMode): BoardId =>
+    ({ mode, difficulty: Difficulty.NORMAL, config: modeConfig(mode) });
+
+const standardRules = (board: BoardId) => JSON.stringify(board.config) === JSON.stringify(modeConfig(board.mode));
+
+export const isStandardBoard = (board: BoardId) => board.difficulty === Difficulty.NORMAL && standardRules(board);
+
+// Presets go by name; any other rules by a short hash of their share string.
+const rulesTag = (config: GameConfig) => presetOf(config)?.id ?? seedFromText(encodeConfig(config)).toString(36);
+
+// `now` picks the daily challenge's day.
+export const boardKey = (board: BoardId, now: Date = new Date()) =>
+    board.mode === GameMode.DAILY ? `snake_vs_pacman_daily_${dailyKey(now)}`
+    : !isStandardBoard(board) ? `${BOARD_PREFIX}${board.mode}_${board.difficulty}_${rulesTag(board.config)}`
+    : board.mode === GameMode.PVC ? 'snake_vs_pacman_scores'
+    : `snake_vs_pacman_scores_${board.mode}`;
+
+// What the leaderboard screen calls a board within its mode.
+export const boardLabel = (board: BoardId) => {
+    const rules = standardRules(board) || board.mode === GameMode.DAILY ? 'STANDARD'
+        : presetOf(board.config)?.name ?? 'CUSTOM RULES';
+    return MODES[board.mode].enemies ? `${board.difficulty.toUpperCase()} · ${rules}` : rules;
+};
+
+// --- Reading ---
+
+// An old locale date is read if the browser can make sense of it; otherwise it's dropped.
+const migrateDate = (date: unknown): string | null => {
+    if (typeof date !== 'string') return null;
+    const time = Date.parse(date);
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+const isIsoDate = (date: unknown): date is string =>
+    typeof date === 'string' && !Number.isNaN(Date.parse(date)) && new Date(date).toISOString() === date;
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isDay = (day: unknown): day is string => typeof day === 'string' && isIsoDate(`${day}T00:00:00.000Z`);
+
+const checkStats = (stats: unknown): RunStats => {
+    if (!isRecord(stats) || !isCount(stats.length) || !isCount(stats.seconds)
+        || !isCount(stats.pacmen) || !isCount(stats.powerups)) {
+        throw new Error('Leaderboard has a damaged entry');
+    }
+    return { length: stats.length, seconds: stats.seconds, pacmen: stats.pacmen, powerups: stats.powerups };
+};
+
+// Entries from version 1 have a locale date, and those from before version 3 no stats or replay.
+const checkScore = (value: unknown, version: number): HighScore => {
+    if (!isRecord(value) || typeof value.name !== 'string' || value.name.length > NAME_LENGTH || !isCount(value.score)) {
+        throw new Error('Leaderboard has a damaged entry');
+    }
+    const date = version < 2 ? migrateDate(value.date) : value.date;
+    if (!orNull(isIsoDate)(date)) throw new Error('Leaderboard has a damaged entry');
+    if (version < 3) return { name: value.name, score: value.score, date, stats: null, replay: null };
+
+    const { replay } = value;
+    if (!orNull(isString)(replay)) throw new Error('Leaderboard has a damaged entry');
+    const stats = value.stats === null ? null : checkStats(value.stats);
+    return { name: value.name, score: value.score, date, stats, replay };
+};
+
+const checkBoard = (board: unknown): BoardId | null => {
+    if (board === null || board === undefined) return null;
+    if (!isRecord(board) || !isOneOf(Object.values(GameMode), board.mode)
+        || !isOneOf(Object.values(Difficulty), board.difficulty)) {
+        throw new Error('Leaderboard is for an unknown board');
+    }
+    return { mode: board.mode, difficulty: board.difficulty, config: validateConfig(board.config) };
+};
+
+const compareDates = (a: string | null, b: string | null) =>
+    a === b ? 0 : a === null ? 1 : b === null ? -1 : a.localeCompare(b);
+
+// Best first; on a tie the older score keeps its place, and undated ones go last.
+export const compareScores = (a: HighScore, b: HighScore) => b.score - a.score || compareDates(a.date, b.date);
+
+const topScores = (scores: HighScore[], limit = MAX_HIGH_SCORES) => [...scores].sort(compareScores).slice(0, limit);
+
+/**
+ * Reads a stored or downloaded leaderboard of any version, with its best `limit` scores first.
+ * Throws with what is wrong rather than returning a partial board.
+ */
+export const parseLeaderboard = (json: string, limit = MAX_HIGH_SCORES): Leaderboard => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Leaderboard file is damaged');
+    }
+    if (isList(data)) {
+        return { version: LEADERBOARD_VERSION, board: null, day: null, scores: topScores(data.map(entry => checkScore(entry, 1)), limit) };
+    }
+    if (!isRecord(data) || !isList(data.scores)) throw new Error('Not a leaderboard file');
+    const { version, day = null } = data;
+    if (!isCount(version) || version < 2 || version > LEADERBOARD_VERSION) {
+        throw new Error(`Unsupported leaderboard version: ${version}`);
+    }
+    if (!orNull(isDay)(day)) throw new Error('Leaderboard is for an unknown board');
+    return {
+        version: LEADERBOARD_VERSION,
+        board: checkBoard(data.board),
+        day,
+        scores: topScores(data.scores.map(entry => checkScore(entry, version)), limit)
+    };
+};
+
+// Compact for storage; DOWNLOAD indents it for people to read. `now` picks the daily
+// challenge's day, as for boardKey.
+export const serializeLeaderboard = (board: BoardId, scores: HighScore[], indent?: number, now: Date = new Date()) => {
+    const day = board.mode === GameMode.DAILY ? dailyKey(now) : null;
+    const doc: Leaderboard = { version: LEADERBOARD_VERSION, board, day, scores };
+    return JSON.stringify(doc, null, indent);
+};
+
+// --- Updates ---
+
+export const runStats = (s: GameState): RunStats => ({
+    length: s.snakes[0].body.length,
+    seconds: Math.floor(s.elapsed / 1000),
+    pacmen: s.eaten.pacman,
+    powerups: s.eaten.powerups
+});
+
+export const newScore = (
+    name: string,
+    score: number,
+    stats: RunStats | null = null,
+    replay: string | null = null,
+    now: Date = new Date()
+): HighScore => ({ name: name.slice(0, NAME_LENGTH), score, date: now.toISOString(), stats, replay });
+
+export const addScore = (scores: HighScore[], entry: HighScore, limit = MAX_HIGH_SCORES) => topScores([...scores, entry], limit);
+
+// Both boards together, keeping only the best. An entry already on the board (same name,
+// score and date, as after importing a file twice) is only kept once.
+export const mergeScores = (scores: HighScore[], imported: HighScore[]) => {
+    const seen = new Set<string>();
+    return topScores([...scores, ...imported].filter(s => {
+        const id = `${s.name}|${s.score}|${s.date}`;
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+    }));
+};
+
+const sameBoard = (a: BoardId, b: BoardId) =>
+    a.mode === b.mode && a.difficulty === b.difficulty && encodeConfig(a.config) === encodeConfig(b.config);
+
+// A downloaded board merged into the one it came from. Documents older than boards take
+// the open board; one saved from another board, or another day's daily challenge, is
+// refused rather than mixed in.
+export const importLeaderboard = (board: BoardId, scores: HighScore[], json: string, now: Date = new Date()) => {
+    const doc = parseLeaderboard(json);
+    if (doc.board && !sameBoard(doc.board, board)) {
+        throw new Error(`That file is the ${MODES[doc.board.mode].name} ${boardLabel(doc.board)} board`);
+    }
+    if (doc.board?.mode === GameMode.DAILY && doc.day !== dailyKey(now)) {
+        throw new Error(doc.day ? `That file is the daily challenge of ${doc.day}, not today's` : `That file doesn't say which day it is from`);
+    }
+    return mergeScores(scores, doc.scores);
+};
+
+// --- localStorage ---
+// A board that can't be read is treated as empty rather than taking the menu down with it;
+// one never saved at all comes back as null.
+
+export const loadScores = (board: BoardId): HighScore[] | null => {
+    const stored = localStorage.getItem(boardKey(board));
+    if (stored === null) return null;
+    try {
+        return parseLeaderboard(stored).scores;
+    } catch {
+        return [];
+    }
+};
+
+// Replays of entries that fell off the board go with them.
+export const saveScores = (board: BoardId, scores: HighScore[], previous: HighScore[] = []) => {
+    localStorage.setItem(boardKey(board), serializeLeaderboard(board, scores));
+    for (const old of previous) {
+        if (old.replay && !scores.some(s => s.replay === old.replay)) localStorage.removeItem(REPLAY_PREFIX + old.replay);
+    }
+};
+
+// Every board of a mode that has been saved, the standard one always first.
+export const listBoards = (mode: GameMode): BoardId[] => {
+    const boards = [standardBoard(mode)];
+    if (mode === GameMode.DAILY) return boards;
+    const prefix = `${BOARD_PREFIX}${mode}_`;
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(prefix)) continue;
+        try {
+            const { board } = parseLeaderboard(localStorage.getItem(key)!);
+            if (board && board.mode === mode) boards.push(board);
+        } catch {
+            // A damaged board just isn't listed
+        }
+    }
+    return boards;
+};
+
+// --- Replays ---
+// A run that makes the board keeps its replay under its own key, so the board itself
+// stays small. A browser out of storage space simply keeps no replay.
+
+export const storeReplay = (text: string, now: Date = new Date()): string | null => {
+    const id = now.getTime().toString(36);
+    try {
+        localStorage.setItem(REPLAY_PREFIX + id, text);
+        return id;
+    } catch {
+        return null;
+    }
+};
+
+export const loadReplay = (id: string) => localStorage.getItem(REPLAY_PREFIX + id);
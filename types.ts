@@ -3,9 +3,63 @@ export type Point = {
     y: number;
 };
 
+// See engine/modes.ts for what sets each mode apart.
 export enum GameMode {
-    PVC = 'pvc', // Player vs CPU (Pacman)
-    PVP = 'pvp'  // Player vs Player
+    PVC = 'pvc',                // Player vs CPU (Pacman)
+    PVP = 'pvp',                // Player vs Player: 2-4 snakes on one board
+    CLASSIC = 'classic',        // plain Snake: no Pacman, no powerups, solid walls
+    TIME_ATTACK = 'timeattack', // most points in two minutes
+    SURVIVAL = 'survival',      // the board slowly fills with obstacles
+    ZEN = 'zen',                // nothing can kill the snake
+    DAILY = 'daily',            // PVC on the same board for everyone each day
+    CAMPAIGN = 'campaign'       // one stage of the campaign; see engine/campaign.ts
+}
+
+// How a match is decided. A PVC match always runs until the snake dies unless the
+// clock or the target score stops it first.
+export enum WinCondition {
+    LAST_STANDING = 'last', // the last snake alive wins
+    TIMED = 'timed',        // highest score when the clock runs out
+    FIRST_TO = 'first'      // first snake to reach the target score
+}
+
+// What a campaign stage asks of the snake before the match ends in its favour
+export enum ObjectiveKind {
+    FOOD = 'food',        // eat `target` food
+    PACMAN = 'pacman',    // eat a frozen Pacman `target` times
+    SURVIVE = 'survive'   // stay alive for `target` seconds
+}
+
+export type Objective = {
+    kind: ObjectiveKind;
+    target: number;
+};
+
+export enum Difficulty {
+    EASY = 'easy',
+    NORMAL = 'normal',
+    HARD = 'hard',
+    INSANE = 'insane'
+}
+
+// How clever the CPU snake is in PVP
+export enum BotLevel {
+    EASY = 'easy',     // chases food, only looks one move ahead
+    NORMAL = 'normal', // refuses moves that box itself in
+    HARD = 'hard'      // also fights for space to trap the opponent
+}
+
+// Pacman behaviours, loosely modelled on the original ghosts
+export enum PacmanPersonality {
+    CHASER = 'chaser',     // heads straight for the food
+    HUNTER = 'hunter',     // cuts off the snake's head
+    AMBUSHER = 'ambusher', // waits where the snake is heading
+    COWARD = 'coward'      // chases food, but runs away while frozen
+}
+
+export enum EnemyKind {
+    PACMAN = 'pacman', // eats food and powerups, kills the snake on contact
+    GHOST = 'ghost'    // hunts snakes and Pacmen alike
 }
 
 export enum PowerupType {
@@ -13,13 +67,56 @@ export enum PowerupType {
     SPEED = 'speed',
     SLOW = 'slow',
     GHOST = 'ghost',
-    SHRINK = 'shrink'
+    SHRINK = 'shrink',
+    MAGNET = 'magnet',
+    SHIELD = 'shield',
+    REVERSE = 'reverse',
+    TELEPORT = 'teleport',
+    DOUBLE_POINTS = 'double'
+}
+
+// What each one does, looks like and how often it appears: see engine/powerups.ts
+
+// Where a snake's points came from; see engine/scoring.ts
+export enum ScoreSource {
+    FOOD = 'food',
+    POWERUP = 'powerup',
+    PACMAN = 'pacman',
+    GHOST = 'ghost',
+    COMBO = 'combo',           // food eaten in quick succession
+    NEAR_MISS = 'nearMiss',    // brushing past a Pacman
+    QUICK_KILL = 'quickKill',  // eating a Pacman early in its freeze
+    MULTIPLIER = 'multiplier'  // what length, speed and DOUBLE POINTS added on top
+}
+
+export type ScoreBreakdown = Record<ScoreSource, number>;
+
+// Milestones kept across matches; see engine/achievements.ts
+export enum AchievementId {
+    FIRST_PACMAN = 'firstPacman',
+    LENGTH_50 = 'length50',
+    SURVIVE_5 = 'survive5',
+    PURE_WIN = 'pureWin',
+    FREEZE_CHAIN = 'freezeChain'
 }
 
 export type Powerup = {
     x: number;
     y: number;
     type: PowerupType;
+    life: number; // ticks left before it vanishes; it blinks for the last POWERUP_WARNING
+};
+
+export type Enemy = {
+    id: number;
+    kind: EnemyKind;
+    name: string;
+    personality: PacmanPersonality;
+    x: number;
+    y: number;
+    frozen: number;   // ticks of FREEZE left
+    moveTick: number;
+    respawn: number;  // ticks until it comes back after being eaten; 0 while on the board
 };
 
 export type Particle = {
@@ -32,6 +129,22 @@ export type Particle = {
     size: number;
 };
 
+// A score popup floating up from where the points were made, in canvas pixels.
+export type ScorePopup = {
+    x: number;
+    y: number;
+    text: string;
+    color: string;
+    life: number;
+};
+
+// A banner across the top of the board for an achievement just unlocked
+export type Toast = {
+    icon: string;
+    title: string;
+    life: number;
+};
+
 export type SnowFlake = {
     x: number;
     y: number;
@@ -40,8 +153,127 @@ export type SnowFlake = {
     swayOffset: number;
 };
 
+// How a run on a leaderboard went, beyond its score
+export type RunStats = {
+    length: number;   // the snake's length at the end
+    seconds: number;  // how long the run lasted
+    pacmen: number;   // frozen Pacmen eaten
+    powerups: number; // powerups picked up
+};
+
 export type HighScore = {
     name: string;
     score: number;
-    date: string;
-};
\ No newline at end of file
+    date: string | null;     // ISO 8601; null for an old entry whose date couldn't be read
+    stats: RunStats | null;  // null for entries from before runs kept stats
+    replay: string | null;   // id of the run's stored replay, if it was kept
+};
+
+export type PlayerId = 1 | 2 | 3 | 4;
+
+// Timed powerups working on one snake, by type: how many of its moves each has left.
+export type Effects = Partial<Record<PowerupType, number>>;
+
+// Dead snakes stay in the list (and on screen) but are out of play.
+export type Snake = {
+    body: Point[];
+    dir: Point;
+    queue: Point[]; // turns waiting for the coming ticks, oldest first
+    score: number;
+    diedAt: number | null; // tick it died on
+    effects: Effects;
+    moveTimer: number; // ms banked towards its next move; see snakeInterval in engine.ts
+    points: ScoreBreakdown; // `score`, by where it came from
+    combo: { count: number; at: number }; // food in the current chain, and the elapsed ms of the last
+    nearMissAt: number | null; // tick of its last near miss
+};
+
+// PVP only; PVC is always a single snake playing until it dies.
+export type PartySettings = {
+    players: number;
+};
+
+// How much there is to pick up. Every match has at least one food on the board; 0
+// powerups switches them off.
+export type PickupSettings = {
+    food: number;         // food items on the board at once
+    powerups: number;     // most powerups on the board at once
+    powerupEvery: number; // ticks between powerups dropping in on their own; 0 = only from eating
+};
+
+export type ScoreValues = {
+    food: number;
+    powerup: number;
+    pacman: number; // a frozen Pacman eaten
+    ghost: number;  // a frozen ghost eaten
+};
+
+// The rules of a match; see engine/config.ts for the defaults, presets and limits.
+export type GameConfig = {
+    board: { cols: number; rows: number; wrap: boolean }; // the open arena played on when no level is picked
+    startInterval: number; // ms between moves at the start
+    minInterval: number;   // fastest the snakes get
+    acceleration: number;  // ms each bite of food takes off the interval
+    powerups: PowerupType[]; // the ones that can turn up
+    points: ScoreValues;
+    win: WinCondition;
+    timeLimit: number;   // ms; TIMED only
+    targetScore: number; // FIRST_TO only
+    pickups: PickupSettings;
+    waves: number; // most entries of the enemy wave table that join; 0 = no enemies at all
+    objective: Objective | null; // met, it ends the match with the snakes still alive
+};
+
+// A board layout. `map` holds one string per row; see engine/levels.ts for the legend.
+export type Level = {
+    id: string;
+    name: string;
+    map: string[];
+};
+
+// Full simulation state. Plain data only, so it can be cloned, hashed and replayed.
+export type GameState = {
+    mode: GameMode;
+    difficulty: Difficulty;
+    level: Level;
+    cols: number;
+    rows: number;
+    rng: number;
+    tick: number;
+    over: boolean;
+    players: number;
+    config: GameConfig;
+    elapsed: number; // simulated ms, the sum of every tick's move interval
+
+    moveTimer: number;
+    moveInterval: number;     // length of the next tick: the fastest living snake's interval
+    baseMoveInterval: number; // every snake's interval before SPEED or SLOW; food shortens it
+
+    snakes: Snake[]; // snakes[player - 1]
+    pacmanScore: number;
+
+    food: Point[];
+    powerups: Powerup[];
+    powerupTimer: number; // ticks until the next timed powerup drop
+    enemies: Enemy[];
+    wave: number; // how many entries of the enemy wave table have spawned
+    eaten: { food: number; pacman: number; ghosts: number; powerups: number }; // by all the snakes, this match
+};
+
+// Requested turns for this frame, by player and in the order they were made.
+// Omitted players keep their current heading.
+export type PlayerInput = Partial<Record<PlayerId, Point[]>>;
+
+export type GameEvent =
+    | { type: 'ateFood'; by: PlayerId | 'pacman'; at: Point }
+    | { type: 'ateEnemy'; by: PlayerId; kind: EnemyKind; name: string; at: Point }
+    | { type: 'enemySpawned'; kind: EnemyKind; name: string; at: Point }
+    | { type: 'caught'; name: string; by: string; at: Point }
+    | { type: 'pickedPowerup'; by: PlayerId | 'pacman'; powerup: PowerupType; at: Point }
+    | { type: 'powerupExpired'; powerup: PowerupType; at: Point }
+    | { type: 'wrapped'; by: PlayerId; x: number; y: number }
+    | { type: 'shielded'; player: PlayerId; at: Point }
+    | { type: 'obstacle'; at: Point }
+    | { type: 'scored'; by: PlayerId; source: ScoreSource; points: number; at: Point }
+    | { type: 'died'; player: PlayerId; killer?: string }
+    | { type: 'matchOver' }; // on the tick the match ends, however it ended